@@ -67,6 +67,46 @@ describe('ChoreCard', () => {
     expect(screen.getByText(/Kitchen/)).toBeTruthy();
   });
 
+  it('renders a repeat summary for recurring chores', () => {
+    const chore = buildChore({ interval: { type: 'weekly', value: 1, rule: { byWeekday: [1, 4] } } });
+    render(<ChoreCard chore={chore} />);
+    expect(screen.getByText('Weekly on Mon, Thu')).toBeTruthy();
+  });
+
+  it('omits the repeat summary for one-off chores', () => {
+    const chore = buildChore({ interval: { type: 'once', value: 1 } });
+    render(<ChoreCard chore={chore} />);
+    expect(screen.queryByText('One-off')).toBeNull();
+  });
+
+  it('shows Skip and Snooze swipe actions for open recurring chores', () => {
+    const chore = buildChore();
+    render(<ChoreCard chore={chore} onSkip={jest.fn()} onSnooze={jest.fn()} />);
+    expect(screen.getByText('Skip')).toBeTruthy();
+    expect(screen.getByText('Snooze')).toBeTruthy();
+  });
+
+  it('calls onSkip when the Skip action is pressed', () => {
+    const onSkip = jest.fn();
+    render(<ChoreCard chore={buildChore()} onSkip={onSkip} />);
+    fireEvent.press(screen.getByText('Skip'));
+    expect(onSkip).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides swipe actions for completed chores', () => {
+    const chore = buildCompletedChore();
+    render(<ChoreCard chore={chore} onSkip={jest.fn()} onSnooze={jest.fn()} />);
+    expect(screen.queryByText('Skip')).toBeNull();
+    expect(screen.queryByText('Snooze')).toBeNull();
+  });
+
+  it('does not offer Skip for one-off chores', () => {
+    const chore = buildChore({ interval: { type: 'once', value: 1 } });
+    render(<ChoreCard chore={chore} onSkip={jest.fn()} onSnooze={jest.fn()} />);
+    expect(screen.queryByText('Skip')).toBeNull();
+    expect(screen.getByText('Snooze')).toBeTruthy();
+  });
+
   it('calls onUndo when checkmark is pressed on completed chore', () => {
     const onUndo = jest.fn();
     const chore = buildCompletedChore();
@@ -77,6 +117,15 @@ describe('ChoreCard', () => {
     expect(onUndo).toHaveBeenCalledTimes(1);
   });
 
+  it('shows the sync indicator only while changes are pending', () => {
+    const chore = buildChore();
+    const { rerender } = render(<ChoreCard chore={chore} />);
+    expect(screen.queryByLabelText('Waiting to sync')).toBeNull();
+
+    rerender(<ChoreCard chore={chore} isPending />);
+    expect(screen.getByLabelText('Waiting to sync')).toBeTruthy();
+  });
+
   it('calls onPress when chore name is tapped', () => {
     const onPress = jest.fn();
     const chore = buildChore({ name: 'Press me' });
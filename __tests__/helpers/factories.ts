@@ -4,9 +4,11 @@
  */
 
 import { Timestamp } from '@react-native-firebase/firestore';
+import type { ActivityEntry } from '@/lib/types/activity';
 import type { Chore, Interval, Completion } from '@/lib/types/chore';
 import type { Household, HouseholdMember } from '@/lib/types/household';
-import type { HouseholdInvite } from '@/lib/types/invite';
+import type { HouseholdInvite, JoinCode } from '@/lib/types/invite';
+import type { User } from '@/lib/types/user';
 
 // ── Timestamp helpers ──
 
@@ -121,3 +123,53 @@ export function buildInvite(
     ...overrides,
   };
 }
+
+// ── Join code factory ──
+
+export function buildJoinCode(overrides: Partial<JoinCode> = {}): JoinCode {
+  return {
+    code: 'ABCD2345',
+    householdId: 'household-1',
+    householdName: 'Test Household',
+    createdBy: 'user-1',
+    role: 'member',
+    useCount: 0,
+    maxUses: 1,
+    createdAt: ts(),
+    expiresAt: daysFromNow(7),
+    ...overrides,
+  };
+}
+
+// ── User factory ──
+
+export function buildUser(overrides: Partial<User> = {}): User {
+  const now = ts();
+  return {
+    uid: 'user-1',
+    email: 'alice@example.com',
+    displayName: 'Alice',
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+// ── Activity factory ──
+
+let activityCounter = 0;
+
+export function buildActivityEntry(overrides: Partial<ActivityEntry> = {}): ActivityEntry {
+  activityCounter++;
+  return {
+    id: `activity-${activityCounter}`,
+    householdId: 'household-1',
+    type: 'choreCompleted',
+    actorId: 'user-1',
+    createdAt: ts(),
+    choreId: 'chore-1',
+    choreName: 'Dishes',
+    ...overrides,
+  };
+}
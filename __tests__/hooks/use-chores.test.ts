@@ -1,15 +1,40 @@
-import { renderHook, waitFor } from '@testing-library/react-native';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import {
+  dehydrate,
+  hydrate,
+  onlineManager,
+  QueryClient,
+  QueryClientProvider,
+} from '@tanstack/react-query';
 import React from 'react';
-import { useHouseholdChores, useChore, useTodayChores } from '@/lib/hooks/use-chores';
+import {
+  registerChoreMutationDefaults,
+  useAllHouseholdChoreStats,
+  useChore,
+  useCompleteChore,
+  useHouseholdChores,
+  useTodayChores,
+  useUndoCompletion,
+} from '@/lib/hooks/use-chores';
 import { queryKeys } from '@/lib/hooks/query-keys';
 import * as choreService from '@/lib/services/chore-service';
-import { buildChore } from '../helpers/factories';
+import * as notificationService from '@/lib/services/notification-service';
+import { showToast } from '@/lib/utils/toast';
+import { buildChore, buildCompletedChore, daysFromNow } from '../helpers/factories';
 
 jest.mock('@/lib/services/chore-service');
 jest.mock('@/lib/services/notification-service');
+jest.mock('@/lib/utils/toast');
 
 const mockChoreService = choreService as jest.Mocked<typeof choreService>;
+const mockNotificationService = notificationService as jest.Mocked<typeof notificationService>;
+
+beforeEach(() => {
+  mockNotificationService.cancelChoreNotifications.mockResolvedValue(undefined);
+  mockChoreService.watchHouseholdChores.mockReturnValue(jest.fn());
+  mockChoreService.watchChore.mockReturnValue(jest.fn());
+  mockChoreService.watchChoresForHouseholds.mockReturnValue(jest.fn());
+});
 
 function createWrapper() {
   const queryClient = new QueryClient({
@@ -28,6 +53,19 @@ function createWrapper() {
   };
 }
 
+/**
+ * A client for tests that seed the cache or run mutations. No gc timers are
+ * scheduled, so they can't keep jest from exiting once the tests finish.
+ */
+function createTestQueryClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false, gcTime: Infinity },
+      mutations: { retry: false, gcTime: Infinity },
+    },
+  });
+}
+
 describe('useHouseholdChores', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -56,6 +94,39 @@ describe('useHouseholdChores', () => {
     expect(mockChoreService.getHouseholdChores).toHaveBeenCalledWith('household-1');
   });
 
+  it('applies realtime snapshots to the cached chores', async () => {
+    mockChoreService.getHouseholdChores.mockResolvedValue([buildChore()]);
+
+    const wrapper = createWrapper();
+    const { result } = renderHook(() => useHouseholdChores('household-1'), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+    expect(result.current.data).toHaveLength(1);
+    expect(mockChoreService.watchHouseholdChores).toHaveBeenCalledTimes(1);
+
+    const onChange = mockChoreService.watchHouseholdChores.mock.calls[0][1];
+    act(() => {
+      onChange([buildChore({ name: 'Done elsewhere' })]);
+    });
+
+    await waitFor(() => {
+      expect(result.current.data?.[0].name).toBe('Done elsewhere');
+    });
+  });
+
+  it('stops listening on unmount', () => {
+    const unsubscribe = jest.fn();
+    mockChoreService.watchHouseholdChores.mockReturnValue(unsubscribe);
+
+    const wrapper = createWrapper();
+    const { unmount } = renderHook(() => useHouseholdChores('household-1'), { wrapper });
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
   it('uses correct query key', () => {
     const key = queryKeys.chores.household('h1');
     expect(key).toEqual(['chores', 'household', 'h1']);
@@ -129,3 +200,210 @@ describe('useTodayChores', () => {
     expect(mockChoreService.getChoresForHouseholds).toHaveBeenCalledWith(['h1', 'h2']);
   });
 });
+
+describe('useAllHouseholdChoreStats', () => {
+  const actual = jest.requireActual<typeof choreService>('@/lib/services/chore-service');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockChoreService.isChoreOverdue.mockImplementation(actual.isChoreOverdue);
+    mockChoreService.matchesChoreFilter.mockImplementation(actual.matchesChoreFilter);
+    mockChoreService.getChoresForHouseholds.mockResolvedValue([
+      buildChore({ householdId: 'h1', assignedTo: 'user-1', dueAt: daysFromNow(-1) }),
+      buildChore({ householdId: 'h1', assignedTo: 'user-2', dueAt: daysFromNow(-1) }),
+      buildChore({ householdId: 'h1', dueAt: daysFromNow(3) }),
+    ]);
+  });
+
+  it("counts every household member's chores by default", async () => {
+    const wrapper = createWrapper();
+    const { result } = renderHook(() => useAllHouseholdChoreStats('user-1', ['h1']), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.statsMap.h1).toBeDefined();
+    });
+    expect(result.current.statsMap.h1).toEqual({ total: 3, overdue: 2, dueToday: 0 });
+  });
+
+  it("counts only chores passing the user's chore filter", async () => {
+    const wrapper = createWrapper();
+    const { result } = renderHook(
+      () => useAllHouseholdChoreStats('user-1', ['h1'], 'mineAndUnassigned'),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.statsMap.h1).toBeDefined();
+    });
+    expect(result.current.statsMap.h1).toEqual({ total: 2, overdue: 1, dueToday: 0 });
+  });
+});
+
+describe('optimistic completion', () => {
+  const chore = buildChore({ id: 'c1', householdId: 'h1', dueAt: daysFromNow(-1) });
+  const completed = buildCompletedChore({ id: 'c1', householdId: 'h1', dueAt: daysFromNow(6) });
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryClient = createTestQueryClient();
+    queryClient.setQueryData(queryKeys.chores.household('h1'), [chore]);
+    queryClient.setQueryData(queryKeys.chores.today('user-1'), [chore]);
+    queryClient.setQueryData(queryKeys.chores.allHouseholds('user-1'), [chore]);
+    queryClient.setQueryData(queryKeys.chores.detail('c1'), chore);
+    registerChoreMutationDefaults(queryClient);
+    mockChoreService.withCompletion.mockReturnValue(completed);
+    mockChoreService.withoutCompletion.mockReturnValue(chore);
+  });
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  }
+
+  function cachedChores() {
+    return [
+      queryClient.getQueryData<any[]>(queryKeys.chores.household('h1'))?.[0],
+      queryClient.getQueryData<any[]>(queryKeys.chores.today('user-1'))?.[0],
+      queryClient.getQueryData<any[]>(queryKeys.chores.allHouseholds('user-1'))?.[0],
+      queryClient.getQueryData(queryKeys.chores.detail('c1')),
+    ];
+  }
+
+  it('marks the chore done in every cached list before the write finishes', async () => {
+    mockChoreService.completeChore.mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(() => useCompleteChore('h1', 'user-1'), { wrapper });
+
+    act(() => {
+      result.current.mutate('c1');
+    });
+
+    await waitFor(() => {
+      expect(cachedChores()).toEqual([completed, completed, completed, completed]);
+    });
+    expect(mockChoreService.withCompletion).toHaveBeenCalledWith(chore, 'user-1');
+  });
+
+  it("cancels the chore's notifications before the write finishes", () => {
+    mockChoreService.completeChore.mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(() => useCompleteChore('h1', 'user-1'), { wrapper });
+
+    act(() => {
+      result.current.mutate('c1');
+    });
+
+    expect(mockNotificationService.cancelChoreNotifications).toHaveBeenCalledWith('c1');
+  });
+
+  it('rolls back and shows a toast when completing fails', async () => {
+    mockChoreService.completeChore.mockRejectedValue(new Error('offline'));
+    const { result } = renderHook(() => useCompleteChore('h1', 'user-1'), { wrapper });
+
+    act(() => {
+      result.current.mutate('c1');
+    });
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+    expect(cachedChores()).toEqual([chore, chore, chore, chore]);
+    expect(showToast).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows who got there first when the completion conflicts', async () => {
+    // The service module is automocked, so the error's constructor doesn't set the message
+    const conflict = Object.assign(new mockChoreService.ChoreConflictError(''), {
+      message: 'Already completed by Alice',
+    });
+    mockChoreService.completeChore.mockRejectedValue(conflict);
+    const { result } = renderHook(() => useCompleteChore('h1', 'user-1'), { wrapper });
+
+    act(() => {
+      result.current.mutate('c1');
+    });
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+    expect(showToast).toHaveBeenCalledWith('Already completed by Alice');
+  });
+
+  it('restores the previous due date optimistically on undo', async () => {
+    queryClient.setQueryData(queryKeys.chores.household('h1'), [completed]);
+    queryClient.setQueryData(queryKeys.chores.detail('c1'), completed);
+    mockChoreService.undoCompletion.mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(() => useUndoCompletion('h1', 'user-1'), { wrapper });
+
+    act(() => {
+      result.current.mutate('c1');
+    });
+
+    await waitFor(() => {
+      expect(queryClient.getQueryData(queryKeys.chores.detail('c1'))).toEqual(chore);
+    });
+    expect(queryClient.getQueryData<any[]>(queryKeys.chores.household('h1'))?.[0]).toEqual(chore);
+  });
+});
+
+describe('offline mutation queue', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryClient = createTestQueryClient();
+    registerChoreMutationDefaults(queryClient);
+    mockChoreService.withCompletion.mockImplementation((chore) => chore);
+    mockChoreService.completeChore.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  }
+
+  it('holds completions while offline and sends them once back online', async () => {
+    onlineManager.setOnline(false);
+    const { result } = renderHook(() => useCompleteChore('h1', 'user-1'), { wrapper });
+
+    act(() => {
+      result.current.mutate('c1');
+    });
+
+    await waitFor(() => {
+      expect(result.current.isPaused).toBe(true);
+    });
+    expect(mockChoreService.completeChore).not.toHaveBeenCalled();
+
+    act(() => {
+      onlineManager.setOnline(true);
+    });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+    expect(mockChoreService.completeChore).toHaveBeenCalledWith('c1', 'user-1');
+  });
+
+  it('resumes a queued mutation restored after a restart', async () => {
+    onlineManager.setOnline(false);
+    const { result } = renderHook(() => useCompleteChore('h1', 'user-1'), { wrapper });
+    act(() => {
+      result.current.mutate('c1');
+    });
+    await waitFor(() => {
+      expect(result.current.isPaused).toBe(true);
+    });
+    const saved = dehydrate(queryClient);
+
+    // A fresh client only knows the mutation through its key and defaults
+    const restarted = createTestQueryClient();
+    registerChoreMutationDefaults(restarted);
+    hydrate(restarted, saved);
+    onlineManager.setOnline(true);
+    await restarted.resumePausedMutations();
+
+    expect(mockChoreService.completeChore).toHaveBeenCalledWith('c1', 'user-1');
+  });
+});
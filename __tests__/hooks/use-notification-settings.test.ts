@@ -1,15 +1,26 @@
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useNotificationSettings } from '@/lib/hooks/use-notification-settings';
+import {
+  clearCachedNotificationSettings,
+  getCachedNotificationSettings,
+  useNotificationSettings,
+} from '@/lib/hooks/use-notification-settings';
 import { DEFAULT_NOTIFICATION_SETTINGS } from '@/lib/services/notification-service';
+import * as userService from '@/lib/services/user-service';
+
+jest.mock('@/lib/services/user-service');
 
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+const mockUserService = userService as jest.Mocked<typeof userService>;
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 describe('useNotificationSettings', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockAsyncStorage.getItem.mockResolvedValue(null);
     mockAsyncStorage.setItem.mockResolvedValue(undefined);
+    mockUserService.getNotificationSettings.mockResolvedValue(null);
+    mockUserService.saveNotificationSettings.mockResolvedValue(undefined);
   });
 
   it('returns default settings initially', async () => {
@@ -37,7 +48,7 @@ describe('useNotificationSettings', () => {
     const savedSettings = { enabled: false, dailyReminderTime: '07:00' };
     mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(savedSettings));
 
-    const { result } = renderHook(() => useNotificationSettings());
+    const { result } = renderHook(() => useNotificationSettings('user-1'));
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
@@ -51,7 +62,7 @@ describe('useNotificationSettings', () => {
   });
 
   it('updateSettings writes to AsyncStorage', async () => {
-    const { result } = renderHook(() => useNotificationSettings());
+    const { result } = renderHook(() => useNotificationSettings('user-1'));
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
@@ -62,11 +73,35 @@ describe('useNotificationSettings', () => {
     });
 
     expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
-      '@notification_settings',
+      '@notification_settings:user-1',
       expect.stringContaining('"enabled":false')
     );
   });
 
+  it("caches each user's settings under their own key", async () => {
+    mockAsyncStorage.getItem.mockImplementation(async (key) =>
+      key === '@notification_settings:user-1' ? JSON.stringify({ enabled: false }) : null
+    );
+
+    const { result } = renderHook(() => useNotificationSettings('user-2'));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.settings).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+    expect((await getCachedNotificationSettings('user-1')).enabled).toBe(false);
+    expect(await getCachedNotificationSettings('user-2')).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+    // Another user's cache is never uploaded as this one's
+    expect(mockUserService.saveNotificationSettings).not.toHaveBeenCalled();
+  });
+
+  it("forgets a signed-out user's cache, including the old shared one", async () => {
+    await clearCachedNotificationSettings('user-1');
+
+    expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith('@notification_settings:user-1');
+    expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith('@notification_settings');
+  });
+
   it('updateSettings merges with existing settings', async () => {
     const { result } = renderHook(() => useNotificationSettings());
 
@@ -95,4 +130,111 @@ describe('useNotificationSettings', () => {
 
     expect(result.current.settings).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
   });
+
+  describe('with a signed-in user', () => {
+    it("adopts the user's saved settings and caches them", async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify({ dailyReminderTime: '07:00' }));
+      mockUserService.getNotificationSettings.mockResolvedValue({
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        dailyReminderTime: '06:30',
+        timeZone,
+      });
+
+      const { result } = renderHook(() => useNotificationSettings('user-1'));
+
+      await waitFor(() => {
+        expect(result.current.settings.dailyReminderTime).toBe('06:30');
+      });
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        '@notification_settings:user-1',
+        expect.stringContaining('"dailyReminderTime":"06:30"')
+      );
+      expect(mockUserService.saveNotificationSettings).not.toHaveBeenCalled();
+    });
+
+    it('uploads settings cached on this device when none are saved', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify({ enabled: false }));
+
+      renderHook(() => useNotificationSettings('user-1'));
+
+      await waitFor(() => {
+        expect(mockUserService.saveNotificationSettings).toHaveBeenCalledWith('user-1', {
+          ...DEFAULT_NOTIFICATION_SETTINGS,
+          enabled: false,
+          timeZone,
+        });
+      });
+    });
+
+    it("records this device's timezone on settings saved elsewhere", async () => {
+      mockUserService.getNotificationSettings.mockResolvedValue({
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        timeZone: 'Pacific/Chatham',
+      });
+
+      renderHook(() => useNotificationSettings('user-1'));
+
+      await waitFor(() => {
+        expect(mockUserService.saveNotificationSettings).toHaveBeenCalledWith('user-1', {
+          ...DEFAULT_NOTIFICATION_SETTINGS,
+          timeZone,
+        });
+      });
+    });
+
+    it('uploads nothing when neither the device nor the user has saved settings', async () => {
+      const { result } = renderHook(() => useNotificationSettings('user-1'));
+
+      await waitFor(() => {
+        expect(mockUserService.getNotificationSettings).toHaveBeenCalledWith('user-1');
+      });
+      expect(result.current.settings).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+      expect(mockUserService.saveNotificationSettings).not.toHaveBeenCalled();
+    });
+
+    it("writes updates to the user's saved settings", async () => {
+      const { result } = renderHook(() => useNotificationSettings('user-1'));
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      await act(async () => {
+        await result.current.updateSettings({ choreAlertsEnabled: false });
+      });
+
+      expect(mockUserService.saveNotificationSettings).toHaveBeenCalledWith('user-1', {
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        choreAlertsEnabled: false,
+        timeZone,
+      });
+    });
+
+    it('keeps the cached settings when the saved settings fail to load', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify({ dailyReminderTime: '07:00' }));
+      mockUserService.getNotificationSettings.mockRejectedValue(new Error('offline'));
+
+      const { result } = renderHook(() => useNotificationSettings('user-1'));
+
+      await waitFor(() => {
+        expect(mockUserService.getNotificationSettings).toHaveBeenCalled();
+      });
+      expect(result.current.settings.dailyReminderTime).toBe('07:00');
+    });
+  });
+
+  it('shares updates with every mounted instance', async () => {
+    const first = renderHook(() => useNotificationSettings());
+    const second = renderHook(() => useNotificationSettings());
+
+    await waitFor(() => {
+      expect(second.result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await first.result.current.updateSettings({ choreFilter: 'mine' });
+    });
+
+    expect(second.result.current.settings.choreFilter).toBe('mine');
+  });
 });
@@ -0,0 +1,92 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { onlineManager, QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { registerChoreMutationDefaults, useCompleteChore } from '@/lib/hooks/use-chores';
+import { queryKeys } from '@/lib/hooks/query-keys';
+import { usePendingChanges } from '@/lib/hooks/use-pending-changes';
+import * as choreService from '@/lib/services/chore-service';
+import * as notificationService from '@/lib/services/notification-service';
+import { buildChore } from '../helpers/factories';
+
+jest.mock('@/lib/services/chore-service');
+jest.mock('@/lib/services/notification-service');
+jest.mock('@/lib/utils/toast');
+
+const mockChoreService = choreService as jest.Mocked<typeof choreService>;
+const mockNotificationService = notificationService as jest.Mocked<typeof notificationService>;
+
+describe('usePendingChanges', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // No gc timers, so the cache can't keep jest from exiting
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false, gcTime: Infinity },
+        mutations: { retry: false, gcTime: Infinity },
+      },
+    });
+    registerChoreMutationDefaults(queryClient);
+    queryClient.setQueryData(queryKeys.chores.household('h1'), [
+      buildChore({ id: 'c1', householdId: 'h1', name: 'Dishes' }),
+    ]);
+    mockChoreService.withCompletion.mockImplementation((chore) => chore);
+    mockChoreService.completeChore.mockResolvedValue(undefined);
+    mockNotificationService.cancelChoreNotifications.mockResolvedValue(undefined);
+    onlineManager.setOnline(false);
+  });
+
+  afterEach(() => {
+    // Drop the queued completion before going online, so it never runs
+    queryClient.clear();
+    onlineManager.setOnline(true);
+  });
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  }
+
+  function renderWithQueuedCompletion() {
+    const { result } = renderHook(
+      () => ({
+        complete: useCompleteChore('h1', 'user-1'),
+        pending: usePendingChanges(),
+      }),
+      { wrapper }
+    );
+    act(() => {
+      result.current.complete.mutate('c1');
+    });
+    return result;
+  }
+
+  it('lists changes queued while offline', async () => {
+    const result = renderWithQueuedCompletion();
+
+    await waitFor(() => {
+      expect(result.current.pending.changes).toHaveLength(1);
+    });
+    expect(result.current.pending.changes[0].description).toBe('Complete "Dishes"');
+  });
+
+  it('discards a queued change so it never syncs', async () => {
+    const result = renderWithQueuedCompletion();
+    await waitFor(() => {
+      expect(result.current.pending.changes).toHaveLength(1);
+    });
+
+    act(() => {
+      result.current.pending.discardChange(result.current.pending.changes[0].mutationId);
+    });
+    await waitFor(() => {
+      expect(result.current.pending.changes).toHaveLength(0);
+    });
+
+    act(() => {
+      onlineManager.setOnline(true);
+    });
+    await queryClient.resumePausedMutations();
+    expect(mockChoreService.completeChore).not.toHaveBeenCalled();
+  });
+});
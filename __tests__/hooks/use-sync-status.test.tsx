@@ -0,0 +1,153 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { onSnapshot, waitForPendingWrites } from '@react-native-firebase/firestore';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { SyncProvider } from '@/lib/contexts/sync-context';
+import { choreConverter } from '@/lib/firebase/converters';
+import { useTodayChores } from '@/lib/hooks/use-chores';
+import { useSyncStatus } from '@/lib/hooks/use-sync-status';
+import { useUserHouseholds } from '@/lib/hooks/use-households';
+import { useNetworkStatus } from '@/lib/hooks/use-network-status';
+import { unsubscribeAll } from '@/lib/query-subscriptions';
+import { buildChore, buildHousehold } from '../helpers/factories';
+
+jest.mock('@/lib/hooks/use-auth', () => ({
+  useAuth: () => ({ user: { uid: 'user-1' } }),
+}));
+
+jest.mock('@/lib/hooks/use-households', () => ({
+  useUserHouseholds: jest.fn(),
+}));
+
+jest.mock('@/lib/hooks/use-network-status', () => ({
+  useNetworkStatus: jest.fn(),
+}));
+
+const mockOnSnapshot = onSnapshot as jest.Mock;
+const mockWaitForPendingWrites = waitForPendingWrites as jest.Mock;
+const mockUseUserHouseholds = useUserHouseholds as jest.Mock;
+const mockUseNetworkStatus = useNetworkStatus as jest.Mock;
+const mockFromSnapshot = choreConverter.fromSnapshot as jest.Mock;
+
+type Listener = (snapshot: unknown) => void;
+
+function snapshot(
+  docs: { id: string; pending?: boolean }[],
+  metadata: { fromCache: boolean; hasPendingWrites: boolean }
+) {
+  return {
+    docs: docs.map((d) => ({ id: d.id, metadata: { hasPendingWrites: !!d.pending } })),
+    metadata,
+  };
+}
+
+describe('useSyncStatus', () => {
+  let listeners: Listener[];
+  let queryClient: QueryClient;
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return (
+      <QueryClientProvider client={queryClient}>
+        <SyncProvider>{children}</SyncProvider>
+      </QueryClientProvider>
+    );
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    unsubscribeAll();
+    // No gc timers, so the cache can't keep jest from exiting
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false, gcTime: Infinity } },
+    });
+    mockFromSnapshot.mockImplementation((d: any) => buildChore({ id: d.id }));
+    listeners = [];
+    mockOnSnapshot.mockImplementation((_query, _options, onNext: Listener) => {
+      listeners.push(onNext);
+      return jest.fn();
+    });
+    mockWaitForPendingWrites.mockReturnValue(new Promise(() => {}));
+    mockUseUserHouseholds.mockReturnValue({ data: [buildHousehold({ id: 'h1' })] });
+    mockUseNetworkStatus.mockReturnValue({ isOnline: true });
+  });
+
+  it('listens to chore metadata changes', () => {
+    renderHook(() => useSyncStatus(), { wrapper });
+
+    expect(mockOnSnapshot).toHaveBeenCalledTimes(1);
+    expect(mockOnSnapshot.mock.calls[0][1]).toEqual({ includeMetadataChanges: true });
+  });
+
+  it("shares the Today screen's chore listener", () => {
+    renderHook(
+      () => {
+        useTodayChores('user-1', ['h1']);
+        return useSyncStatus();
+      },
+      { wrapper }
+    );
+
+    expect(mockOnSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks chores with pending writes', () => {
+    const { result } = renderHook(() => useSyncStatus(), { wrapper });
+
+    act(() => {
+      listeners[0](
+        snapshot([{ id: 'c1', pending: true }, { id: 'c2' }], {
+          fromCache: true,
+          hasPendingWrites: true,
+        })
+      );
+    });
+
+    expect(result.current.pendingChoreCount).toBe(1);
+    expect(result.current.isChorePending('c1')).toBe(true);
+    expect(result.current.isChorePending('c2')).toBe(false);
+    expect(result.current.isSyncing).toBe(true);
+    expect(result.current.lastSyncedAt).toBeNull();
+  });
+
+  it('records the last sync once the server confirms', () => {
+    const { result } = renderHook(() => useSyncStatus(), { wrapper });
+
+    act(() => {
+      listeners[0](snapshot([{ id: 'c1' }], { fromCache: false, hasPendingWrites: false }));
+    });
+
+    expect(result.current.pendingChoreCount).toBe(0);
+    expect(result.current.lastSyncedAt).toBeInstanceOf(Date);
+  });
+
+  it('waits for pending writes when online', async () => {
+    mockWaitForPendingWrites.mockResolvedValue(undefined);
+    const { result } = renderHook(() => useSyncStatus(), { wrapper });
+
+    act(() => {
+      listeners[0](
+        snapshot([{ id: 'c1', pending: true }], { fromCache: true, hasPendingWrites: true })
+      );
+    });
+
+    await waitFor(() => {
+      expect(result.current.lastSyncedAt).toBeInstanceOf(Date);
+    });
+    expect(mockWaitForPendingWrites).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not report syncing while offline', () => {
+    mockUseNetworkStatus.mockReturnValue({ isOnline: false });
+    const { result } = renderHook(() => useSyncStatus(), { wrapper });
+
+    act(() => {
+      listeners[0](
+        snapshot([{ id: 'c1', pending: true }], { fromCache: true, hasPendingWrites: true })
+      );
+    });
+
+    expect(result.current.pendingChoreCount).toBe(1);
+    expect(result.current.isSyncing).toBe(false);
+    expect(mockWaitForPendingWrites).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  documentId,
+  getDocs,
+  orderBy,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  Timestamp,
+} from '@react-native-firebase/firestore';
+import { auth } from '@/lib/firebase/config';
+import { activityConverter } from '@/lib/firebase/converters';
+import {
+  describeActivity,
+  getActivityPage,
+  logActivity,
+} from '@/lib/services/activity-service';
+import { buildActivityEntry } from '../helpers/factories';
+
+const mockGetDocs = getDocs as jest.Mock;
+const mockSetDoc = setDoc as jest.Mock;
+const mockStartAfter = startAfter as jest.Mock;
+const mockOrderBy = orderBy as jest.Mock;
+const mockActivityFromSnapshot = activityConverter.fromSnapshot as jest.Mock;
+
+const NAMES: Record<string, string> = { 'user-1': 'Alice', 'user-2': 'Bob' };
+const getMemberName = (userId: string) => NAMES[userId] ?? 'Someone';
+
+function signIn(uid: string | null) {
+  (auth as { currentUser: { uid: string } | null }).currentUser = uid ? { uid } : null;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  signIn(null);
+});
+
+// ── logActivity ──
+
+describe('logActivity', () => {
+  it('records the entry against the signed-in user', async () => {
+    signIn('user-2');
+
+    await logActivity('household-1', { type: 'choreCompleted', choreId: 'chore-1', choreName: 'Dishes' });
+
+    expect(mockSetDoc).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        householdId: 'household-1',
+        type: 'choreCompleted',
+        actorId: 'user-2',
+        choreId: 'chore-1',
+        choreName: 'Dishes',
+        createdAt: serverTimestamp(),
+      })
+    );
+  });
+
+  it('does nothing when nobody is signed in', async () => {
+    await logActivity('household-1', { type: 'memberLeft', userId: 'user-1' });
+
+    expect(mockSetDoc).not.toHaveBeenCalled();
+  });
+
+  it('swallows write failures so the change itself still succeeds', async () => {
+    signIn('user-1');
+    mockSetDoc.mockRejectedValueOnce(new Error('permission-denied'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      logActivity('household-1', { type: 'roomCreated', roomId: 'room-1', roomName: 'Garage' })
+    ).resolves.toBeUndefined();
+
+    consoleError.mockRestore();
+  });
+});
+
+// ── getActivityPage ──
+
+describe('getActivityPage', () => {
+  function mockEntries(count: number) {
+    const entries = Array.from({ length: count }, (_, i) =>
+      buildActivityEntry({ id: `entry-${i}`, createdAt: Timestamp.fromMillis(1_000_000 - i * 1000) })
+    );
+    mockGetDocs.mockResolvedValueOnce({ docs: entries.map((e) => ({ data: () => e })) });
+    mockActivityFromSnapshot.mockImplementation((d: { data: () => unknown }) => d.data());
+    return entries;
+  }
+
+  it('returns a cursor after a full page', async () => {
+    const entries = mockEntries(3);
+
+    const page = await getActivityPage('household-1', null, 3);
+
+    expect(page.entries).toEqual(entries);
+    expect(page.nextCursor).toEqual({ seconds: 998, nanoseconds: 0, id: 'entry-2' });
+    expect(mockStartAfter).not.toHaveBeenCalled();
+  });
+
+  it('keeps sub-millisecond precision in the cursor', async () => {
+    const entry = buildActivityEntry({ id: 'entry-0', createdAt: new Timestamp(998, 123_456) });
+    mockGetDocs.mockResolvedValueOnce({ docs: [{ data: () => entry }] });
+    mockActivityFromSnapshot.mockImplementation((d: { data: () => unknown }) => d.data());
+
+    const page = await getActivityPage('household-1', null, 1);
+
+    expect(page.nextCursor).toEqual({ seconds: 998, nanoseconds: 123_456, id: 'entry-0' });
+  });
+
+  it('continues after the cursor entry, breaking createdAt ties by ID', async () => {
+    mockEntries(2);
+
+    const page = await getActivityPage('household-1', { seconds: 998, nanoseconds: 0, id: 'entry-2' }, 3);
+
+    expect(page.nextCursor).toBeNull();
+    expect(mockOrderBy).toHaveBeenCalledWith('createdAt', 'desc');
+    expect(mockOrderBy).toHaveBeenCalledWith(documentId(), 'desc');
+    expect(mockStartAfter).toHaveBeenCalledWith(new Timestamp(998, 0), 'entry-2');
+  });
+});
+
+// ── describeActivity ──
+
+describe('describeActivity', () => {
+  it('names the actor and the chore', () => {
+    expect(describeActivity(buildActivityEntry(), getMemberName)).toBe('Alice completed "Dishes"');
+    expect(
+      describeActivity(buildActivityEntry({ type: 'completionUndone', actorId: 'user-2' }), getMemberName)
+    ).toBe('Bob undid the completion of "Dishes"');
+  });
+
+  it('lists the fields a chore edit changed', () => {
+    const entry = buildActivityEntry({
+      type: 'choreUpdated',
+      changedFields: ['assignedTo', 'dueAt', 'interval'],
+    });
+
+    expect(describeActivity(entry, getMemberName)).toBe(
+      'Alice changed the assignee, due date and schedule of "Dishes"'
+    );
+  });
+
+  it('falls back to "edited" for fields without a label', () => {
+    const entry = buildActivityEntry({ type: 'choreUpdated', changedFields: ['isOverdue'] });
+
+    expect(describeActivity(entry, getMemberName)).toBe('Alice edited "Dishes"');
+  });
+
+  it('describes room changes', () => {
+    expect(
+      describeActivity(
+        buildActivityEntry({ type: 'roomRenamed', roomName: 'Den', previousName: 'Office' }),
+        getMemberName
+      )
+    ).toBe('Alice renamed Office to Den');
+    expect(
+      describeActivity(buildActivityEntry({ type: 'roomDeleted', roomName: 'Garage' }), getMemberName)
+    ).toBe('Alice deleted the Garage room');
+  });
+
+  it('names the member a membership change is about', () => {
+    expect(
+      describeActivity(
+        buildActivityEntry({ type: 'memberRoleChanged', userId: 'user-2', role: 'admin' }),
+        getMemberName
+      )
+    ).toBe('Alice made Bob an admin');
+    expect(
+      describeActivity(buildActivityEntry({ type: 'memberRemoved', userId: 'user-2' }), getMemberName)
+    ).toBe('Alice removed Bob');
+    expect(
+      describeActivity(buildActivityEntry({ type: 'memberJoined', actorId: 'user-2' }), getMemberName)
+    ).toBe('Bob joined the household');
+  });
+
+  it('describes invites with the role offered', () => {
+    const entry = buildActivityEntry({
+      type: 'inviteSent',
+      invitedEmail: 'carol@example.com',
+      role: 'member',
+    });
+
+    expect(describeActivity(entry, getMemberName)).toBe('Alice invited carol@example.com as a member');
+  });
+});
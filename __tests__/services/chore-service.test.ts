@@ -1,10 +1,127 @@
 import {
+  getDoc,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  updateDoc,
+} from '@react-native-firebase/firestore';
+import {
+  ChoreConflictError,
   calculateNextDueDate,
+  calculateNextDueDateAfterCompletion,
+  completeChore,
+  deleteChore,
   isChoreOverdue,
+  matchesChoreFilter,
+  getNextRotationAssignee,
+  getProjectedDueDates,
+  getScheduleAnchor,
   getUpcomingDueDates,
+  removeUserFromRotations,
+  skipOccurrence,
+  snoozeChore,
+  unassignUserChores,
+  undoCompletion,
+  updateChore,
+  watchChoresForHouseholds,
+  withCompletion,
+  withoutCompletion,
 } from '@/lib/services/chore-service';
-import type { Interval } from '@/lib/types/chore';
-import { buildChore, daysFromNow, ts } from '../helpers/factories';
+import { logActivity } from '@/lib/services/activity-service';
+import type { Chore, Interval } from '@/lib/types/chore';
+import {
+  buildChore,
+  buildCompletedChore,
+  buildOverdueChore,
+  daysFromNow,
+  ts,
+} from '../helpers/factories';
+
+jest.mock('@/lib/services/user-service', () => ({
+  getUserProfile: jest.fn(),
+}));
+
+jest.mock('@/lib/services/activity-service', () => ({
+  logActivity: jest.fn().mockResolvedValue(undefined),
+}));
+
+const mockGetDoc = getDoc as jest.Mock;
+const mockGetDocs = getDocs as jest.Mock;
+const mockUpdateDoc = updateDoc as jest.Mock;
+const mockOnSnapshot = onSnapshot as jest.Mock;
+const mockRunTransaction = runTransaction as jest.Mock;
+const mockLogActivity = logActivity as jest.Mock;
+
+/** Transaction whose reads go through the mocked getDoc */
+function mockTransaction() {
+  const transaction = {
+    get: jest.fn((ref) => mockGetDoc(ref)),
+    set: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+  mockRunTransaction.mockImplementation((_db, updateFunction) => updateFunction(transaction));
+  return transaction;
+}
+
+/**
+ * Single chore behind a runTransaction that behaves like Firestore's: if the
+ * chore was committed by someone else after this attempt read it, the
+ * attempt is discarded and retried against the fresh data.
+ */
+function mockContendedChore(initial: Chore) {
+  const { choreConverter } = require('@/lib/firebase/converters');
+  choreConverter.fromSnapshot.mockImplementation((snap: any) => snap.data());
+  let current = initial;
+  const store = { chore: () => current, commits: 0 };
+
+  mockRunTransaction.mockImplementation(async (_db, updateFunction) => {
+    for (;;) {
+      const readAt = store.commits;
+      const updates: Record<string, unknown>[] = [];
+      const transaction = {
+        get: jest.fn(async () => ({ exists: true, data: () => current })),
+        set: jest.fn(),
+        update: jest.fn((_ref, data) => updates.push(data)),
+        delete: jest.fn(),
+      };
+      const result = await updateFunction(transaction);
+      if (store.commits !== readAt) continue;
+
+      current = updates.reduce<Chore>((chore, data) => ({ ...chore, ...data }), current);
+      store.commits++;
+      return result;
+    }
+  });
+  return store;
+}
+
+/** Query snapshot of `chores`, flagging `pendingIds` as having local writes */
+function choreSnapshot(
+  chores: Chore[],
+  { fromCache, pendingIds = [] }: { fromCache: boolean; pendingIds?: string[] }
+) {
+  return {
+    docs: chores.map((chore) => ({
+      id: chore.id,
+      data: () => chore,
+      metadata: { hasPendingWrites: pendingIds.includes(chore.id) },
+    })),
+    metadata: { fromCache, hasPendingWrites: pendingIds.length > 0 },
+  };
+}
+
+function mockActiveMembers(userIds: string[]) {
+  mockGetDocs.mockResolvedValue({
+    docs: userIds.map((userId) => ({ data: () => ({ userId }) })),
+  });
+}
+
+function mockStoredChore(chore: Chore) {
+  const { choreConverter } = require('@/lib/firebase/converters');
+  mockGetDoc.mockResolvedValue({ exists: true, data: () => chore });
+  choreConverter.fromSnapshot.mockReturnValue(chore);
+}
 
 // ── calculateNextDueDate ──
 
@@ -73,6 +190,187 @@ describe('calculateNextDueDate', () => {
   });
 });
 
+describe('calculateNextDueDate with recurrence rules', () => {
+  // Sunday, June 15 2025 at noon (local time)
+  const sunday = new Date(2025, 5, 15, 12, 0, 0);
+
+  it('lands on the next selected weekday in the same week', () => {
+    const interval: Interval = { type: 'weekly', value: 1, rule: { byWeekday: [1, 4] } };
+    const result = calculateNextDueDate(sunday, interval);
+    expect(result.getDay()).toBe(1);
+    expect(result.getDate()).toBe(16);
+  });
+
+  it('wraps to the first selected weekday of the next week', () => {
+    const thursday = new Date(2025, 5, 19, 12, 0, 0);
+    const interval: Interval = { type: 'weekly', value: 1, rule: { byWeekday: [1, 4] } };
+    expect(calculateNextDueDate(thursday, interval).getDate()).toBe(23);
+  });
+
+  it('skips ahead N weeks for every-N-weeks weekday rules', () => {
+    const thursday = new Date(2025, 5, 19, 12, 0, 0);
+    const interval: Interval = { type: 'weekly', value: 2, rule: { byWeekday: [1] } };
+    expect(calculateNextDueDate(thursday, interval).getDate()).toBe(30);
+  });
+
+  it('clamps a fixed day of month to short months', () => {
+    const jan31 = new Date(2025, 0, 31, 12, 0, 0);
+    const interval: Interval = { type: 'monthly', value: 1, rule: { byMonthDay: 31 } };
+    const result = calculateNextDueDate(jan31, interval);
+    expect(result.getMonth()).toBe(1);
+    expect(result.getDate()).toBe(28);
+  });
+
+  it('supports the last day of the month', () => {
+    const interval: Interval = { type: 'monthly', value: 1, rule: { byMonthDay: -1 } };
+    const result = calculateNextDueDate(sunday, interval);
+    expect(result.getMonth()).toBe(5);
+    expect(result.getDate()).toBe(30);
+  });
+
+  it('finds the first Saturday of the next month', () => {
+    const interval: Interval = { type: 'monthly', value: 1, rule: { byWeekday: [6], bySetPos: 1 } };
+    const result = calculateNextDueDate(sunday, interval);
+    expect(result.getMonth()).toBe(6);
+    expect(result.getDate()).toBe(5);
+  });
+
+  it('finds the last Friday later in the same month', () => {
+    const interval: Interval = { type: 'monthly', value: 1, rule: { byWeekday: [5], bySetPos: -1 } };
+    const result = calculateNextDueDate(sunday, interval);
+    expect(result.getMonth()).toBe(5);
+    expect(result.getDate()).toBe(27);
+  });
+
+  it('keeps the time of day', () => {
+    const interval: Interval = { type: 'weekly', value: 1, rule: { byWeekday: [3] } };
+    const result = calculateNextDueDate(sunday, interval);
+    expect(result.getHours()).toBe(12);
+    expect(result.getMinutes()).toBe(0);
+  });
+
+  it('ignores rules on interval types that do not support them', () => {
+    const interval: Interval = { type: 'daily', value: 1, rule: { byWeekday: [3] } };
+    expect(calculateNextDueDate(sunday, interval).getDate()).toBe(16);
+  });
+
+  it('projects upcoming nth-weekday occurrences', () => {
+    const interval: Interval = { type: 'monthly', value: 1, rule: { byWeekday: [6], bySetPos: 1 } };
+    const dates = getUpcomingDueDates(sunday, interval, 3);
+    expect(dates.map((d) => [d.getMonth(), d.getDate()])).toEqual([
+      [6, 5],
+      [7, 2],
+      [8, 6],
+    ]);
+  });
+});
+
+// ── calculateNextDueDateAfterCompletion ──
+
+describe('calculateNextDueDateAfterCompletion', () => {
+  // Tuesday, June 10 2025 at 8:00 (local time)
+  const tuesday = new Date(2025, 5, 10, 8, 0, 0);
+  const weekly: Interval = { type: 'weekly', value: 1 };
+
+  it('restarts floating intervals from a late completion', () => {
+    const completedAt = new Date(2025, 5, 12, 18, 0, 0);
+    const result = calculateNextDueDateAfterCompletion(tuesday, weekly, completedAt);
+    expect(result.getDate()).toBe(19);
+  });
+
+  it('treats intervals without an anchor as floating', () => {
+    const completedAt = new Date(2025, 5, 12, 18, 0, 0);
+    const floating = calculateNextDueDateAfterCompletion(
+      tuesday,
+      { ...weekly, anchor: 'floating' },
+      completedAt
+    );
+    expect(calculateNextDueDateAfterCompletion(tuesday, weekly, completedAt)).toEqual(floating);
+  });
+
+  it('keeps fixed intervals on schedule after a late completion', () => {
+    const completedAt = new Date(2025, 5, 12, 18, 0, 0);
+    const result = calculateNextDueDateAfterCompletion(
+      tuesday,
+      { ...weekly, anchor: 'fixed' },
+      completedAt
+    );
+    expect(result.getDate()).toBe(17);
+    expect(result.getHours()).toBe(8);
+  });
+
+  it('skips missed occurrences instead of stacking them', () => {
+    const completedAt = new Date(2025, 5, 26, 12, 0, 0); // two Tuesdays missed
+    const result = calculateNextDueDateAfterCompletion(
+      tuesday,
+      { ...weekly, anchor: 'fixed' },
+      completedAt
+    );
+    expect(result.getMonth()).toBe(6);
+    expect(result.getDate()).toBe(1);
+  });
+
+  it('advances one interval when completed early in either mode', () => {
+    const completedAt = new Date(2025, 5, 8, 9, 0, 0);
+    for (const anchor of ['fixed', 'floating'] as const) {
+      const result = calculateNextDueDateAfterCompletion(tuesday, { ...weekly, anchor }, completedAt);
+      expect(result.getDate()).toBe(17);
+    }
+  });
+});
+
+// ── getProjectedDueDates ──
+
+describe('getProjectedDueDates', () => {
+  const dueAt = new Date(2025, 5, 10, 8, 0, 0);
+  const until = new Date(2025, 6, 1, 23, 59, 59);
+
+  it('projects occurrences after an upcoming due date', () => {
+    const now = new Date(2025, 5, 9, 12, 0, 0);
+    const dates = getProjectedDueDates(dueAt, { type: 'weekly', value: 1 }, until, now);
+    expect(dates.map((d) => d.getDate())).toEqual([17, 24, 1]);
+  });
+
+  it('projects fixed overdue chores on their original schedule', () => {
+    const now = new Date(2025, 5, 19, 12, 0, 0);
+    const dates = getProjectedDueDates(dueAt, { type: 'weekly', value: 1, anchor: 'fixed' }, until, now);
+    expect(dates.map((d) => d.getDate())).toEqual([24, 1]);
+  });
+
+  it('projects floating overdue chores from now', () => {
+    const now = new Date(2025, 5, 19, 12, 0, 0);
+    const dates = getProjectedDueDates(dueAt, { type: 'weekly', value: 1 }, until, now);
+    expect(dates.map((d) => d.getDate())).toEqual([26]);
+  });
+
+  it('returns nothing for one-off chores', () => {
+    expect(getProjectedDueDates(dueAt, { type: 'once', value: 1 }, until)).toEqual([]);
+  });
+});
+
+describe('getScheduleAnchor', () => {
+  const dueAt = ts(new Date(2025, 5, 12));
+  const snoozedFrom = ts(new Date(2025, 5, 10));
+
+  it('continues a snoozed fixed schedule from where it was snoozed', () => {
+    const chore = buildChore({
+      interval: { type: 'weekly', value: 1, anchor: 'fixed' },
+      dueAt,
+      snoozedFrom,
+    });
+    expect(getScheduleAnchor(chore)).toBe(snoozedFrom);
+  });
+
+  it('continues a snoozed floating schedule from the snoozed dueAt', () => {
+    const chore = buildChore({
+      interval: { type: 'weekly', value: 1, anchor: 'floating' },
+      dueAt,
+      snoozedFrom,
+    });
+    expect(getScheduleAnchor(chore)).toBe(dueAt);
+  });
+});
+
 // ── isChoreOverdue ──
 
 describe('isChoreOverdue', () => {
@@ -102,10 +400,53 @@ describe('isChoreOverdue', () => {
     const chore = buildChore({ dueAt: daysFromNow(3) });
     expect(isChoreOverdue(chore)).toBe(false);
   });
+
+  describe('with a due time', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(2025, 5, 1, 12, 0) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('is not overdue until its due time on the due date', () => {
+      const chore = buildChore({ dueAt: ts(new Date(2025, 5, 1, 18, 0)), dueTime: '18:00' });
+      expect(isChoreOverdue(chore)).toBe(false);
+    });
+
+    it('is overdue once its due time has passed', () => {
+      const chore = buildChore({ dueAt: ts(new Date(2025, 5, 1, 9, 30)), dueTime: '09:30' });
+      expect(isChoreOverdue(chore)).toBe(true);
+    });
+  });
 });
 
 // ── getUpcomingDueDates ──
 
+describe('matchesChoreFilter', () => {
+  const mine = buildChore({ assignedTo: 'user-1' });
+  const theirs = buildChore({ assignedTo: 'user-2' });
+  const unassigned = buildChore({ assignedTo: undefined });
+
+  it('keeps only chores assigned to the user for "mine"', () => {
+    expect(matchesChoreFilter(mine, 'mine', 'user-1')).toBe(true);
+    expect(matchesChoreFilter(theirs, 'mine', 'user-1')).toBe(false);
+    expect(matchesChoreFilter(unassigned, 'mine', 'user-1')).toBe(false);
+  });
+
+  it('adds unassigned chores for "mineAndUnassigned"', () => {
+    expect(matchesChoreFilter(mine, 'mineAndUnassigned', 'user-1')).toBe(true);
+    expect(matchesChoreFilter(theirs, 'mineAndUnassigned', 'user-1')).toBe(false);
+    expect(matchesChoreFilter(unassigned, 'mineAndUnassigned', 'user-1')).toBe(true);
+  });
+
+  it('keeps everything for "everyone" or without a user', () => {
+    expect(matchesChoreFilter(theirs, 'everyone', 'user-1')).toBe(true);
+    expect(matchesChoreFilter(theirs, 'mine', undefined)).toBe(true);
+  });
+});
+
 describe('getUpcomingDueDates', () => {
   const start = new Date('2025-01-01T12:00:00Z');
 
@@ -147,3 +488,785 @@ describe('getUpcomingDueDates', () => {
     }
   });
 });
+
+// ── completeChore ──
+
+describe('completeChore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('appends a log entry and advances dueAt in one transaction', async () => {
+    const dueAt = daysFromNow(2);
+    const chore = buildChore({ id: 'c1', householdId: 'h1', dueAt });
+    mockStoredChore(chore);
+    const transaction = mockTransaction();
+
+    await completeChore('c1', 'user-2');
+
+    expect(transaction.set).toHaveBeenCalledTimes(1);
+    const entry = transaction.set.mock.calls[0][1];
+    expect(entry).toEqual(
+      expect.objectContaining({
+        choreId: 'c1',
+        householdId: 'h1',
+        completedBy: 'user-2',
+        previousDueAt: dueAt,
+      })
+    );
+    expect(entry.nextDueAt.toMillis()).toBeGreaterThan(dueAt.toMillis());
+
+    const update = transaction.update.mock.calls[0][1];
+    expect(update.dueAt).toBe(entry.nextDueAt);
+    expect(update.lastCompletion.completedBy).toBe('user-2');
+    expect(mockRunTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps dueAt unchanged for one-off chores', async () => {
+    const dueAt = daysFromNow(5);
+    mockStoredChore(buildChore({ id: 'c1', interval: { type: 'once', value: 1 }, dueAt }));
+    const transaction = mockTransaction();
+
+    await completeChore('c1', 'user-1');
+
+    expect(transaction.set.mock.calls[0][1].nextDueAt).toBe(dueAt);
+    expect(transaction.update.mock.calls[0][1].dueAt).toBe(dueAt);
+  });
+
+  it('skips missed occurrences for fixed-schedule chores', async () => {
+    const dueAt = daysFromNow(-15);
+    mockStoredChore(
+      buildChore({ id: 'c1', interval: { type: 'weekly', value: 1, anchor: 'fixed' }, dueAt })
+    );
+    const transaction = mockTransaction();
+
+    await completeChore('c1', 'user-1');
+
+    // Next occurrence on the original weekly grid: 21 days after the old dueAt
+    const nextDueAt = transaction.update.mock.calls[0][1].dueAt;
+    const days = Math.round((nextDueAt.toMillis() - dueAt.toMillis()) / 86400000);
+    expect(days).toBe(21);
+  });
+
+  it('keeps the next occurrence of a floating chore at its due time', async () => {
+    const dueAt = new Date();
+    dueAt.setHours(18, 30, 0, 0);
+    mockStoredChore(buildChore({ id: 'c1', dueAt: ts(dueAt), dueTime: '18:30' }));
+    const transaction = mockTransaction();
+
+    await completeChore('c1', 'user-1');
+
+    const nextDueAt = transaction.update.mock.calls[0][1].dueAt.toDate();
+    expect([nextDueAt.getHours(), nextDueAt.getMinutes()]).toEqual([18, 30]);
+    expect(nextDueAt > dueAt).toBe(true);
+  });
+
+  it('throws when the chore does not exist', async () => {
+    const { choreConverter } = require('@/lib/firebase/converters');
+    mockGetDoc.mockResolvedValue({ exists: false, data: () => undefined });
+    choreConverter.fromSnapshot.mockReturnValue(null);
+
+    await expect(completeChore('missing', 'user-1')).rejects.toThrow('Chore not found');
+  });
+
+  it('lets only one of two simultaneous completions through', async () => {
+    const { getUserProfile } = require('@/lib/services/user-service');
+    getUserProfile.mockResolvedValue({ uid: 'user-1', displayName: 'Alice' });
+    const store = mockContendedChore(buildChore({ id: 'c1' }));
+
+    const results = await Promise.allSettled([
+      completeChore('c1', 'user-1'),
+      completeChore('c1', 'user-2'),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toEqual({
+      status: 'rejected',
+      reason: expect.any(ChoreConflictError),
+    });
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+      'Already completed by Alice'
+    );
+    expect(store.commits).toBe(1);
+    expect(store.chore().lastCompletion?.completedBy).toBe('user-1');
+  });
+
+  it('tells the user when they already completed the chore', async () => {
+    mockStoredChore(buildCompletedChore({ id: 'c1' }));
+    const transaction = mockTransaction();
+
+    await expect(completeChore('c1', 'user-1')).rejects.toThrow(
+      'You already completed this chore'
+    );
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a generic name when the completer has no profile', async () => {
+    const { getUserProfile } = require('@/lib/services/user-service');
+    getUserProfile.mockResolvedValue(null);
+    mockStoredChore(buildCompletedChore({ id: 'c1' }));
+    mockTransaction();
+
+    await expect(completeChore('c1', 'user-2')).rejects.toThrow(
+      'Already completed by another member'
+    );
+  });
+});
+
+// ── Assignee rotation ──
+
+describe('getNextRotationAssignee', () => {
+  const rotation = { memberIds: ['a', 'b', 'c'], mode: 'completion' as const };
+
+  it('passes the turn to the next member and wraps around', () => {
+    expect(getNextRotationAssignee(rotation, 'a')).toBe('b');
+    expect(getNextRotationAssignee(rotation, 'c')).toBe('a');
+  });
+
+  it('starts at the first member when nobody is assigned', () => {
+    expect(getNextRotationAssignee(rotation, undefined)).toBe('a');
+  });
+
+  it('advances several turns at once', () => {
+    expect(getNextRotationAssignee(rotation, 'a', 2)).toBe('c');
+    expect(getNextRotationAssignee(rotation, 'a', 4)).toBe('b');
+  });
+
+  it('skips members who have left the household', () => {
+    expect(getNextRotationAssignee(rotation, 'a', 1, ['a', 'c'])).toBe('c');
+  });
+
+  it('returns undefined when no rotation member remains', () => {
+    expect(getNextRotationAssignee(rotation, 'a', 1, ['z'])).toBeUndefined();
+  });
+});
+
+describe('rotation on completion and skip', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('hands the chore to the next member on completion', async () => {
+    mockStoredChore(
+      buildChore({
+        id: 'c1',
+        assignedTo: 'a',
+        rotation: { memberIds: ['a', 'b'], mode: 'completion' },
+      })
+    );
+    mockActiveMembers(['a', 'b']);
+    const transaction = mockTransaction();
+
+    await completeChore('c1', 'a');
+
+    expect(transaction.update.mock.calls[0][1].assignedTo).toBe('b');
+    expect(transaction.set.mock.calls[0][1].rotatedFrom).toBe('a');
+  });
+
+  it('does not rotate on skip for per-completion rotations', async () => {
+    mockStoredChore(
+      buildChore({
+        id: 'c1',
+        assignedTo: 'a',
+        rotation: { memberIds: ['a', 'b'], mode: 'completion' },
+      })
+    );
+    const transaction = mockTransaction();
+
+    await skipOccurrence('c1', 'a');
+
+    expect(transaction.update.mock.calls[0][1]).not.toHaveProperty('assignedTo');
+  });
+
+  it('rotates on skip for per-period rotations', async () => {
+    mockStoredChore(
+      buildChore({
+        id: 'c1',
+        assignedTo: 'a',
+        rotation: { memberIds: ['a', 'b', 'c'], mode: 'period' },
+      })
+    );
+    mockActiveMembers(['a', 'b', 'c']);
+    const transaction = mockTransaction();
+
+    await skipOccurrence('c1', 'a');
+
+    expect(transaction.update.mock.calls[0][1].assignedTo).toBe('b');
+  });
+
+  it('counts missed periods on fixed schedules', async () => {
+    mockStoredChore(
+      buildChore({
+        id: 'c1',
+        assignedTo: 'a',
+        interval: { type: 'weekly', value: 1, anchor: 'fixed' },
+        dueAt: daysFromNow(-8),
+        rotation: { memberIds: ['a', 'b', 'c'], mode: 'period' },
+      })
+    );
+    mockActiveMembers(['a', 'b', 'c']);
+    const transaction = mockTransaction();
+
+    await completeChore('c1', 'a');
+
+    // One missed week plus the completed one: two hand-offs
+    expect(transaction.update.mock.calls[0][1].assignedTo).toBe('c');
+  });
+
+  it('hands the turn back on undo', async () => {
+    const chore = buildCompletedChore({ id: 'c1', assignedTo: 'b' });
+    mockStoredChore(chore);
+    mockGetDocs.mockResolvedValue({ empty: false, docs: [{ ref: {} }] });
+    const { completionConverter } = require('@/lib/firebase/converters');
+    completionConverter.fromSnapshot.mockReturnValue({
+      id: 'e1',
+      completedAt: chore.lastCompletion!.completedAt,
+      previousDueAt: daysFromNow(1),
+      rotatedFrom: 'a',
+    });
+    const transaction = mockTransaction();
+
+    await undoCompletion('c1');
+
+    expect(transaction.update.mock.calls[0][1].assignedTo).toBe('a');
+  });
+});
+
+describe('removeUserFromRotations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  function mockHouseholdChores(chores: Chore[]) {
+    const { choreConverter } = require('@/lib/firebase/converters');
+    mockGetDocs.mockResolvedValue({ docs: chores.map((c) => ({ data: () => c })) });
+    choreConverter.fromSnapshot.mockImplementation((d: any) => d.data());
+  }
+
+  it('drops the member and passes on their turn', async () => {
+    mockHouseholdChores([
+      buildChore({
+        id: 'c1',
+        assignedTo: 'b',
+        rotation: { memberIds: ['a', 'b', 'c'], mode: 'completion' },
+      }),
+      buildChore({ id: 'c2', assignedTo: 'b' }),
+    ]);
+
+    await removeUserFromRotations('h1', 'b');
+
+    expect(mockUpdateDoc).toHaveBeenCalledTimes(1);
+    const update = mockUpdateDoc.mock.calls[0][1];
+    expect(update.rotation.memberIds).toEqual(['a', 'c']);
+    expect(update.assignedTo).toBe('c');
+  });
+
+  it('removes rotations left empty', async () => {
+    const { deleteField } = require('@react-native-firebase/firestore');
+    mockHouseholdChores([
+      buildChore({
+        id: 'c1',
+        assignedTo: 'b',
+        rotation: { memberIds: ['b'], mode: 'period' },
+      }),
+    ]);
+
+    await removeUserFromRotations('h1', 'b');
+
+    const update = mockUpdateDoc.mock.calls[0][1];
+    expect(update.rotation).toEqual(deleteField());
+    expect(update.assignedTo).toEqual(deleteField());
+  });
+});
+
+// ── watchChoresForHouseholds ──
+
+describe('watchChoresForHouseholds', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('waits for every batch and merges them by due date', () => {
+    const { choreConverter } = require('@/lib/firebase/converters');
+    choreConverter.fromSnapshot.mockImplementation((d: any) => d.data());
+    const listeners: ((snap: unknown) => void)[] = [];
+    const unsubscribe = jest.fn();
+    mockOnSnapshot.mockImplementation((_query, _options, onNext) => {
+      listeners.push(onNext);
+      return unsubscribe;
+    });
+    const householdIds = Array.from({ length: 31 }, (_, i) => `h${i}`);
+    const onChange = jest.fn();
+
+    const stop = watchChoresForHouseholds(householdIds, onChange, jest.fn());
+    expect(listeners).toHaveLength(2);
+
+    const later = buildChore({ id: 'later', dueAt: daysFromNow(2) });
+    const sooner = buildChore({ id: 'sooner', dueAt: daysFromNow(1) });
+    listeners[0](choreSnapshot([later], { fromCache: false }));
+    expect(onChange).not.toHaveBeenCalled();
+
+    listeners[1](choreSnapshot([sooner], { fromCache: false }));
+    expect(onChange.mock.calls[0][0].map((c: Chore) => c.id)).toEqual(['sooner', 'later']);
+
+    stop();
+    expect(unsubscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports chores with pending writes across batches', () => {
+    const { choreConverter } = require('@/lib/firebase/converters');
+    choreConverter.fromSnapshot.mockImplementation((d: any) => d.data());
+    const listeners: ((snap: unknown) => void)[] = [];
+    mockOnSnapshot.mockImplementation((_query, options, onNext) => {
+      expect(options).toEqual({ includeMetadataChanges: true });
+      listeners.push(onNext);
+      return jest.fn();
+    });
+    const householdIds = Array.from({ length: 31 }, (_, i) => `h${i}`);
+    const onChange = jest.fn();
+
+    watchChoresForHouseholds(householdIds, onChange, jest.fn());
+    listeners[0](choreSnapshot([buildChore({ id: 'c1' })], { fromCache: false, pendingIds: ['c1'] }));
+    listeners[1](choreSnapshot([buildChore({ id: 'c2' })], { fromCache: true }));
+
+    expect(onChange.mock.calls[0][1]).toEqual({ pendingIds: ['c1'], fromCache: true });
+  });
+});
+
+// ── unassignUserChores ──
+
+describe('unassignUserChores', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('clears fixed assignments and leaves rotations alone', async () => {
+    const { choreConverter } = require('@/lib/firebase/converters');
+    const { deleteField } = require('@react-native-firebase/firestore');
+    const chores = [
+      buildChore({ id: 'c1', assignedTo: 'b' }),
+      buildChore({ id: 'c2', assignedTo: 'a' }),
+      buildChore({
+        id: 'c3',
+        assignedTo: 'b',
+        rotation: { memberIds: ['a', 'b'], mode: 'completion' },
+      }),
+    ];
+    mockGetDocs.mockResolvedValue({ docs: chores.map((c) => ({ data: () => c })) });
+    choreConverter.fromSnapshot.mockImplementation((d: any) => d.data());
+
+    await unassignUserChores('h1', 'b');
+
+    expect(mockUpdateDoc).toHaveBeenCalledTimes(1);
+    expect(mockUpdateDoc.mock.calls[0][1].assignedTo).toEqual(deleteField());
+  });
+});
+
+// ── skipOccurrence ──
+
+describe('skipOccurrence', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('logs a skip and advances dueAt without recording a completion', async () => {
+    const dueAt = daysFromNow(-1);
+    mockStoredChore(buildChore({ id: 'c1', householdId: 'h1', dueAt }));
+    const transaction = mockTransaction();
+
+    await skipOccurrence('c1', 'user-1', 'On vacation');
+
+    const entry = transaction.set.mock.calls[0][1];
+    expect(entry).toEqual(
+      expect.objectContaining({
+        kind: 'skip',
+        completedBy: 'user-1',
+        previousDueAt: dueAt,
+        reason: 'On vacation',
+      })
+    );
+    const update = transaction.update.mock.calls[0][1];
+    expect(update.dueAt).toBe(entry.nextDueAt);
+    expect(update.dueAt.toMillis()).toBeGreaterThan(Date.now());
+    expect(update.isOverdue).toBe(false);
+    expect(update).not.toHaveProperty('lastCompletion');
+  });
+
+  it('resumes a snoozed fixed-schedule chore from its original date', async () => {
+    const snoozedFrom = daysFromNow(-2);
+    mockStoredChore(
+      buildChore({
+        id: 'c1',
+        interval: { type: 'weekly', value: 1, anchor: 'fixed' },
+        dueAt: daysFromNow(1),
+        snoozedFrom,
+      })
+    );
+    const transaction = mockTransaction();
+
+    await skipOccurrence('c1', 'user-1');
+
+    const nextDueAt = transaction.update.mock.calls[0][1].dueAt;
+    const days = Math.round((nextDueAt.toMillis() - snoozedFrom.toMillis()) / 86400000);
+    expect(days).toBe(7);
+  });
+
+  it('rejects one-off chores', async () => {
+    mockStoredChore(buildChore({ id: 'c1', interval: { type: 'once', value: 1 } }));
+
+    await expect(skipOccurrence('c1', 'user-1')).rejects.toThrow(
+      'One-off chores cannot be skipped'
+    );
+  });
+
+  it('rejects chores that are already completed', async () => {
+    mockStoredChore(buildCompletedChore({ id: 'c1' }));
+
+    await expect(skipOccurrence('c1', 'user-1')).rejects.toThrow('Chore is already completed');
+  });
+
+  it('lets only one of two simultaneous skips through', async () => {
+    mockStoredChore(buildChore({ id: 'c1', dueAt: daysFromNow(-1) }));
+    const store = mockContendedChore(buildChore({ id: 'c1', dueAt: daysFromNow(-1) }));
+
+    const results = await Promise.allSettled([
+      skipOccurrence('c1', 'user-1'),
+      skipOccurrence('c1', 'user-2'),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toEqual({
+      status: 'rejected',
+      reason: expect.any(ChoreConflictError),
+    });
+    expect(store.commits).toBe(1);
+  });
+
+  it('rejects with a conflict when the occurrence is completed first', async () => {
+    const { getUserProfile } = require('@/lib/services/user-service');
+    getUserProfile.mockResolvedValue({ uid: 'user-2', displayName: 'Bob' });
+    const chore = buildChore({ id: 'c1' });
+    mockStoredChore(chore);
+    const store = mockContendedChore(chore);
+
+    const results = await Promise.allSettled([
+      completeChore('c1', 'user-2'),
+      skipOccurrence('c1', 'user-1'),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('Already completed by Bob');
+    expect(store.commits).toBe(1);
+    expect(store.chore().lastCompletion?.completedBy).toBe('user-2');
+  });
+});
+
+// ── snoozeChore ──
+
+describe('snoozeChore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('moves dueAt and remembers the scheduled date', async () => {
+    const dueAt = daysFromNow(-1);
+    mockStoredChore(buildOverdueChore({ id: 'c1', dueAt }));
+    const until = daysFromNow(2).toDate();
+
+    await snoozeChore('c1', until);
+
+    const update = mockUpdateDoc.mock.calls[0][1];
+    expect(update.dueAt.toMillis()).toBe(until.getTime());
+    expect(update.snoozedFrom).toBe(dueAt);
+    expect(update.isOverdue).toBe(false);
+  });
+
+  it('keeps the first snoozedFrom when snoozed again', async () => {
+    const snoozedFrom = daysFromNow(-3);
+    mockStoredChore(buildChore({ id: 'c1', dueAt: daysFromNow(1), snoozedFrom }));
+
+    await snoozeChore('c1', daysFromNow(4).toDate());
+
+    expect(mockUpdateDoc.mock.calls[0][1].snoozedFrom).toBe(snoozedFrom);
+  });
+
+  it('rejects times in the past', async () => {
+    await expect(snoozeChore('c1', daysFromNow(-1).toDate())).rejects.toThrow(
+      'Snooze time must be in the future'
+    );
+    expect(mockUpdateDoc).not.toHaveBeenCalled();
+  });
+
+  it('rejects times that would bring the chore forward', async () => {
+    mockStoredChore(buildChore({ id: 'c1', dueAt: daysFromNow(3) }));
+
+    await expect(snoozeChore('c1', daysFromNow(1).toDate())).rejects.toThrow(
+      'Snooze time must be later than the current due date'
+    );
+    expect(mockUpdateDoc).not.toHaveBeenCalled();
+  });
+});
+
+// ── Optimistic helpers ──
+
+describe('withCompletion', () => {
+  it('marks the chore done and advances dueAt locally', () => {
+    const dueAt = daysFromNow(-1);
+    const chore = buildChore({
+      dueAt,
+      isOverdue: true,
+      snoozedFrom: daysFromNow(-2),
+      interval: { type: 'weekly', value: 1 },
+    });
+    const now = ts();
+
+    const result = withCompletion(chore, 'user-2', now);
+
+    expect(result.lastCompletion).toEqual({
+      completedAt: now,
+      completedBy: 'user-2',
+      previousDueAt: dueAt,
+    });
+    expect(result.dueAt!.toDate().getTime()).toBeGreaterThan(now.toDate().getTime());
+    expect(result.isOverdue).toBe(false);
+    expect(result.snoozedFrom).toBeUndefined();
+  });
+
+  it('keeps dueAt for one-off chores', () => {
+    const dueAt = daysFromNow(1);
+    const chore = buildChore({ dueAt, interval: { type: 'once', value: 1 } });
+
+    expect(withCompletion(chore, 'user-1').dueAt).toBe(dueAt);
+  });
+});
+
+describe('withoutCompletion', () => {
+  it('restores the previous due date and overdue state', () => {
+    const chore = buildCompletedChore({ dueAt: daysFromNow(6) });
+
+    const result = withoutCompletion(chore);
+
+    expect(result.lastCompletion).toBeUndefined();
+    expect(result.dueAt).toBe(chore.lastCompletion!.previousDueAt);
+    expect(result.isOverdue).toBe(true);
+  });
+
+  it('leaves handing a rotation back to the server write', () => {
+    const chore = buildCompletedChore({
+      assignedTo: 'b',
+      rotation: { memberIds: ['a', 'b'], mode: 'completion' },
+    });
+
+    expect(withoutCompletion(chore).assignedTo).toBe('b');
+  });
+});
+
+// ── undoCompletion ──
+
+describe('undoCompletion', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('pops the latest log entry and restores its previousDueAt', async () => {
+    const previousDueAt = daysFromNow(3);
+    const chore = buildCompletedChore({ id: 'c1', dueAt: daysFromNow(10) });
+    mockStoredChore(chore);
+    const entryRef = { path: 'chores/c1/completions/e1' };
+    const latestDoc = { ref: entryRef };
+    mockGetDocs.mockResolvedValue({ empty: false, docs: [latestDoc] });
+    const { completionConverter } = require('@/lib/firebase/converters');
+    completionConverter.fromSnapshot.mockReturnValue({
+      id: 'e1',
+      completedAt: chore.lastCompletion!.completedAt,
+      previousDueAt,
+    });
+    const transaction = mockTransaction();
+
+    await undoCompletion('c1');
+
+    expect(transaction.delete).toHaveBeenCalledWith(entryRef);
+    expect(transaction.update.mock.calls[0][1]).toEqual(
+      expect.objectContaining({ dueAt: previousDueAt, isOverdue: false })
+    );
+  });
+
+  it('falls back to lastCompletion when no log entry exists', async () => {
+    const chore = buildCompletedChore({ id: 'c1' });
+    mockStoredChore(chore);
+    mockGetDocs.mockResolvedValue({ empty: true, docs: [] });
+    const transaction = mockTransaction();
+
+    await undoCompletion('c1');
+
+    expect(transaction.delete).not.toHaveBeenCalled();
+    expect(transaction.update.mock.calls[0][1].dueAt).toBe(chore.lastCompletion!.previousDueAt);
+  });
+
+  it('restores the exact previous dueAt for fixed-schedule chores', async () => {
+    const previousDueAt = daysFromNow(-9);
+    const chore = buildCompletedChore({
+      id: 'c1',
+      interval: { type: 'weekly', value: 1, anchor: 'fixed' },
+      dueAt: daysFromNow(3),
+    });
+    mockStoredChore(chore);
+    mockGetDocs.mockResolvedValue({ empty: false, docs: [{ ref: {} }] });
+    const { completionConverter } = require('@/lib/firebase/converters');
+    completionConverter.fromSnapshot.mockReturnValue({
+      id: 'e1',
+      completedAt: chore.lastCompletion!.completedAt,
+      previousDueAt,
+    });
+    const transaction = mockTransaction();
+
+    await undoCompletion('c1');
+
+    expect(transaction.update.mock.calls[0][1]).toEqual(
+      expect.objectContaining({ dueAt: previousDueAt, isOverdue: true })
+    );
+  });
+
+  it('rejects with a conflict when the completion was already undone', async () => {
+    mockStoredChore(buildChore({ id: 'c1' }));
+    mockTransaction();
+
+    const result = undoCompletion('c1');
+
+    await expect(result).rejects.toBeInstanceOf(ChoreConflictError);
+    await expect(result).rejects.toThrow('This completion was already undone');
+  });
+
+  it('rejects with a conflict when the latest entry changed after it was read', async () => {
+    mockStoredChore(buildCompletedChore({ id: 'c1' }));
+    mockGetDocs.mockResolvedValue({ empty: false, docs: [{ ref: {} }] });
+    const { completionConverter } = require('@/lib/firebase/converters');
+    completionConverter.fromSnapshot.mockReturnValue({
+      id: 'e2',
+      completedAt: ts(new Date(Date.now() + 60000)),
+      previousDueAt: daysFromNow(1),
+    });
+    const transaction = mockTransaction();
+
+    await expect(undoCompletion('c1')).rejects.toBeInstanceOf(ChoreConflictError);
+    expect(transaction.update).not.toHaveBeenCalled();
+    expect(transaction.delete).not.toHaveBeenCalled();
+  });
+});
+
+// ── updateChore ──
+
+describe('updateChore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('moves dueAt to a newly set due time', async () => {
+    mockStoredChore(buildChore({ id: 'c1', dueAt: ts(new Date(2025, 5, 1, 9, 0)) }));
+
+    await updateChore('c1', { dueTime: '18:00' });
+
+    expect(mockUpdateDoc.mock.calls[0][1].dueAt.toDate()).toEqual(new Date(2025, 5, 1, 18, 0));
+  });
+
+  it('puts an edited due date at the existing due time', async () => {
+    mockStoredChore(buildChore({ id: 'c1', dueTime: '07:15' }));
+
+    await updateChore('c1', { dueAt: ts(new Date(2025, 6, 4)) });
+
+    expect(mockUpdateDoc.mock.calls[0][1].dueAt.toDate()).toEqual(new Date(2025, 6, 4, 7, 15));
+  });
+
+  it('keeps a chore due all day once its due time is cleared', async () => {
+    mockStoredChore(
+      buildChore({ id: 'c1', dueAt: ts(new Date(2025, 5, 1, 7, 15)), dueTime: '07:15' })
+    );
+
+    await updateChore('c1', { dueTime: undefined });
+
+    expect(mockUpdateDoc.mock.calls[0][1].dueAt.toDate()).toEqual(
+      new Date(2025, 5, 1, 23, 59, 59, 999)
+    );
+  });
+});
+
+// ── Activity ──
+
+describe('activity logging', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('records which fields an edit actually changed', async () => {
+    const chore = buildChore({ id: 'c1', householdId: 'h1', name: 'Dishes', assignedTo: 'user-1' });
+    mockStoredChore(chore);
+
+    // Edit forms send every field, changed or not
+    await updateChore('c1', {
+      name: 'Wash dishes',
+      description: chore.description,
+      assignedTo: 'user-2',
+      interval: chore.interval,
+      dueAt: chore.dueAt,
+    });
+
+    expect(mockLogActivity).toHaveBeenCalledWith('h1', {
+      type: 'choreUpdated',
+      choreId: 'c1',
+      choreName: 'Wash dishes',
+      changedFields: ['name', 'assignedTo'],
+    });
+  });
+
+  it('records nothing for an edit that changes nothing', async () => {
+    const chore = buildChore({ id: 'c1' });
+    mockStoredChore(chore);
+
+    await updateChore('c1', { name: chore.name, interval: chore.interval });
+
+    expect(mockUpdateDoc).toHaveBeenCalled();
+    expect(mockLogActivity).not.toHaveBeenCalled();
+  });
+
+  it('records completions once the transaction commits', async () => {
+    mockStoredChore(buildChore({ id: 'c1', householdId: 'h1', name: 'Dishes' }));
+    mockTransaction();
+
+    await completeChore('c1', 'user-2');
+
+    expect(mockLogActivity).toHaveBeenCalledWith('h1', {
+      type: 'choreCompleted',
+      choreId: 'c1',
+      choreName: 'Dishes',
+    });
+  });
+
+  it('records nothing when a completion loses to someone else', async () => {
+    mockStoredChore(buildCompletedChore({ id: 'c1' }));
+    mockTransaction();
+
+    await expect(completeChore('c1', 'user-2')).rejects.toThrow(ChoreConflictError);
+    expect(mockLogActivity).not.toHaveBeenCalled();
+  });
+
+  it('keeps the name of a deleted chore', async () => {
+    mockStoredChore(buildChore({ id: 'c1', householdId: 'h1', name: 'Dishes' }));
+
+    await deleteChore('c1');
+
+    expect(mockLogActivity).toHaveBeenCalledWith('h1', {
+      type: 'choreDeleted',
+      choreId: 'c1',
+      choreName: 'Dishes',
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  setDoc,
+} from '@react-native-firebase/firestore';
+import { householdMemberConverter, joinCodeConverter } from '@/lib/firebase/converters';
+import { getHousehold, getHouseholdMember } from '@/lib/services/household-service';
+import {
+  createJoinCode,
+  deletePendingInvitesSentBy,
+  getJoinCodeProblem,
+  normalizeJoinCode,
+  redeemJoinCode,
+  revokeJoinCode,
+} from '@/lib/services/invite-service';
+import {
+  buildHousehold,
+  buildHouseholdMember,
+  buildJoinCode,
+  daysFromNow,
+} from '../helpers/factories';
+
+jest.mock('@/lib/services/household-service', () => ({
+  getHousehold: jest.fn(),
+  getHouseholdMember: jest.fn(),
+  createHouseholdMember: jest.fn(),
+}));
+
+jest.mock('@/lib/services/user-service', () => ({
+  getUserProfile: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn((length: number) => new Uint8Array(length)),
+}));
+
+jest.mock('expo-linking', () => ({
+  createURL: jest.fn((path: string) => `overdueapp://${path}`),
+}));
+
+const mockDoc = doc as jest.Mock;
+const mockGetDoc = getDoc as jest.Mock;
+const mockGetDocs = getDocs as jest.Mock;
+const mockSetDoc = setDoc as jest.Mock;
+const mockDeleteDoc = deleteDoc as jest.Mock;
+const mockRunTransaction = runTransaction as jest.Mock;
+const mockGetHousehold = getHousehold as jest.Mock;
+const mockGetHouseholdMember = getHouseholdMember as jest.Mock;
+const mockJoinCodeFromSnapshot = joinCodeConverter.fromSnapshot as jest.Mock;
+const mockMemberFromSnapshot = householdMemberConverter.fromSnapshot as jest.Mock;
+
+/** Runs the transaction callback against a fake transaction and returns it. */
+function mockTransaction() {
+  const transaction = {
+    get: jest.fn().mockResolvedValue({}),
+    set: jest.fn(),
+    update: jest.fn(),
+  };
+  mockRunTransaction.mockImplementation((_db: unknown, fn: (t: unknown) => unknown) =>
+    fn(transaction)
+  );
+  return transaction;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  mockDoc.mockImplementation((_db: unknown, ...path: string[]) => ({
+    id: path[path.length - 1],
+    path: path.join('/'),
+  }));
+  mockGetDoc.mockResolvedValue({});
+  mockJoinCodeFromSnapshot.mockReturnValue(null);
+  mockMemberFromSnapshot.mockReturnValue(null);
+});
+
+// ── deletePendingInvitesSentBy ──
+
+describe('deletePendingInvitesSentBy', () => {
+  it('deletes each pending invite the user sent', async () => {
+    mockGetDocs.mockResolvedValue({
+      docs: [{ ref: { path: 'invites/i1' } }, { ref: { path: 'invites/i2' } }],
+    });
+
+    await deletePendingInvitesSentBy('user-1');
+
+    expect(mockDeleteDoc).toHaveBeenCalledTimes(2);
+    expect(mockDeleteDoc).toHaveBeenCalledWith({ path: 'invites/i2' });
+  });
+});
+
+// ── normalizeJoinCode ──
+
+describe('normalizeJoinCode', () => {
+  it('uppercases and strips separators', () => {
+    expect(normalizeJoinCode(' abcd-2345 ')).toBe('ABCD2345');
+  });
+});
+
+// ── getJoinCodeProblem ──
+
+describe('getJoinCodeProblem', () => {
+  it('returns null for a usable code', () => {
+    expect(getJoinCodeProblem(buildJoinCode())).toBeNull();
+  });
+
+  it('reports expired codes', () => {
+    expect(getJoinCodeProblem(buildJoinCode({ expiresAt: daysFromNow(-1) }))).toBe(
+      'This code has expired'
+    );
+  });
+
+  it('reports codes that reached max uses', () => {
+    expect(getJoinCodeProblem(buildJoinCode({ useCount: 5, maxUses: 5 }))).toBe(
+      'This code has already been used'
+    );
+  });
+
+  it('treats a null maxUses as unlimited', () => {
+    expect(getJoinCodeProblem(buildJoinCode({ useCount: 100, maxUses: null }))).toBeNull();
+  });
+});
+
+// ── createJoinCode ──
+
+describe('createJoinCode', () => {
+  const input = {
+    householdId: 'household-1',
+    createdBy: 'user-1',
+    role: 'member' as const,
+    expiresInDays: 7,
+    maxUses: 1,
+  };
+
+  it('rejects non-admins', async () => {
+    mockGetHouseholdMember.mockResolvedValue(buildHouseholdMember({ role: 'member' }));
+
+    await expect(createJoinCode(input)).rejects.toThrow(
+      'Only household admins can create join codes'
+    );
+    expect(mockSetDoc).not.toHaveBeenCalled();
+  });
+
+  it('writes an unused code keyed by the code itself', async () => {
+    mockGetHouseholdMember.mockResolvedValue(buildHouseholdMember({ role: 'admin' }));
+    mockGetHousehold.mockResolvedValue(buildHousehold({ id: 'household-1', name: 'Home' }));
+
+    const joinCode = await createJoinCode(input);
+
+    expect(joinCode.code).toMatch(/^[A-Z2-9]{8}$/);
+    expect(joinCode).toMatchObject({
+      householdId: 'household-1',
+      householdName: 'Home',
+      role: 'member',
+      useCount: 0,
+      maxUses: 1,
+    });
+    expect(joinCode.expiresAt.toMillis() - joinCode.createdAt.toMillis()).toBe(
+      7 * 24 * 60 * 60 * 1000
+    );
+    expect(mockDoc).toHaveBeenCalledWith({}, 'joinCodes', joinCode.code);
+    expect(mockSetDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ id: joinCode.code }),
+      joinCode
+    );
+  });
+
+  it('retries when a generated code is taken', async () => {
+    mockGetHouseholdMember.mockResolvedValue(buildHouseholdMember({ role: 'admin' }));
+    mockGetHousehold.mockResolvedValue(buildHousehold());
+    mockJoinCodeFromSnapshot.mockReturnValueOnce(buildJoinCode());
+
+    await createJoinCode(input);
+
+    expect(mockGetDoc).toHaveBeenCalledTimes(2);
+    expect(mockSetDoc).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ── redeemJoinCode ──
+
+describe('redeemJoinCode', () => {
+  it('creates the membership and bumps the use count in one transaction', async () => {
+    const transaction = mockTransaction();
+    mockJoinCodeFromSnapshot.mockReturnValue(buildJoinCode({ role: 'admin', useCount: 2, maxUses: 5 }));
+
+    const householdId = await redeemJoinCode('abcd-2345', 'user-2');
+
+    expect(householdId).toBe('household-1');
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'householdMembers/household-1_user-2' }),
+      expect.objectContaining({
+        id: 'household-1_user-2',
+        userId: 'user-2',
+        role: 'admin',
+        joinCode: 'ABCD2345',
+      })
+    );
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'joinCodes/ABCD2345' }),
+      { useCount: 3 }
+    );
+  });
+
+  it('rejects unknown codes', async () => {
+    const transaction = mockTransaction();
+
+    await expect(redeemJoinCode('NOPE2345', 'user-2')).rejects.toThrow('This code is not valid');
+    expect(transaction.set).not.toHaveBeenCalled();
+  });
+
+  it('rejects used-up codes', async () => {
+    const transaction = mockTransaction();
+    mockJoinCodeFromSnapshot.mockReturnValue(buildJoinCode({ useCount: 1, maxUses: 1 }));
+
+    await expect(redeemJoinCode('ABCD2345', 'user-2')).rejects.toThrow(
+      'This code has already been used'
+    );
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects existing members without using up the code', async () => {
+    const transaction = mockTransaction();
+    mockJoinCodeFromSnapshot.mockReturnValue(buildJoinCode());
+    mockMemberFromSnapshot.mockReturnValue(buildHouseholdMember());
+
+    await expect(redeemJoinCode('ABCD2345', 'user-1')).rejects.toThrow(
+      'You are already a member of this household'
+    );
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+});
+
+// ── revokeJoinCode ──
+
+describe('revokeJoinCode', () => {
+  it('deletes the code for admins', async () => {
+    mockJoinCodeFromSnapshot.mockReturnValue(buildJoinCode());
+    mockGetHouseholdMember.mockResolvedValue(buildHouseholdMember({ role: 'admin' }));
+
+    await revokeJoinCode('ABCD2345', 'user-1');
+
+    expect(mockDeleteDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'joinCodes/ABCD2345' })
+    );
+  });
+
+  it('rejects non-admins', async () => {
+    mockJoinCodeFromSnapshot.mockReturnValue(buildJoinCode());
+    mockGetHouseholdMember.mockResolvedValue(buildHouseholdMember({ role: 'member' }));
+
+    await expect(revokeJoinCode('ABCD2345', 'user-2')).rejects.toThrow(
+      'Only household admins can revoke join codes'
+    );
+    expect(mockDeleteDoc).not.toHaveBeenCalled();
+  });
+});
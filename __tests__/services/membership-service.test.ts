@@ -3,27 +3,39 @@ import {
   getDoc,
   getDocs,
   setDoc,
-  deleteDoc,
   collection,
   query,
+  updateDoc,
   where,
+  writeBatch,
 } from '@react-native-firebase/firestore';
 import {
   createHouseholdMember,
   getHouseholdMember,
   getHouseholdMembers,
   removeHouseholdMember,
+  transferOwnership,
+  updateMemberRole,
 } from '@/lib/services/membership-service';
-import { buildHouseholdMember } from '../helpers/factories';
+import { removeUserFromRotations } from '@/lib/services/chore-service';
+import { auth } from '@/lib/firebase/config';
+import { householdConverter, householdMemberConverter } from '@/lib/firebase/converters';
+import { buildHousehold, buildHouseholdMember } from '../helpers/factories';
+
+jest.mock('@/lib/services/chore-service', () => ({
+  removeUserFromRotations: jest.fn(),
+}));
 
 const mockDoc = doc as jest.Mock;
 const mockGetDoc = getDoc as jest.Mock;
 const mockGetDocs = getDocs as jest.Mock;
 const mockSetDoc = setDoc as jest.Mock;
-const mockDeleteDoc = deleteDoc as jest.Mock;
 const mockCollection = collection as jest.Mock;
 const mockQuery = query as jest.Mock;
 const mockWhere = where as jest.Mock;
+const mockUpdateDoc = updateDoc as jest.Mock;
+const mockWriteBatch = writeBatch as jest.Mock;
+const mockRemoveUserFromRotations = removeUserFromRotations as jest.Mock;
 
 beforeEach(() => {
   jest.clearAllMocks();
@@ -34,7 +46,7 @@ beforeEach(() => {
   mockQuery.mockReturnValue('mock-query-ref');
   mockWhere.mockReturnValue('mock-where-constraint');
   mockSetDoc.mockResolvedValue(undefined);
-  mockDeleteDoc.mockResolvedValue(undefined);
+  mockRemoveUserFromRotations.mockResolvedValue(undefined);
 });
 
 // ── createHouseholdMember ──
@@ -151,6 +163,7 @@ describe('removeHouseholdMember', () => {
     allMembers?: Array<{ userId: string; role: 'admin' | 'member' }>;
   }) {
     const { requestingRole, memberExists = true, allMembers } = opts;
+    const batch = buildBatch();
 
     const requestingMember = memberExists
       ? buildHouseholdMember({ householdId: 'h1', userId: 'requester', role: requestingRole })
@@ -186,22 +199,55 @@ describe('removeHouseholdMember', () => {
         })),
       });
     }
+    return batch;
   }
 
+  afterEach(() => {
+    (auth as { currentUser: { uid: string } | null }).currentUser = null;
+  });
+
   it('allows admin to remove another member', async () => {
-    setupRemoveScenario({ requestingRole: 'admin' });
+    const batch = setupRemoveScenario({ requestingRole: 'admin' });
 
     await removeHouseholdMember('h1', 'other-user', 'requester');
 
-    expect(mockDeleteDoc).toHaveBeenCalled();
+    expect(batch.delete).toHaveBeenCalled();
+    expect(batch.commit).toHaveBeenCalled();
+  });
+
+  it('drops the member from chore rotations before deleting the membership', async () => {
+    const batch = setupRemoveScenario({ requestingRole: 'admin' });
+
+    await removeHouseholdMember('h1', 'other-user', 'requester');
+
+    expect(mockRemoveUserFromRotations).toHaveBeenCalledWith('h1', 'other-user');
+    expect(mockRemoveUserFromRotations.mock.invocationCallOrder[0]).toBeLessThan(
+      batch.commit.mock.invocationCallOrder[0]
+    );
   });
 
   it('allows member to remove themselves', async () => {
-    setupRemoveScenario({ requestingRole: 'member' });
+    const batch = setupRemoveScenario({ requestingRole: 'member' });
 
     await removeHouseholdMember('h1', 'requester', 'requester');
 
-    expect(mockDeleteDoc).toHaveBeenCalled();
+    expect(batch.delete).toHaveBeenCalled();
+  });
+
+  it('records the removal in the same write as the deletion', async () => {
+    (auth as { currentUser: { uid: string } | null }).currentUser = { uid: 'requester' };
+    const batch = setupRemoveScenario({ requestingRole: 'member' });
+    batch.commit.mockRejectedValue(new Error('permission-denied'));
+
+    await expect(removeHouseholdMember('h1', 'requester', 'requester')).rejects.toThrow(
+      'permission-denied'
+    );
+
+    expect(batch.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: 'memberLeft', actorId: 'requester', userId: 'requester' })
+    );
+    expect(mockSetDoc).not.toHaveBeenCalled();
   });
 
   it('rejects non-admin removing another member', async () => {
@@ -210,6 +256,7 @@ describe('removeHouseholdMember', () => {
     await expect(
       removeHouseholdMember('h1', 'other-user', 'requester')
     ).rejects.toThrow('Only admins can remove other members');
+    expect(mockRemoveUserFromRotations).not.toHaveBeenCalled();
   });
 
   it('rejects when requesting user is not a member', async () => {
@@ -235,7 +282,7 @@ describe('removeHouseholdMember', () => {
   });
 
   it('allows admin self-removal when another admin exists', async () => {
-    setupRemoveScenario({
+    const batch = setupRemoveScenario({
       requestingRole: 'admin',
       allMembers: [
         { userId: 'requester', role: 'admin' },
@@ -245,6 +292,133 @@ describe('removeHouseholdMember', () => {
 
     await removeHouseholdMember('h1', 'requester', 'requester');
 
-    expect(mockDeleteDoc).toHaveBeenCalled();
+    expect(batch.delete).toHaveBeenCalled();
+  });
+});
+
+// ── Role and ownership changes ──
+
+/**
+ * Serve getDoc from a map of document paths: householdMembers/{id} resolve
+ * through the member converter, households/{id} through the household one.
+ */
+function setupDocs(docs: Record<string, unknown>) {
+  mockDoc.mockImplementation((_db: unknown, ...path: string[]) => ({ path: path.join('/') }));
+  mockGetDoc.mockImplementation((ref: { path: string }) => Promise.resolve(ref));
+  (householdMemberConverter.fromSnapshot as jest.Mock).mockImplementation(
+    (snap: { path: string }) => docs[snap.path] ?? null
+  );
+  (householdConverter.fromSnapshot as jest.Mock).mockImplementation(
+    (snap: { path: string }) => docs[snap.path] ?? null
+  );
+}
+
+function buildBatch() {
+  const batch = { set: jest.fn(), update: jest.fn(), delete: jest.fn(), commit: jest.fn() };
+  batch.commit.mockResolvedValue(undefined);
+  mockWriteBatch.mockReturnValue(batch);
+  return batch;
+}
+
+const household = buildHousehold({ id: 'h1', ownerId: 'owner' });
+const owner = buildHouseholdMember({ householdId: 'h1', userId: 'owner', role: 'admin' });
+const admin = buildHouseholdMember({ householdId: 'h1', userId: 'admin', role: 'admin' });
+const member = buildHouseholdMember({ householdId: 'h1', userId: 'member', role: 'member' });
+
+function setupHousehold() {
+  setupDocs({
+    'households/h1': household,
+    'householdMembers/h1_owner': owner,
+    'householdMembers/h1_admin': admin,
+    'householdMembers/h1_member': member,
+  });
+}
+
+describe('updateMemberRole', () => {
+  beforeEach(setupHousehold);
+
+  it('lets an admin promote a member', async () => {
+    await updateMemberRole('h1', 'member', 'admin', 'admin');
+
+    expect(mockUpdateDoc).toHaveBeenCalledWith(
+      { path: 'householdMembers/h1_member' },
+      { role: 'admin' }
+    );
+  });
+
+  it('lets an admin demote another admin', async () => {
+    await updateMemberRole('h1', 'admin', 'member', 'owner');
+
+    expect(mockUpdateDoc).toHaveBeenCalledWith(
+      { path: 'householdMembers/h1_admin' },
+      { role: 'member' }
+    );
+  });
+
+  it('rejects non-admins', async () => {
+    await expect(updateMemberRole('h1', 'member', 'admin', 'member')).rejects.toThrow(
+      'Only admins can change member roles'
+    );
+    expect(mockUpdateDoc).not.toHaveBeenCalled();
+  });
+
+  it('keeps the owner an admin', async () => {
+    await expect(updateMemberRole('h1', 'owner', 'member', 'admin')).rejects.toThrow(
+      'The household owner must remain an admin'
+    );
+    expect(mockUpdateDoc).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown members', async () => {
+    await expect(updateMemberRole('h1', 'stranger', 'admin', 'admin')).rejects.toThrow(
+      'Member not found'
+    );
+  });
+});
+
+describe('transferOwnership', () => {
+  beforeEach(setupHousehold);
+
+  it('updates ownerId and promotes the new owner in one batch', async () => {
+    const batch = buildBatch();
+
+    await transferOwnership('h1', 'member', 'owner');
+
+    expect(batch.update).toHaveBeenCalledWith(
+      { path: 'households/h1' },
+      expect.objectContaining({ ownerId: 'member' })
+    );
+    expect(batch.update).toHaveBeenCalledWith(
+      { path: 'householdMembers/h1_member' },
+      { role: 'admin' }
+    );
+    expect(batch.commit).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not rewrite the role of an admin becoming owner', async () => {
+    const batch = buildBatch();
+
+    await transferOwnership('h1', 'admin', 'owner');
+
+    expect(batch.update).toHaveBeenCalledTimes(1);
+    expect(batch.commit).toHaveBeenCalled();
+  });
+
+  it('rejects anyone but the owner', async () => {
+    const batch = buildBatch();
+
+    await expect(transferOwnership('h1', 'member', 'admin')).rejects.toThrow(
+      'Only the household owner can transfer ownership'
+    );
+    expect(batch.commit).not.toHaveBeenCalled();
+  });
+
+  it('rejects non-members as the new owner', async () => {
+    const batch = buildBatch();
+
+    await expect(transferOwnership('h1', 'stranger', 'owner')).rejects.toThrow(
+      'The new owner must be a member of this household'
+    );
+    expect(batch.commit).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,156 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onlineManager } from '@tanstack/react-query';
+import * as Notifications from 'expo-notifications';
+import { isQueuedMutation } from '@/lib/mutation-queue';
+import { handleNotificationResponse } from '@/lib/notification-responses';
+import { queryClient } from '@/lib/query-client';
+import * as choreService from '@/lib/services/chore-service';
+import {
+  CHORE_ACTION_COMPLETE,
+  CHORE_ACTION_SNOOZE,
+  CHORE_NOTIFICATION_CATEGORY,
+} from '@/lib/services/notification-service';
+import { showToast } from '@/lib/utils/toast';
+
+jest.mock('@/lib/services/chore-service');
+jest.mock('@/lib/utils/toast');
+
+const mockChoreService = choreService as jest.Mocked<typeof choreService>;
+const mockNotifications = Notifications as jest.Mocked<typeof Notifications>;
+
+function buildResponse(
+  actionIdentifier: string,
+  data: Record<string, unknown> = { choreId: 'c1', householdId: 'h1' }
+): Notifications.NotificationResponse {
+  return {
+    actionIdentifier,
+    notification: {
+      date: Date.now(),
+      request: {
+        identifier: 'notification-1',
+        content: {
+          title: '📋 Chore Due Today',
+          subtitle: null,
+          body: '"Dishes" is due today',
+          data,
+          categoryIdentifier: CHORE_NOTIFICATION_CATEGORY,
+          sound: 'default',
+        },
+        trigger: null,
+      },
+    },
+  } as Notifications.NotificationResponse;
+}
+
+describe('handleNotificationResponse', () => {
+  const openChore = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockChoreService.completeChore.mockResolvedValue(undefined);
+    mockNotifications.getAllScheduledNotificationsAsync.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    queryClient.getMutationCache().clear();
+    onlineManager.setOnline(true);
+    jest.useRealTimers();
+  });
+
+  it('completes the chore from the Done action', async () => {
+    await handleNotificationResponse(buildResponse(CHORE_ACTION_COMPLETE), 'user-1', openChore);
+
+    expect(mockChoreService.completeChore).toHaveBeenCalledWith('c1', 'user-1');
+    expect(openChore).not.toHaveBeenCalled();
+  });
+
+  it("cancels the chore's other notifications when it is done", async () => {
+    mockNotifications.getAllScheduledNotificationsAsync.mockResolvedValue([
+      { identifier: 'follow-up', content: { data: { choreId: 'c1' } } },
+    ] as unknown as Notifications.NotificationRequest[]);
+
+    await handleNotificationResponse(buildResponse(CHORE_ACTION_COMPLETE), 'user-1', openChore);
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('follow-up');
+  });
+
+  it('queues the completion while offline', async () => {
+    onlineManager.setOnline(false);
+
+    // Resolves only once the queued completion runs, so don't wait for it
+    handleNotificationResponse(buildResponse(CHORE_ACTION_COMPLETE), 'user-1', openChore);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(queryClient.getMutationCache().getAll().filter(isQueuedMutation)).toHaveLength(1);
+    expect(mockChoreService.completeChore).not.toHaveBeenCalled();
+  });
+
+  it('shows who got there first when the completion conflicts', async () => {
+    // The service module is automocked, so the error's constructor doesn't set the message
+    const conflict = Object.assign(new mockChoreService.ChoreConflictError(''), {
+      message: 'Already completed by Alice',
+    });
+    mockChoreService.completeChore.mockRejectedValue(conflict);
+
+    await handleNotificationResponse(buildResponse(CHORE_ACTION_COMPLETE), 'user-1', openChore);
+
+    expect(showToast).toHaveBeenCalledWith('Already completed by Alice');
+  });
+
+  it('shows the notification again in an hour from the Snooze action', async () => {
+    await handleNotificationResponse(buildResponse(CHORE_ACTION_SNOOZE), 'user-1', openChore);
+
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+      expect.objectContaining({
+        identifier: 'snooze:notification-1',
+        content: expect.objectContaining({
+          body: '"Dishes" is due today',
+          data: { choreId: 'c1', householdId: 'h1' },
+          categoryIdentifier: CHORE_NOTIFICATION_CATEGORY,
+        }),
+        trigger: expect.objectContaining({
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: 3600,
+        }),
+      })
+    );
+    expect(mockChoreService.completeChore).not.toHaveBeenCalled();
+  });
+
+  it('holds a snooze that would end in quiet hours until they are over', async () => {
+    jest.useFakeTimers({ now: new Date(2025, 5, 10, 21, 30) });
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+      JSON.stringify({ quietHoursEnabled: true, quietHoursStart: '22:00', quietHoursEnd: '07:00' })
+    );
+
+    await handleNotificationResponse(buildResponse(CHORE_ACTION_SNOOZE), 'user-1', openChore);
+
+    // 21:30 until 07:00 the next morning
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+      expect.objectContaining({
+        trigger: expect.objectContaining({ seconds: 9.5 * 60 * 60 }),
+      })
+    );
+  });
+
+  it('opens the chore when the notification is tapped', async () => {
+    await handleNotificationResponse(
+      buildResponse(Notifications.DEFAULT_ACTION_IDENTIFIER),
+      'user-1',
+      openChore
+    );
+
+    expect(openChore).toHaveBeenCalledWith('h1', 'c1');
+    expect(mockChoreService.completeChore).not.toHaveBeenCalled();
+  });
+
+  it('ignores notifications that are not about a chore', async () => {
+    await handleNotificationResponse(
+      buildResponse(Notifications.DEFAULT_ACTION_IDENTIFIER, {}),
+      'user-1',
+      openChore
+    );
+
+    expect(openChore).not.toHaveBeenCalled();
+  });
+});
@@ -1,13 +1,27 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Notifications from 'expo-notifications';
 import {
-  scheduleDailyReminder,
-  scheduleChoreNotification,
+  buildDailyDigest,
+  formatDailyDigest,
+  planDailyDigests,
+  planChoreNotification,
+  prioritizeNotifications,
+  planNotifications,
   scheduleAllNotifications,
+  shiftOutOfQuietHours,
+  getChoreReminderDate,
+  getOverdueFollowUps,
+  cancelChoreNotifications,
   cancelAllNotifications,
+  registerNotificationCategories,
   requestPermissions,
+  CHORE_NOTIFICATION_CATEGORY,
+  DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS,
   DEFAULT_NOTIFICATION_SETTINGS,
-  type NotificationSettings,
+  MAX_SCHEDULED_NOTIFICATIONS,
+  type PlannedNotification,
 } from '@/lib/services/notification-service';
+import type { NotificationSettings } from '@/lib/types/user';
 import { buildChore, buildCompletedChore, daysFromNow, ts } from '../helpers/factories';
 
 beforeEach(() => {
@@ -26,6 +40,23 @@ describe('requestPermissions', () => {
   });
 });
 
+describe('cancelChoreNotifications', () => {
+  it("cancels only the given chore's scheduled notifications", async () => {
+    (Notifications.getAllScheduledNotificationsAsync as jest.Mock).mockResolvedValueOnce([
+      { identifier: 'n1', content: { data: { choreId: 'c1' } } },
+      { identifier: 'n2', content: { data: { choreId: 'c2' } } },
+      { identifier: 'n3', content: { data: { choreId: 'c1' } } },
+      { identifier: 'daily', content: { data: {} } },
+    ]);
+
+    await cancelChoreNotifications('c1');
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledTimes(2);
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('n1');
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('n3');
+  });
+});
+
 describe('cancelAllNotifications', () => {
   it('calls cancelAllScheduledNotificationsAsync', async () => {
     await cancelAllNotifications();
@@ -33,59 +64,396 @@ describe('cancelAllNotifications', () => {
   });
 });
 
-describe('scheduleDailyReminder', () => {
-  it('schedules a daily notification at the given time', async () => {
-    await scheduleDailyReminder('09:30');
+describe('registerNotificationCategories', () => {
+  it('opens the app for both chore actions, which are handled there', async () => {
+    await registerNotificationCategories();
 
-    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+    const [category, actions] = (Notifications.setNotificationCategoryAsync as jest.Mock).mock
+      .calls[0];
+    expect(category).toBe(CHORE_NOTIFICATION_CATEGORY);
+    expect(actions.map((action: any) => action.options.opensAppToForeground)).toEqual([
+      true,
+      true,
+    ]);
+  });
+});
+
+describe('buildDailyDigest', () => {
+  const day = new Date(2025, 5, 10, 9, 0);
+
+  it('counts open chores due before the day as overdue and on the day as due today', () => {
+    const digest = buildDailyDigest(
+      [
+        buildChore({ dueAt: ts(new Date(2025, 5, 8)) }),
+        buildChore({ dueAt: ts(new Date(2025, 5, 10, 18, 0)) }),
+        buildChore({ dueAt: ts(new Date(2025, 5, 10, 7, 0)) }),
+        buildChore({ dueAt: ts(new Date(2025, 5, 11)) }),
+        buildChore({ dueAt: null }),
+        buildCompletedChore({ dueAt: ts(new Date(2025, 5, 9)) }),
+      ],
+      day
+    );
+
+    expect(digest).toEqual({ overdue: 1, dueToday: 2, mine: [] });
+  });
+
+  it("lists the user's own chores, most overdue first", () => {
+    const digest = buildDailyDigest(
+      [
+        buildChore({ name: 'Vacuum', assignedTo: 'user-1', dueAt: ts(new Date(2025, 5, 10)) }),
+        buildChore({ name: 'Bins', assignedTo: 'user-2', dueAt: ts(new Date(2025, 5, 9)) }),
+        buildChore({ name: 'Dishes', assignedTo: 'user-1', dueAt: ts(new Date(2025, 5, 7)) }),
+      ],
+      day,
+      'user-1'
+    );
+
+    expect(digest?.mine).toEqual(['Dishes', 'Vacuum']);
+  });
+
+  it('returns null when nothing is due or overdue that day', () => {
+    const digest = buildDailyDigest([buildChore({ dueAt: ts(new Date(2025, 5, 12)) })], day);
+    expect(digest).toBeNull();
+  });
+});
+
+describe('formatDailyDigest', () => {
+  it('summarizes the counts', () => {
+    expect(formatDailyDigest({ overdue: 2, dueToday: 3, mine: [] })).toBe(
+      '2 overdue · 3 due today'
+    );
+    expect(formatDailyDigest({ overdue: 0, dueToday: 1, mine: [] })).toBe('1 due today');
+  });
+
+  it('names the first few of the user\'s own chores', () => {
+    expect(
+      formatDailyDigest({ overdue: 1, dueToday: 4, mine: ['Dishes', 'Vacuum', 'Bins', 'Laundry', 'Mop'] })
+    ).toBe('1 overdue · 4 due today\nYours: Dishes, Vacuum, Bins and 2 more');
+  });
+});
+
+describe('planDailyDigests', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 5, 10, 12, 0) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('plans a digest at the chosen time on each day with chores', () => {
+    const chores = [
+      buildChore({ name: 'Vacuum', assignedTo: 'user-1', dueAt: ts(new Date(2025, 5, 11)) }),
+      buildChore({ name: 'Bins', dueAt: ts(new Date(2025, 5, 13)) }),
+    ];
+
+    const planned = planDailyDigests(chores, '09:30', 'user-1');
+
+    // Today's 9:30 has passed; from the 11th on, Vacuum stays overdue every day
+    expect(planned.map((p) => p.date)).toEqual(
+      Array.from({ length: 14 }, (_, i) => new Date(2025, 5, 11 + i, 9, 30))
+    );
+    expect(planned[0]).toEqual(
       expect.objectContaining({
+        identifier: 'digest:2025-06-11',
         content: expect.objectContaining({
           title: expect.stringContaining('Daily Chore Reminder'),
-        }),
-        trigger: expect.objectContaining({
-          type: Notifications.SchedulableTriggerInputTypes.DAILY,
-          hour: 9,
-          minute: 30,
+          body: '1 due today\nYours: Vacuum',
         }),
       })
     );
   });
 
-  it('parses hours and minutes correctly from HH:MM', async () => {
-    await scheduleDailyReminder('14:05');
+  it('skips days with nothing to do', () => {
+    const planned = planDailyDigests([buildChore({ dueAt: ts(new Date(2025, 5, 20)) })], '09:00');
 
-    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
-      expect.objectContaining({
-        trigger: expect.objectContaining({
-          hour: 14,
-          minute: 5,
-        }),
-      })
-    );
+    // Upcoming days up to the 20th are empty; after that it is overdue
+    expect(planned[0].date).toEqual(new Date(2025, 5, 20, 9, 0));
+    expect(planned).toHaveLength(5);
+  });
+
+  it('plans nothing when there are no chores', () => {
+    expect(planDailyDigests([], '09:00')).toEqual([]);
   });
 });
 
-describe('scheduleChoreNotification', () => {
-  it('returns empty string for chore with no dueAt', async () => {
-    const chore = buildChore({ dueAt: null });
-    const result = await scheduleChoreNotification(chore);
-    expect(result).toBe('');
-    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+describe('planChoreNotification', () => {
+  it('returns null for chore with no dueAt', () => {
+    expect(planChoreNotification(buildChore({ dueAt: null }))).toBeNull();
   });
 
-  it('schedules notification for chore due in the future', async () => {
+  it('plans a chore alert with an identifier for the chore and offset', () => {
     const chore = buildChore({ dueAt: daysFromNow(3), name: 'Vacuum' });
-    await scheduleChoreNotification(chore);
 
-    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+    expect(planChoreNotification(chore)).toEqual(
       expect.objectContaining({
+        identifier: `chore:${chore.id}:due:0`,
+        choreId: chore.id,
         content: expect.objectContaining({
           body: '"Vacuum" is due today',
           data: { choreId: chore.id, householdId: chore.householdId },
+          categoryIdentifier: CHORE_NOTIFICATION_CATEGORY,
         }),
       })
     );
   });
+
+  it('marks chores assigned to the user as theirs', () => {
+    const chore = buildChore({ dueAt: daysFromNow(3), assignedTo: 'user-1' });
+
+    expect(planChoreNotification(chore, 0, 'user-1')?.mine).toBe(true);
+    expect(planChoreNotification(chore, 0, 'user-2')?.mine).toBe(false);
+  });
+});
+
+describe('shiftOutOfQuietHours', () => {
+  const quietHours = {
+    quietHoursEnabled: true,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '07:00',
+  };
+
+  it('leaves times outside quiet hours alone', () => {
+    const date = new Date(2025, 5, 10, 21, 59);
+    expect(shiftOutOfQuietHours(date, quietHours)).toEqual(date);
+  });
+
+  it('moves late evening times to the next morning', () => {
+    expect(shiftOutOfQuietHours(new Date(2025, 5, 10, 23, 30), quietHours)).toEqual(
+      new Date(2025, 5, 11, 7, 0)
+    );
+  });
+
+  it('moves early morning times to the end of quiet hours that day', () => {
+    expect(shiftOutOfQuietHours(new Date(2025, 5, 10, 6, 0), quietHours)).toEqual(
+      new Date(2025, 5, 10, 7, 0)
+    );
+  });
+
+  it('handles quiet hours within a single day', () => {
+    const afternoon = { ...quietHours, quietHoursStart: '13:00', quietHoursEnd: '15:00' };
+    expect(shiftOutOfQuietHours(new Date(2025, 5, 10, 14, 0), afternoon)).toEqual(
+      new Date(2025, 5, 10, 15, 0)
+    );
+    expect(shiftOutOfQuietHours(new Date(2025, 5, 10, 22, 0), afternoon)).toEqual(
+      new Date(2025, 5, 10, 22, 0)
+    );
+  });
+
+  it('does nothing when quiet hours are off', () => {
+    const date = new Date(2025, 5, 10, 23, 30);
+    expect(shiftOutOfQuietHours(date, { ...quietHours, quietHoursEnabled: false })).toEqual(date);
+  });
+});
+
+describe('planNotifications', () => {
+  const settings: NotificationSettings = {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    overdueRemindersEnabled: false,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 5, 10, 12, 0) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds back notifications that fall in quiet hours', () => {
+    const chore = buildChore({ dueAt: ts(new Date(2025, 5, 12)), dueTime: '23:00' });
+
+    const planned = planNotifications([chore], {
+      ...settings,
+      dailyReminderEnabled: false,
+      quietHoursEnabled: true,
+    });
+
+    expect(planned.map((p) => p.date)).toEqual([new Date(2025, 5, 13, 7, 0)]);
+  });
+
+  it("leaves out chores the user's chore filter hides", () => {
+    const chores = [
+      buildChore({ id: 'mine', assignedTo: 'user-1', dueAt: ts(new Date(2025, 5, 12)) }),
+      buildChore({ id: 'unassigned', dueAt: ts(new Date(2025, 5, 12)) }),
+      buildChore({ id: 'theirs', assignedTo: 'user-2', dueAt: ts(new Date(2025, 5, 12)) }),
+    ];
+    const planned = planNotifications(
+      chores,
+      { ...settings, dailyReminderEnabled: false, choreFilter: 'mineAndUnassigned' },
+      'user-1'
+    );
+
+    expect(planned.map((p) => p.choreId)).toEqual(['mine', 'unassigned']);
+  });
+
+  describe('household overrides', () => {
+    const ours = buildChore({
+      id: 'ours',
+      householdId: 'ours',
+      assignedTo: 'user-1',
+      dueAt: ts(new Date(2025, 5, 12)),
+    });
+    const parents = buildChore({
+      id: 'parents',
+      householdId: 'parents',
+      dueAt: ts(new Date(2025, 5, 12)),
+    });
+
+    function choreIds(planned: PlannedNotification[]): (string | undefined)[] {
+      return planned.filter((p) => p.choreId).map((p) => p.choreId);
+    }
+
+    function digestBody(planned: PlannedNotification[]): string | null | undefined {
+      return planned.find((p) => !p.choreId)?.content.body;
+    }
+
+    it('mutes a household', () => {
+      const planned = planNotifications(
+        [ours, parents],
+        {
+          ...settings,
+          householdOverrides: {
+            parents: { ...DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS, enabled: false },
+          },
+        },
+        'user-1'
+      );
+
+      expect(choreIds(planned)).toEqual(['ours']);
+      expect(digestBody(planned)).toBe(`1 due today\nYours: ${ours.name}`);
+    });
+
+    it('keeps only chores assigned to the user', () => {
+      const planned = planNotifications(
+        [ours, parents],
+        {
+          ...settings,
+          dailyReminderEnabled: false,
+          householdOverrides: {
+            ours: { ...DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS, onlyAssignedToMe: true },
+            parents: { ...DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS, onlyAssignedToMe: true },
+          },
+        },
+        'user-1'
+      );
+
+      expect(choreIds(planned)).toEqual(['ours']);
+    });
+
+    it('turns off single alert types', () => {
+      const planned = planNotifications(
+        [ours, parents],
+        {
+          ...settings,
+          householdOverrides: {
+            parents: { ...DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS, choreAlertsEnabled: false },
+          },
+        },
+        'user-1'
+      );
+
+      // No due alert for the parents' chore, but it still counts in the daily reminder
+      expect(choreIds(planned)).toEqual(['ours']);
+      expect(digestBody(planned)).toBe(`2 due today\nYours: ${ours.name}`);
+    });
+  });
+});
+
+describe('prioritizeNotifications', () => {
+  const planned = (identifier: string, day: number, mine: boolean): PlannedNotification => ({
+    identifier,
+    mine,
+    date: new Date(2025, 5, day, 8, 0),
+    content: { title: identifier },
+  });
+
+  it('keeps everything within the limit', () => {
+    const all = [planned('a', 1, false), planned('b', 2, true)];
+    expect(prioritizeNotifications(all, 2)).toBe(all);
+  });
+
+  it("keeps the user's own first, then the soonest", () => {
+    const all = [
+      planned('others-soon', 1, false),
+      planned('others-later', 2, false),
+      planned('mine-later', 5, true),
+      planned('mine-soon', 3, true),
+    ];
+
+    expect(prioritizeNotifications(all, 3).map((p) => p.identifier)).toEqual([
+      'mine-soon',
+      'mine-later',
+      'others-soon',
+    ]);
+  });
+});
+
+describe('getChoreReminderDate', () => {
+  const dueAt = ts(new Date(2025, 5, 10, 15, 42));
+
+  it('returns null for chore with no dueAt', () => {
+    expect(getChoreReminderDate(buildChore({ dueAt: null }), 0)).toBeNull();
+  });
+
+  it('fires at 8:00 AM on the due date when the chore has no due time', () => {
+    expect(getChoreReminderDate(buildChore({ dueAt }), 0)).toEqual(new Date(2025, 5, 10, 8, 0));
+  });
+
+  it('fires at the due time', () => {
+    const chore = buildChore({ dueAt, dueTime: '18:30' });
+    expect(getChoreReminderDate(chore, 0)).toEqual(new Date(2025, 5, 10, 18, 30));
+  });
+
+  it('counts offsets back from the due time', () => {
+    const chore = buildChore({ dueAt, dueTime: '18:30' });
+    expect(getChoreReminderDate(chore, 120)).toEqual(new Date(2025, 5, 10, 16, 30));
+    expect(getChoreReminderDate(chore, 24 * 60)).toEqual(new Date(2025, 5, 9, 18, 30));
+  });
+});
+
+describe('getOverdueFollowUps', () => {
+  const chore = buildChore({ dueAt: ts(new Date(2025, 5, 1)), dueTime: '18:00' });
+  const until = new Date(2025, 5, 15);
+
+  function followUpDays(dailyDays: number, repeatDays: number) {
+    return getOverdueFollowUps(
+      chore,
+      { overdueDailyDays: dailyDays, overdueRepeatDays: repeatDays },
+      until
+    ).map((f) => f.daysOverdue);
+  }
+
+  it('follows up daily, then at the repeat cadence, up to the horizon', () => {
+    expect(followUpDays(3, 3)).toEqual([1, 2, 3, 6, 9, 12]);
+  });
+
+  it('stops after the daily follow-ups when there is no repeat cadence', () => {
+    expect(followUpDays(2, 0)).toEqual([1, 2]);
+  });
+
+  it('uses only the repeat cadence when there are no daily follow-ups', () => {
+    expect(followUpDays(0, 7)).toEqual([7]);
+  });
+
+  it('fires at the due alert time of day', () => {
+    const [first] = getOverdueFollowUps(
+      chore,
+      { overdueDailyDays: 1, overdueRepeatDays: 0 },
+      until
+    );
+    expect(first.date).toEqual(new Date(2025, 5, 2, 18, 0));
+  });
+
+  it('returns nothing for a chore with no dueAt', () => {
+    expect(
+      getOverdueFollowUps(
+        buildChore({ dueAt: null }),
+        { overdueDailyDays: 3, overdueRepeatDays: 3 },
+        until
+      )
+    ).toEqual([]);
+  });
 });
 
 describe('scheduleAllNotifications', () => {
@@ -109,7 +477,7 @@ describe('scheduleAllNotifications', () => {
     expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
   });
 
-  it('schedules daily reminder when enabled', async () => {
+  it('schedules daily reminders when enabled', async () => {
     const settings: NotificationSettings = {
       ...DEFAULT_NOTIFICATION_SETTINGS,
       enabled: true,
@@ -117,8 +485,12 @@ describe('scheduleAllNotifications', () => {
       choreAlertsEnabled: false,
     };
 
-    await scheduleAllNotifications([], settings);
-    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+    await scheduleAllNotifications([buildChore({ dueAt: daysFromNow(-1) })], settings);
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: expect.objectContaining({ title: expect.stringContaining('Daily Chore Reminder') }),
+      })
+    );
   });
 
   it('skips completed chores', async () => {
@@ -146,4 +518,253 @@ describe('scheduleAllNotifications', () => {
     await scheduleAllNotifications([noDue], settings);
     expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
   });
+
+  describe('reminder offsets', () => {
+    const settings: NotificationSettings = {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      dailyReminderEnabled: false,
+      overdueRemindersEnabled: false,
+    };
+
+    function scheduledDates(): Date[] {
+      return (Notifications.scheduleNotificationAsync as jest.Mock).mock.calls.map(
+        ([request]) => request.trigger.date
+      );
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(2025, 5, 1, 12, 0) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('schedules one alert per offset before the due time', async () => {
+      const chore = buildChore({
+        name: 'Vacuum',
+        dueAt: ts(new Date(2025, 5, 3)),
+        dueTime: '18:00',
+        reminderOffsets: [0, 120, 24 * 60],
+      });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(scheduledDates()).toEqual([
+        new Date(2025, 5, 2, 18, 0),
+        new Date(2025, 5, 3, 16, 0),
+        new Date(2025, 5, 3, 18, 0),
+      ]);
+      expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.objectContaining({ body: '"Vacuum" is due in 2 hours' }),
+        })
+      );
+    });
+
+    it('skips reminders whose time has already passed', async () => {
+      const chore = buildChore({
+        dueAt: ts(new Date(2025, 5, 1)),
+        dueTime: '13:00',
+        reminderOffsets: [0, 120],
+      });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(scheduledDates()).toEqual([new Date(2025, 5, 1, 13, 0)]);
+    });
+
+    it('skips reminders beyond the scheduling horizon', async () => {
+      const chore = buildChore({
+        dueAt: ts(new Date(2025, 5, 20)),
+        reminderOffsets: [0, 7 * 24 * 60],
+      });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(scheduledDates()).toEqual([new Date(2025, 5, 13, 8, 0)]);
+    });
+
+    it('schedules nothing for a chore with reminders turned off', async () => {
+      const chore = buildChore({ dueAt: ts(new Date(2025, 5, 3)), reminderOffsets: [] });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('overdue follow-ups', () => {
+    const settings: NotificationSettings = {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      dailyReminderEnabled: false,
+      overdueRemindersEnabled: true,
+      overdueDailyDays: 3,
+      overdueRepeatDays: 3,
+    };
+
+    function scheduledBodies(): string[] {
+      return (Notifications.scheduleNotificationAsync as jest.Mock).mock.calls.map(
+        ([request]) => request.content.body
+      );
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(2025, 5, 10, 12, 0) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('schedules upcoming follow-ups for an overdue chore', async () => {
+      const chore = buildChore({ name: 'Bins', dueAt: ts(new Date(2025, 5, 8)) });
+
+      await scheduleAllNotifications([chore], settings);
+
+      // Due June 8: days 1-2 have passed; the 14-day horizon ends June 24
+      expect(scheduledBodies()).toEqual([
+        '"Bins" is 3 days overdue',
+        '"Bins" is 6 days overdue',
+        '"Bins" is 9 days overdue',
+        '"Bins" is 12 days overdue',
+        '"Bins" is 15 days overdue',
+      ]);
+    });
+
+    it('schedules follow-ups after the due alert for an upcoming chore', async () => {
+      const chore = buildChore({
+        name: 'Bins',
+        dueAt: ts(new Date(2025, 5, 20)),
+        reminderOffsets: [0],
+      });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(scheduledBodies()).toEqual([
+        '"Bins" is due today',
+        '"Bins" is 1 day overdue',
+        '"Bins" is 2 days overdue',
+        '"Bins" is 3 days overdue',
+      ]);
+    });
+
+    it('schedules none for completed chores', async () => {
+      const chore = buildCompletedChore({ dueAt: ts(new Date(2025, 5, 8)) });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+    });
+
+    it('schedules none when follow-ups are turned off', async () => {
+      const chore = buildChore({ dueAt: ts(new Date(2025, 5, 8)) });
+
+      await scheduleAllNotifications([chore], { ...settings, overdueRemindersEnabled: false });
+
+      expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rescheduling', () => {
+    const settings: NotificationSettings = {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      dailyReminderEnabled: false,
+      overdueRemindersEnabled: false,
+    };
+    const mockScheduled = Notifications.getAllScheduledNotificationsAsync as jest.Mock;
+    const mockGetItem = AsyncStorage.getItem as jest.Mock;
+
+    function scheduledIds(): string[] {
+      return (Notifications.scheduleNotificationAsync as jest.Mock).mock.calls.map(
+        ([request]) => request.identifier
+      );
+    }
+
+    /** Sync once, then make the device report what that sync scheduled and saved. */
+    async function syncAndKeep(chores: Parameters<typeof scheduleAllNotifications>[0]) {
+      await scheduleAllNotifications(chores, settings);
+      const ids = scheduledIds();
+      const [, index] = (AsyncStorage.setItem as jest.Mock).mock.lastCall;
+      mockScheduled.mockResolvedValueOnce(ids.map((identifier) => ({ identifier })));
+      mockGetItem.mockResolvedValueOnce(index);
+      jest.clearAllMocks();
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(2025, 5, 1, 12, 0) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('schedules each notification under its planned identifier', async () => {
+      const chore = buildChore({ dueAt: ts(new Date(2025, 5, 3)), reminderOffsets: [0, 60] });
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(scheduledIds()).toEqual([`chore:${chore.id}:due:60`, `chore:${chore.id}:due:0`]);
+      expect(Notifications.cancelAllScheduledNotificationsAsync).not.toHaveBeenCalled();
+    });
+
+    it('leaves unchanged notifications alone', async () => {
+      const chore = buildChore({ dueAt: ts(new Date(2025, 5, 3)) });
+      await syncAndKeep([chore]);
+
+      await scheduleAllNotifications([chore], settings);
+
+      expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+      expect(Notifications.cancelScheduledNotificationAsync).not.toHaveBeenCalled();
+    });
+
+    it('reschedules only the chore that changed', async () => {
+      const vacuum = buildChore({ id: 'vacuum', dueAt: ts(new Date(2025, 5, 3)) });
+      const bins = buildChore({ id: 'bins', dueAt: ts(new Date(2025, 5, 4)) });
+      await syncAndKeep([vacuum, bins]);
+
+      await scheduleAllNotifications([vacuum, { ...bins, dueTime: '18:00' }], settings);
+
+      expect(scheduledIds()).toEqual(['chore:bins:due:0']);
+      expect(Notifications.cancelScheduledNotificationAsync).not.toHaveBeenCalled();
+    });
+
+    it('cancels notifications that are no longer wanted', async () => {
+      const vacuum = buildChore({ id: 'vacuum', dueAt: ts(new Date(2025, 5, 3)) });
+      const bins = buildChore({ id: 'bins', dueAt: ts(new Date(2025, 5, 4)) });
+      await syncAndKeep([vacuum, bins]);
+
+      await scheduleAllNotifications([vacuum], settings);
+
+      expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledTimes(1);
+      expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith(
+        'chore:bins:due:0'
+      );
+      expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+    });
+
+    it('keeps snoozed notifications', async () => {
+      mockScheduled.mockResolvedValueOnce([{ identifier: 'snooze:chore:c1:due:0' }]);
+
+      await scheduleAllNotifications([], settings);
+
+      expect(Notifications.cancelScheduledNotificationAsync).not.toHaveBeenCalled();
+    });
+
+    it("stays under the cap, keeping the user's own chores", async () => {
+      const chores = Array.from({ length: MAX_SCHEDULED_NOTIFICATIONS + 5 }, (_, i) =>
+        buildChore({ id: `c${i}`, dueAt: ts(new Date(2025, 5, 2, i % 12)) })
+      );
+      const mine = buildChore({
+        id: 'mine',
+        assignedTo: 'user-1',
+        dueAt: ts(new Date(2025, 5, 14)),
+      });
+
+      await scheduleAllNotifications([...chores, mine], settings, 'user-1');
+
+      expect(scheduledIds()).toHaveLength(MAX_SCHEDULED_NOTIFICATIONS);
+      expect(scheduledIds()).toContain('chore:mine:due:0');
+    });
+  });
 });
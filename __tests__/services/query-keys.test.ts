@@ -19,6 +19,10 @@ describe('queryKeys', () => {
         'households', 'member', 'h1', 'u1',
       ]);
     });
+
+    it('activity() includes household id', () => {
+      expect(queryKeys.households.activity('h1')).toEqual(['households', 'activity', 'h1']);
+    });
   });
 
   describe('rooms', () => {
@@ -40,6 +44,10 @@ describe('queryKeys', () => {
       expect(queryKeys.chores.detail('c1')).toEqual(['chores', 'detail', 'c1']);
     });
 
+    it('completions() includes choreId', () => {
+      expect(queryKeys.chores.completions('c1')).toEqual(['chores', 'completions', 'c1']);
+    });
+
     it('today() includes userId', () => {
       expect(queryKeys.chores.today('u1')).toEqual(['chores', 'today', 'u1']);
     });
@@ -57,6 +65,14 @@ describe('queryKeys', () => {
     it('forHousehold() includes householdId', () => {
       expect(queryKeys.invites.forHousehold('h1')).toEqual(['invites', 'household', 'h1']);
     });
+
+    it('joinCode() includes the code', () => {
+      expect(queryKeys.invites.joinCode('ABCD2345')).toEqual(['invites', 'joinCode', 'ABCD2345']);
+    });
+
+    it('joinCodes() includes householdId', () => {
+      expect(queryKeys.invites.joinCodes('h1')).toEqual(['invites', 'joinCodes', 'h1']);
+    });
   });
 
   describe('users', () => {
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from '@react-native-firebase/firestore';
+import { dehydrate, QueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/hooks/query-keys';
+import { queryClient } from '@/lib/query-client';
+import {
+  clearQueryCache,
+  deserializeQueryCache,
+  persistQueryCache,
+  queryCacheBuster,
+  queryPersister,
+  serializeQueryCache,
+} from '@/lib/query-persistence';
+import {
+  buildCompletedChore,
+  buildHousehold,
+  buildInvite,
+} from '../helpers/factories';
+
+const mockStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+/** Back the AsyncStorage mock with a real map */
+function memoryStorage() {
+  const items = new Map<string, string>();
+  mockStorage.getItem.mockImplementation(async (key) => items.get(key) ?? null);
+  mockStorage.setItem.mockImplementation(async (key, value) => {
+    items.set(key, value);
+  });
+  mockStorage.removeItem.mockImplementation(async (key) => {
+    items.delete(key);
+  });
+  return items;
+}
+
+/** A client to dehydrate from; without gc timers, so it can't keep jest from exiting */
+function createSourceClient() {
+  return new QueryClient({ defaultOptions: { queries: { gcTime: Infinity } } });
+}
+
+/** Restoring reads AsyncStorage asynchronously; let it settle */
+async function waitForRestore() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function seedPersistedCache(data: Record<string, unknown>, buster: string) {
+  const source = createSourceClient();
+  Object.entries(data).forEach(([householdId, chores]) => {
+    source.setQueryData(queryKeys.chores.household(householdId), chores);
+  });
+  await queryPersister.persistClient({
+    buster,
+    timestamp: Date.now(),
+    clientState: dehydrate(source),
+  });
+}
+
+describe('serializeQueryCache', () => {
+  it('round-trips Timestamps nested in cached documents', () => {
+    const chore = buildCompletedChore({ id: 'c1' });
+    const household = buildHousehold({ id: 'h1' });
+    const invite = buildInvite();
+    const source = createSourceClient();
+    source.setQueryData(queryKeys.chores.detail('c1'), chore);
+    source.setQueryData(queryKeys.households.detail('h1'), household);
+    source.setQueryData(['invites'], [invite]);
+
+    const restored = deserializeQueryCache(
+      serializeQueryCache({ buster: '', timestamp: 0, clientState: dehydrate(source) })
+    );
+
+    const data = restored.clientState.queries.map((q) => q.state.data) as any[];
+    const restoredChore = data.find((d) => d.id === 'c1');
+    expect(restoredChore.dueAt).toBeInstanceOf(Timestamp);
+    expect(restoredChore.dueAt.toMillis()).toBe(chore.dueAt!.toMillis());
+    expect(restoredChore.lastCompletion.completedAt.toDate()).toEqual(
+      chore.lastCompletion!.completedAt.toDate()
+    );
+    expect(data.find((d) => d.id === 'h1').createdAt).toBeInstanceOf(Timestamp);
+    const restoredInvite = data.find((d) => Array.isArray(d))?.[0];
+    expect(restoredInvite.expiresAt.toMillis()).toBe(invite.expiresAt!.toMillis());
+  });
+
+  it('round-trips Dates, e.g. in queued mutation variables', () => {
+    const until = new Date('2026-03-01T09:00:00Z');
+    const client = {
+      buster: '',
+      timestamp: 0,
+      clientState: {
+        queries: [],
+        mutations: [{ mutationKey: ['chores', 'snooze'], state: { variables: { until } } }],
+      },
+    } as any;
+
+    const restored = deserializeQueryCache(serializeQueryCache(client)) as any;
+
+    expect(restored.clientState.mutations[0].state.variables.until).toEqual(until);
+  });
+
+  it('leaves other values untouched', () => {
+    const client = {
+      buster: 'b',
+      timestamp: 1,
+      clientState: { queries: [], mutations: [] },
+    };
+
+    expect(deserializeQueryCache(serializeQueryCache(client))).toEqual(client);
+  });
+});
+
+describe('persistQueryCache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryClient.clear();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('restores the cache saved for the same user', async () => {
+    memoryStorage();
+    const chore = buildCompletedChore({ id: 'c1', householdId: 'h1' });
+    await seedPersistedCache({ h1: [chore] }, queryCacheBuster('user-1'));
+
+    const stop = persistQueryCache('user-1');
+
+    await waitForRestore();
+    const cached = queryClient.getQueryData<any[]>(queryKeys.chores.household('h1'));
+    expect(cached?.[0].dueAt).toBeInstanceOf(Timestamp);
+    expect(cached?.[0].id).toBe('c1');
+    stop();
+  });
+
+  it("discards another user's cache", async () => {
+    const items = memoryStorage();
+    await seedPersistedCache({ h1: [buildCompletedChore()] }, queryCacheBuster('user-1'));
+
+    const stop = persistQueryCache('user-2');
+
+    await waitForRestore();
+    expect(queryClient.getQueryData(queryKeys.chores.household('h1'))).toBeUndefined();
+    expect(items.size).toBe(0);
+    stop();
+  });
+});
+
+describe('queryCacheBuster', () => {
+  it('changes with the user', () => {
+    expect(queryCacheBuster('user-1')).not.toBe(queryCacheBuster('user-2'));
+  });
+});
+
+describe('clearQueryCache', () => {
+  it('empties the in-memory and persisted caches', async () => {
+    const items = memoryStorage();
+    await seedPersistedCache({ h1: [] }, queryCacheBuster('user-1'));
+    queryClient.setQueryData(queryKeys.chores.household('h1'), []);
+
+    await clearQueryCache();
+
+    expect(queryClient.getQueryData(queryKeys.chores.household('h1'))).toBeUndefined();
+    expect(items.size).toBe(0);
+  });
+});
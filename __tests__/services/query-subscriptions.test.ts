@@ -0,0 +1,116 @@
+import { QueryClient } from '@tanstack/react-query';
+import {
+  getSyncState,
+  subscribeQuery,
+  subscribeSyncStates,
+  unsubscribeAll,
+} from '@/lib/query-subscriptions';
+
+describe('subscribeQuery', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    // No gc timers, so the cache can't keep jest from exiting
+    queryClient = new QueryClient({ defaultOptions: { queries: { gcTime: Infinity } } });
+    unsubscribeAll();
+  });
+
+  function fakeListener() {
+    const listener = {
+      onData: undefined as ((data: unknown, sync?: any) => void) | undefined,
+      onError: undefined as ((error: Error) => void) | undefined,
+      unsubscribe: jest.fn(),
+    };
+    const subscribe = jest.fn((onData, onError) => {
+      listener.onData = onData;
+      listener.onError = onError;
+      return listener.unsubscribe;
+    });
+    return { listener, subscribe };
+  }
+
+  it('pushes snapshots into the cache under the query key', () => {
+    const { listener, subscribe } = fakeListener();
+
+    subscribeQuery(queryClient, ['chores', 'household', 'h1'], subscribe);
+    listener.onData?.(['chore']);
+
+    expect(queryClient.getQueryData(['chores', 'household', 'h1'])).toEqual(['chore']);
+  });
+
+  it('shares one listener between holders of the same key', () => {
+    const { listener, subscribe } = fakeListener();
+
+    const releaseA = subscribeQuery(queryClient, ['rooms', 'household', 'h1'], subscribe);
+    const releaseB = subscribeQuery(queryClient, ['rooms', 'household', 'h1'], subscribe);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    releaseA();
+    expect(listener.unsubscribe).not.toHaveBeenCalled();
+
+    releaseB();
+    expect(listener.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores repeated releases from the same holder', () => {
+    const { listener, subscribe } = fakeListener();
+
+    const releaseA = subscribeQuery(queryClient, ['k'], subscribe);
+    subscribeQuery(queryClient, ['k'], subscribe);
+    releaseA();
+    releaseA();
+
+    expect(listener.unsubscribe).not.toHaveBeenCalled();
+  });
+
+  it('starts separate listeners for different scopes', () => {
+    const { subscribe } = fakeListener();
+
+    subscribeQuery(queryClient, ['chores', 'today', 'u1'], subscribe, ['h1']);
+    subscribeQuery(queryClient, ['chores', 'today', 'u1'], subscribe, ['h1', 'h2']);
+
+    expect(subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it('restarts a listener that ended with an error', () => {
+    const { listener, subscribe } = fakeListener();
+
+    subscribeQuery(queryClient, ['k'], subscribe);
+    listener.onError?.(new Error('permission-denied'));
+    subscribeQuery(queryClient, ['k'], subscribe);
+
+    expect(subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports the sync state passed with snapshots until the listener stops', () => {
+    const { listener, subscribe } = fakeListener();
+    const onSyncChange = jest.fn();
+    const stopWatching = subscribeSyncStates(onSyncChange);
+
+    const release = subscribeQuery(queryClient, ['chores', 'today', 'u1'], subscribe, ['h1']);
+    listener.onData?.([], { pendingIds: ['c1'], fromCache: true });
+
+    expect(getSyncState(['chores', 'today', 'u1'], ['h1'])).toEqual({
+      pendingIds: ['c1'],
+      fromCache: true,
+    });
+    expect(getSyncState(['chores', 'today', 'u1'], ['h2'])).toBeUndefined();
+    expect(onSyncChange).toHaveBeenCalledTimes(1);
+
+    release();
+    expect(getSyncState(['chores', 'today', 'u1'], ['h1'])).toBeUndefined();
+    expect(onSyncChange).toHaveBeenCalledTimes(2);
+    stopWatching();
+  });
+
+  it('tears everything down on unsubscribeAll', () => {
+    const { listener, subscribe } = fakeListener();
+
+    const release = subscribeQuery(queryClient, ['k'], subscribe);
+    unsubscribeAll();
+    expect(listener.unsubscribe).toHaveBeenCalledTimes(1);
+
+    release();
+    expect(listener.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -30,6 +30,7 @@ export default {
     },
     plugins: [
       '@react-native-firebase/app',
+      '@react-native-firebase/messaging',
       [
         'expo-build-properties',
         {
@@ -4,18 +4,28 @@
  */
 
 import { ChoreCard } from '@/components/chore-card';
+import { ChoreFilterControl } from '@/components/chore-filter-control';
 import { ThemedView } from '@/components/themed-view';
 import { EmptyState } from '@/components/ui/empty-state';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { LoadingState } from '@/components/ui/loading-state';
 import { useAuth } from '@/lib/hooks/use-auth';
-import { useCompleteChore, useTodayChores, useUndoCompletion } from '@/lib/hooks/use-chores';
+import {
+  useCompleteChore,
+  useSkipOccurrence,
+  useSnoozeChore,
+  useTodayChores,
+  useUndoCompletion,
+} from '@/lib/hooks/use-chores';
 import { useUserHouseholds } from '@/lib/hooks/use-households';
 import { useNotificationSettings } from '@/lib/hooks/use-notification-settings';
+import { useSyncStatus } from '@/lib/hooks/use-sync-status';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
-import { isChoreOverdue } from '@/lib/services/chore-service';
+import { isMutationRunning } from '@/lib/mutation-queue';
+import { getDueDate, isChoreOverdue, matchesChoreFilter } from '@/lib/services/chore-service';
 import { scheduleAllNotifications } from '@/lib/services/notification-service';
 import { Chore } from '@/lib/types/chore';
+import { promptSkip, promptSnooze } from '@/lib/utils/occurrence-prompts';
 import { useNavigation, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
 import {
@@ -39,7 +49,7 @@ export default function TodayScreen() {
   }, [households]);
 
   const tintColor = useThemeColor({}, 'tint');
-  const { settings } = useNotificationSettings();
+  const { settings, updateSettings } = useNotificationSettings(user?.uid);
 
   const {
     data: allChores = [],
@@ -76,17 +86,18 @@ export default function TodayScreen() {
   // Sync notifications whenever chore data changes
   useEffect(() => {
     if (allChores.length > 0 && settings.enabled) {
-      scheduleAllNotifications(allChores, settings);
+      scheduleAllNotifications(allChores, settings, user?.uid);
     }
-  }, [allChores, settings]);
+  }, [allChores, settings, user?.uid]);
 
-  // Filter to chores that are due today or overdue (not future, not completed)
+  // Filter to the user's chore filter, due today or overdue (not future, not completed)
   const todayChores = useMemo(() => {
     const now = new Date();
     const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
 
     return allChores
       .filter((c) => {
+        if (!matchesChoreFilter(c, settings.choreFilter, user?.uid)) return false;
         // Skip chores with no due date (one-off with no deadline)
         if (!c.dueAt) return false;
         const dueDate = c.dueAt.toDate();
@@ -107,7 +118,7 @@ export default function TodayScreen() {
         // Both guaranteed to have dueAt since we filtered nulls above
         return a.dueAt!.toMillis() - b.dueAt!.toMillis();
       });
-  }, [allChores]);
+  }, [allChores, settings.choreFilter, user?.uid]);
 
   const renderChore = useCallback(
     ({ item }: { item: Chore }) => (
@@ -135,6 +146,13 @@ export default function TodayScreen() {
           contentContainerStyle={styles.list}
           refreshing={isRefreshing}
           onRefresh={handleRefresh}
+          ListHeaderComponent={
+            <ChoreFilterControl
+              value={settings.choreFilter}
+              onChange={(choreFilter) => updateSettings({ choreFilter })}
+              style={styles.filter}
+            />
+          }
           ListEmptyComponent={
             <EmptyState
               title="All caught up!"
@@ -148,7 +166,7 @@ export default function TodayScreen() {
 }
 
 /**
- * Wrapper around ChoreCard that provides per-household complete/undo mutations
+ * Wrapper around ChoreCard that provides per-household complete/undo/skip/snooze mutations
  */
 function TodayChoreCard({
   chore,
@@ -163,6 +181,9 @@ function TodayChoreCard({
 }) {
   const completeMutation = useCompleteChore(chore.householdId, userId);
   const undoMutation = useUndoCompletion(chore.householdId, userId);
+  const skipMutation = useSkipOccurrence(chore.householdId, userId);
+  const snoozeMutation = useSnoozeChore(chore.householdId, userId);
+  const { isChorePending } = useSyncStatus();
 
   return (
     <ChoreCard
@@ -171,7 +192,14 @@ function TodayChoreCard({
       onPress={onPress}
       onComplete={() => completeMutation.mutate(chore.id)}
       onUndo={() => undoMutation.mutate(chore.id)}
-      disabled={completeMutation.isPending || undoMutation.isPending}
+      onSkip={() =>
+        promptSkip(chore.name, (reason) => skipMutation.mutate({ choreId: chore.id, reason }))
+      }
+      onSnooze={() =>
+        promptSnooze(chore.name, getDueDate(chore), (until) => snoozeMutation.mutate({ choreId: chore.id, until }))
+      }
+      isPending={isChorePending(chore.id)}
+      disabled={isMutationRunning(completeMutation) || isMutationRunning(undoMutation)}
     />
   );
 }
@@ -180,4 +208,5 @@ const styles = StyleSheet.create({
   container: { flex: 1 },
   center: { flex: 1 },
   list: { padding: 16, paddingBottom: 40 },
+  filter: { marginBottom: 12 },
 });
@@ -5,7 +5,9 @@
 
 import { CreateHouseholdModal } from '@/components/create-household-modal';
 import { InvitationCard } from '@/components/invitation-card';
+import { JoinWithCodeModal } from '@/components/join-with-code-modal';
 import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Chip } from '@/components/ui/chip';
 import { EmptyState } from '@/components/ui/empty-state';
@@ -17,6 +19,7 @@ import { useUserHouseholds } from '@/lib/hooks/use-households';
 import { useAcceptInvite, useDeclineInvite, usePendingInvites } from '@/lib/hooks/use-invites';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useNetworkStatus } from '@/lib/hooks/use-network-status';
+import { useNotificationSettings } from '@/lib/hooks/use-notification-settings';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
 import { useNavigation, useRouter } from 'expo-router';
 import React, { useLayoutEffect, useMemo, useState } from 'react';
@@ -35,6 +38,7 @@ export default function HouseholdsScreen() {
   const backgroundColor = useThemeColor({}, 'background');
   const tintColor = useThemeColor({}, 'tint');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showJoinModal, setShowJoinModal] = useState(false);
   const { isOnline } = useNetworkStatus();
 
   const {
@@ -48,7 +52,8 @@ export default function HouseholdsScreen() {
   const declineMutation = useDeclineInvite(user?.email);
 
   const householdIds = useMemo(() => households.map((h) => h.id), [households]);
-  const { statsMap } = useAllHouseholdChoreStats(user?.uid, householdIds);
+  const { settings } = useNotificationSettings(user?.uid);
+  const { statsMap } = useAllHouseholdChoreStats(user?.uid, householdIds, settings.choreFilter);
 
   // Configure header with add button
   useLayoutEffect(() => {
@@ -189,6 +194,13 @@ export default function HouseholdsScreen() {
               ))}
             </View>
           )}
+
+          <Button
+            title="Join with a code"
+            variant="ghost"
+            onPress={() => setShowJoinModal(true)}
+            style={styles.joinButton}
+          />
         </ScrollView>
       </ThemedView>
 
@@ -197,6 +209,11 @@ export default function HouseholdsScreen() {
         onClose={() => setShowCreateModal(false)}
         userId={user?.uid || ''}
       />
+
+      <JoinWithCodeModal
+        visible={showJoinModal}
+        onClose={() => setShowJoinModal(false)}
+      />
     </>
   );
 }
@@ -225,6 +242,10 @@ const styles = StyleSheet.create({
   householdsList: {
     padding: 20,
   },
+  joinButton: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
   householdHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,32 +1,39 @@
 /**
  * Settings Tab Screen
- * Notification settings and sign-out
+ * Notification settings, sync status, sign-out and account deletion
  */
 
+import { DeleteAccountModal } from '@/components/delete-account-modal';
 import { EmailVerificationBanner } from '@/components/email-verification-banner';
+import { SettingRow } from '@/components/setting-row';
 import { ThemedView } from '@/components/themed-view';
 import { Card } from '@/components/ui/card';
+import { Chip } from '@/components/ui/chip';
 import { LoadingState } from '@/components/ui/loading-state';
 import { Typography } from '@/components/ui/typography';
 import { useNotificationSettings } from '@/lib/hooks/use-notification-settings';
+import { usePendingChanges } from '@/lib/hooks/use-pending-changes';
+import { useSyncStatus } from '@/lib/hooks/use-sync-status';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
 import { useTheme } from '@/lib/contexts/theme-context';
 import {
   cancelAllNotifications,
+  getHouseholdNotificationSettings,
   requestPermissions,
   scheduleAllNotifications,
 } from '@/lib/services/notification-service';
+import { HouseholdNotificationSettings } from '@/lib/types/user';
 import { signOut } from '@/lib/services/auth-service';
 import { useAuth } from '@/lib/hooks/use-auth';
 import { useTodayChores } from '@/lib/hooks/use-chores';
 import { useUserHouseholds } from '@/lib/hooks/use-households';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useState } from 'react';
 import {
   Alert,
   ScrollView,
   StyleSheet,
-  Switch,
   TouchableOpacity,
   View,
 } from 'react-native';
@@ -37,6 +44,47 @@ const TIME_OPTIONS = [
   '16:00', '17:00', '18:00', '19:00', '20:00',
 ];
 
+/** Quiet hours start and end times offered */
+const QUIET_HOURS_START_OPTIONS = ['20:00', '21:00', '22:00', '23:00'];
+const QUIET_HOURS_END_OPTIONS = ['06:00', '07:00', '08:00', '09:00'];
+
+/** Overdue follow-up cadences offered, as `overdueDailyDays` / `overdueRepeatDays` */
+const OVERDUE_CADENCE_OPTIONS: { label: string; dailyDays: number; repeatDays: number }[] = [
+  { label: 'Daily for 3 days, then every 3 days', dailyDays: 3, repeatDays: 3 },
+  { label: 'Every day', dailyDays: 0, repeatDays: 1 },
+  { label: 'Daily for 3 days', dailyDays: 3, repeatDays: 0 },
+  { label: 'Every week', dailyDays: 0, repeatDays: 7 },
+];
+
+function describeSyncStatus(
+  isOnline: boolean,
+  pendingChoreCount: number,
+  lastSyncedAt: Date | null
+): string {
+  const chores = `${pendingChoreCount} chore${pendingChoreCount === 1 ? '' : 's'}`;
+  if (!isOnline) {
+    return pendingChoreCount > 0 ? `Offline · ${chores} waiting to sync` : 'Offline';
+  }
+  if (pendingChoreCount > 0) return `Syncing ${chores}...`;
+  if (!lastSyncedAt) return 'Waiting for the server...';
+  return `All changes synced · ${lastSyncedAt.toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  })}`;
+}
+
+function describeHouseholdNotifications(household: HouseholdNotificationSettings): string {
+  if (!household.enabled) return 'Muted';
+  const allTypes =
+    household.dailyReminderEnabled &&
+    household.choreAlertsEnabled &&
+    household.overdueRemindersEnabled;
+  if (household.onlyAssignedToMe) {
+    return allTypes ? 'Only chores assigned to me' : 'Some alerts, only my chores';
+  }
+  return allTypes ? 'All notifications' : 'Some alerts';
+}
+
 function formatTime(time: string): string {
   const [h, m] = time.split(':').map(Number);
   const ampm = h >= 12 ? 'PM' : 'AM';
@@ -52,12 +100,15 @@ export default function SettingsScreen() {
   const accentTextColor = useThemeColor({}, 'badgeText');
   const textColor = useThemeColor({}, 'text');
   const dangerColor = useThemeColor({}, 'error');
-  const buttonBackground = useThemeColor({}, 'buttonBackground');
   const iconColor = useThemeColor({}, 'icon');
-  const { settings, updateSettings, loading } = useNotificationSettings();
+  const { user } = useAuth();
+  const { settings, updateSettings, loading } = useNotificationSettings(user?.uid);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+  const { isOnline, pendingChoreCount, lastSyncedAt } = useSyncStatus();
+  const { changes: pendingChanges } = usePendingChanges();
+  const router = useRouter();
 
-  const { user } = useAuth();
   const { data: households = [] } = useUserHouseholds(user?.uid);
   const householdIds = useMemo(() => households.map((h) => h.id), [households]);
   const { data: chores = [] } = useTodayChores(user?.uid, householdIds);
@@ -65,12 +116,12 @@ export default function SettingsScreen() {
   const resync = useCallback(
     async (newSettings: typeof settings) => {
       if (newSettings.enabled) {
-        await scheduleAllNotifications(chores, newSettings);
+        await scheduleAllNotifications(chores, newSettings, user?.uid);
       } else {
         await cancelAllNotifications();
       }
     },
-    [chores]
+    [chores, user?.uid]
   );
 
   const handleToggleEnabled = useCallback(
@@ -107,6 +158,41 @@ export default function SettingsScreen() {
     [updateSettings, resync]
   );
 
+  const handleToggleOverdueReminders = useCallback(
+    async (value: boolean) => {
+      const next = await updateSettings({ overdueRemindersEnabled: value });
+      await resync(next);
+    },
+    [updateSettings, resync]
+  );
+
+  const handleOverdueCadenceSelect = useCallback(
+    async (dailyDays: number, repeatDays: number) => {
+      const next = await updateSettings({
+        overdueDailyDays: dailyDays,
+        overdueRepeatDays: repeatDays,
+      });
+      await resync(next);
+    },
+    [updateSettings, resync]
+  );
+
+  const handleToggleQuietHours = useCallback(
+    async (value: boolean) => {
+      const next = await updateSettings({ quietHoursEnabled: value });
+      await resync(next);
+    },
+    [updateSettings, resync]
+  );
+
+  const handleQuietHoursSelect = useCallback(
+    async (updates: { quietHoursStart?: string; quietHoursEnd?: string }) => {
+      const next = await updateSettings(updates);
+      await resync(next);
+    },
+    [updateSettings, resync]
+  );
+
   const handleTimeSelect = useCallback(
     async (time: string) => {
       setShowTimePicker(false);
@@ -149,10 +235,6 @@ export default function SettingsScreen() {
             description={`Currently using ${theme === 'dark' ? 'dark' : 'light'} mode`}
             value={theme === 'dark'}
             onToggle={toggleTheme}
-            accentColor={accentColor}
-            inactiveTrackColor={buttonBackground}
-            thumbColor={backgroundColor}
-            inactiveThumbColor={iconColor}
           />
         </Card>
 
@@ -167,10 +249,6 @@ export default function SettingsScreen() {
               description="Allow the app to send you notifications"
               value={settings.enabled}
               onToggle={handleToggleEnabled}
-              accentColor={accentColor}
-              inactiveTrackColor={buttonBackground}
-              thumbColor={backgroundColor}
-              inactiveThumbColor={iconColor}
             />
           </Card>
 
@@ -183,13 +261,9 @@ export default function SettingsScreen() {
               <Card>
                 <SettingRow
                   label="Daily Reminder"
-                  description="Get a daily reminder to check your chores"
+                  description="A summary of overdue and due-today chores, only on days with something to do"
                   value={settings.dailyReminderEnabled}
                   onToggle={handleToggleDailyReminder}
-                  accentColor={accentColor}
-                  inactiveTrackColor={buttonBackground}
-                  thumbColor={backgroundColor}
-                  inactiveThumbColor={iconColor}
                 />
                 {settings.dailyReminderEnabled && (
                   <View style={[styles.timeRow, { borderTopColor: borderColor }]}>
@@ -243,18 +317,146 @@ export default function SettingsScreen() {
               <Card>
                 <SettingRow
                   label="Due Date Alerts"
-                  description="Get notified at 8:00 AM when a chore is due"
+                  description="Get reminded before chores are due, as set on each chore"
                   value={settings.choreAlertsEnabled}
                   onToggle={handleToggleChoreAlerts}
-                  accentColor={accentColor}
-                  inactiveTrackColor={buttonBackground}
-                  thumbColor={backgroundColor}
-                  inactiveThumbColor={iconColor}
                 />
+                {settings.choreAlertsEnabled && (
+                  <View style={[styles.cardSection, { borderTopColor: borderColor }]}>
+                    <SettingRow
+                      label="Overdue Follow-ups"
+                      description="Keep reminding me about chores that are still open after they're due"
+                      value={settings.overdueRemindersEnabled}
+                      onToggle={handleToggleOverdueReminders}
+                    />
+                    {settings.overdueRemindersEnabled && (
+                      <View style={styles.chips}>
+                        {OVERDUE_CADENCE_OPTIONS.map((option) => (
+                          <Chip
+                            key={option.label}
+                            label={option.label}
+                            selected={
+                              option.dailyDays === settings.overdueDailyDays &&
+                              option.repeatDays === settings.overdueRepeatDays
+                            }
+                            onPress={() =>
+                              handleOverdueCadenceSelect(option.dailyDays, option.repeatDays)
+                            }
+                          />
+                        ))}
+                      </View>
+                    )}
+                  </View>
+                )}
+              </Card>
+
+              {/* Quiet hours section */}
+              <Typography variant="sectionTitle" style={styles.sectionTitle}>
+                Quiet Hours
+              </Typography>
+              <Card>
+                <SettingRow
+                  label="Quiet Hours"
+                  description="Hold notifications overnight and deliver them when quiet hours end"
+                  value={settings.quietHoursEnabled}
+                  onToggle={handleToggleQuietHours}
+                />
+                {settings.quietHoursEnabled && (
+                  <View style={[styles.cardSection, { borderTopColor: borderColor }]}>
+                    <Typography>From</Typography>
+                    <View style={styles.chips}>
+                      {QUIET_HOURS_START_OPTIONS.map((time) => (
+                        <Chip
+                          key={time}
+                          label={formatTime(time)}
+                          selected={time === settings.quietHoursStart}
+                          onPress={() => handleQuietHoursSelect({ quietHoursStart: time })}
+                        />
+                      ))}
+                    </View>
+                    <Typography>Until</Typography>
+                    <View style={styles.chips}>
+                      {QUIET_HOURS_END_OPTIONS.map((time) => (
+                        <Chip
+                          key={time}
+                          label={formatTime(time)}
+                          selected={time === settings.quietHoursEnd}
+                          onPress={() => handleQuietHoursSelect({ quietHoursEnd: time })}
+                        />
+                      ))}
+                    </View>
+                  </View>
+                )}
               </Card>
+
+              {/* Per-household overrides, edited on each household's settings screen */}
+              {households.length > 0 && (
+                <>
+                  <Typography variant="sectionTitle" style={styles.sectionTitle}>
+                    Households
+                  </Typography>
+                  <Card>
+                    {households.map((household, index) => (
+                      <TouchableOpacity
+                        key={household.id}
+                        onPress={() => router.push(`/households/${household.id}/settings`)}
+                        style={[
+                          styles.settingRow,
+                          index > 0 && [styles.timeRow, { borderTopColor: borderColor }],
+                        ]}
+                      >
+                        <View style={styles.settingText}>
+                          <Typography variant="bodySemiBold">{household.name}</Typography>
+                          <Typography variant="caption" muted>
+                            {describeHouseholdNotifications(
+                              getHouseholdNotificationSettings(settings, household.id)
+                            )}
+                          </Typography>
+                        </View>
+                        <Ionicons name="chevron-forward" size={20} color={iconColor} />
+                      </TouchableOpacity>
+                    ))}
+                  </Card>
+                </>
+              )}
             </>
           )}
 
+          {/* Sync status */}
+          <Typography variant="sectionTitle" style={styles.sectionTitle}>
+            Sync
+          </Typography>
+          <Card>
+            <View style={styles.settingRow}>
+              <View style={styles.settingText}>
+                <Typography variant="bodySemiBold">Sync Status</Typography>
+                <Typography variant="caption" muted>
+                  {describeSyncStatus(isOnline, pendingChoreCount, lastSyncedAt)}
+                </Typography>
+              </View>
+              <Ionicons
+                name={pendingChoreCount > 0 ? 'cloud-upload-outline' : 'cloud-done-outline'}
+                size={22}
+                color={iconColor}
+              />
+            </View>
+            {pendingChanges.length > 0 && (
+              <TouchableOpacity
+                onPress={() => router.push('/pending-changes')}
+                style={[styles.timeRow, { borderTopColor: borderColor }]}
+              >
+                <View style={styles.settingText}>
+                  <Typography variant="bodySemiBold">Pending Changes</Typography>
+                  <Typography variant="caption" muted>
+                    {pendingChanges.length} change{pendingChanges.length === 1 ? '' : 's'} queued
+                    while offline
+                  </Typography>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={iconColor} />
+              </TouchableOpacity>
+            )}
+          </Card>
+
           {/* Sign Out */}
           <View style={styles.signOutSection}>
             <TouchableOpacity
@@ -266,46 +468,26 @@ export default function SettingsScreen() {
                 Sign Out
               </Typography>
             </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setShowDeleteAccount(true)}
+              style={styles.deleteAccountButton}
+            >
+              <Typography variant="caption" style={{ color: dangerColor }}>
+                Delete Account
+              </Typography>
+            </TouchableOpacity>
           </View>
         </ThemedView>
-    </ScrollView>
-  );
-}
 
-function SettingRow({
-  label,
-  description,
-  value,
-  onToggle,
-  accentColor,
-  inactiveTrackColor,
-  thumbColor,
-  inactiveThumbColor,
-}: {
-  label: string;
-  description: string;
-  value: boolean;
-  onToggle: (value: boolean) => void;
-  accentColor: string;
-  inactiveTrackColor: string;
-  thumbColor: string;
-  inactiveThumbColor: string;
-}) {
-  return (
-    <View style={styles.settingRow}>
-      <View style={styles.settingText}>
-        <Typography variant="bodySemiBold">{label}</Typography>
-        <Typography variant="caption" muted>
-          {description}
-        </Typography>
-      </View>
-      <Switch
-        value={value}
-        onValueChange={onToggle}
-        trackColor={{ false: inactiveTrackColor, true: accentColor }}
-        thumbColor={value ? thumbColor : inactiveThumbColor}
-      />
-    </View>
+      {user && (
+        <DeleteAccountModal
+          visible={showDeleteAccount}
+          onClose={() => setShowDeleteAccount(false)}
+          userId={user.uid}
+          households={households}
+        />
+      )}
+    </ScrollView>
   );
 }
 
@@ -329,6 +511,13 @@ const styles = StyleSheet.create({
     marginTop: 14,
     borderTopWidth: 1,
   },
+  cardSection: {
+    gap: 12,
+    paddingTop: 14,
+    marginTop: 14,
+    borderTopWidth: 1,
+  },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
   timeBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -356,4 +545,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  deleteAccountButton: {
+    alignSelf: 'center',
+    marginTop: 20,
+    padding: 8,
+  },
 });
@@ -1,21 +1,35 @@
 import { ErrorBoundary } from '@/components/error-boundary';
+import { ToastHost } from '@/components/ui/toast-host';
 import { AuthProvider, useAuthContext } from '@/lib/contexts/auth-context';
 import { SyncProvider } from '@/lib/contexts/sync-context';
 import { ThemeProvider as CustomThemeProvider, useTheme } from '@/lib/contexts/theme-context';
+import { handleNotificationResponse } from '@/lib/notification-responses';
 import { queryClient } from '@/lib/query-client';
+import { persistQueryCache } from '@/lib/query-persistence';
 import {
     configureNotificationHandler,
+    registerNotificationCategories,
     requestPermissions,
 } from '@/lib/services/notification-service';
+import {
+    onPushOpened,
+    registerForPushNotifications,
+    showForegroundPushes,
+} from '@/lib/services/push-service';
 import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
 import { QueryClientProvider } from '@tanstack/react-query';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { Stack, useGlobalSearchParams, useRouter, useSegments } from 'expo-router';
+import * as Notifications from 'expo-notifications';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
-// Configure notification handler once at module level
+// Configure notification handler and chore actions once at module level
 configureNotificationHandler();
+registerNotificationCategories();
+showForegroundPushes();
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -25,9 +39,45 @@ function RootLayoutNav() {
   const { theme } = useTheme();
   const { user, loading } = useAuthContext();
   const segments = useSegments();
+  const globalParams = useGlobalSearchParams<{ code?: string }>();
   const router = useRouter();
 
+  const userId = user?.uid;
+
+  // Restore the signed-in user's cached queries so a cold start shows data straight away
+  useEffect(() => {
+    if (!userId) return;
+    return persistQueryCache(userId);
+  }, [userId]);
+
+  // Act on notification taps and Done / Snooze buttons, including the one that
+  // launched the app. Responses wait until someone is signed in.
+  const lastNotificationResponse = Notifications.useLastNotificationResponse();
+  useEffect(() => {
+    if (!userId || !lastNotificationResponse) return;
+    Notifications.clearLastNotificationResponse();
+    handleNotificationResponse(lastNotificationResponse, userId, (householdId, choreId) =>
+      router.push(`/households/${householdId}/chore/${choreId}`)
+    );
+  }, [lastNotificationResponse, userId, router]);
+
+  // Register this device for pushes from other members, and open the chore a
+  // tapped push is about
+  useEffect(() => {
+    if (!userId) return;
+    const unregister = registerForPushNotifications(userId);
+    const unsubscribe = onPushOpened((householdId, choreId) =>
+      router.push(`/households/${householdId}/chore/${choreId}`)
+    );
+    return () => {
+      unregister();
+      unsubscribe();
+    };
+  }, [userId, router]);
+
   const permissionsRequested = useRef(false);
+  // Join link opened while signed out; resumed after sign-in
+  const pendingJoinCode = useRef<string | null>(null);
 
   useEffect(() => {
     if (loading) return;
@@ -35,9 +85,17 @@ function RootLayoutNav() {
     const inAuthGroup = segments[0] === '(auth)';
 
     if (!user && !inAuthGroup) {
+      if (segments[0] === 'join' && typeof globalParams.code === 'string') {
+        pendingJoinCode.current = globalParams.code;
+      }
       router.replace('/(auth)/sign-in');
     } else if (user && inAuthGroup) {
-      router.replace('/');
+      if (pendingJoinCode.current) {
+        router.replace(`/join/${pendingJoinCode.current}`);
+        pendingJoinCode.current = null;
+      } else {
+        router.replace('/');
+      }
     }
 
     // Request notification permissions once when user first authenticates
@@ -45,7 +103,7 @@ function RootLayoutNav() {
       permissionsRequested.current = true;
       requestPermissions();
     }
-  }, [router, user, loading, segments]);
+  }, [router, user, loading, segments, globalParams.code]);
 
   return (
     <NavigationThemeProvider value={theme === 'dark' ? DarkTheme : DefaultTheme}>
@@ -53,8 +111,11 @@ function RootLayoutNav() {
         <Stack.Screen name="(auth)" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="calendar" options={{ title: 'Calendar' }} />
+        <Stack.Screen name="join/[code]" options={{ title: 'Join Household' }} />
+        <Stack.Screen name="pending-changes" options={{ title: 'Pending Changes' }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
+      <ToastHost />
       <StatusBar style="auto" />
     </NavigationThemeProvider>
   );
@@ -62,16 +123,22 @@ function RootLayoutNav() {
 
 export default function RootLayout() {
   return (
-    <ErrorBoundary>
-      <QueryClientProvider client={queryClient}>
-        <CustomThemeProvider>
-          <AuthProvider>
-            <SyncProvider>
-              <RootLayoutNav />
-            </SyncProvider>
-          </AuthProvider>
-        </CustomThemeProvider>
-      </QueryClientProvider>
-    </ErrorBoundary>
+    <GestureHandlerRootView style={styles.root}>
+      <ErrorBoundary>
+        <QueryClientProvider client={queryClient}>
+          <CustomThemeProvider>
+            <AuthProvider>
+              <SyncProvider>
+                <RootLayoutNav />
+              </SyncProvider>
+            </AuthProvider>
+          </CustomThemeProvider>
+        </QueryClientProvider>
+      </ErrorBoundary>
+    </GestureHandlerRootView>
   );
 }
+
+const styles = StyleSheet.create({
+  root: { flex: 1 },
+});
@@ -1,9 +1,12 @@
 /**
  * Calendar View Screen
- * Monthly calendar showing chores across all user households with day detail
+ * Monthly calendar showing chores across all user households with day detail.
+ * Recurring chores also show their projected future occurrences, following
+ * each chore's anchor mode (fixed schedule vs. from completion).
  */
 
 import { ChoreCard } from '@/components/chore-card';
+import { ChoreFilterControl } from '@/components/chore-filter-control';
 import { ThemedView } from '@/components/themed-view';
 import { EmptyState } from '@/components/ui/empty-state';
 import { LoadingState } from '@/components/ui/loading-state';
@@ -12,13 +15,26 @@ import { useTheme } from '@/lib/contexts/theme-context';
 import { useAuth } from '@/lib/hooks/use-auth';
 import {
   useCompleteChore,
+  useSkipOccurrence,
+  useSnoozeChore,
   useTodayChores,
   useUndoCompletion,
 } from '@/lib/hooks/use-chores';
 import { useUserHouseholds } from '@/lib/hooks/use-households';
+import { useNotificationSettings } from '@/lib/hooks/use-notification-settings';
+import { useSyncStatus } from '@/lib/hooks/use-sync-status';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
-import { isChoreOverdue } from '@/lib/services/chore-service';
+import { isMutationRunning } from '@/lib/mutation-queue';
+import {
+  getDueDate,
+  getProjectedDueDates,
+  getScheduleAnchor,
+  isChoreOverdue,
+  matchesChoreFilter,
+} from '@/lib/services/chore-service';
 import { Chore } from '@/lib/types/chore';
+import { promptSkip, promptSnooze } from '@/lib/utils/occurrence-prompts';
+import { Timestamp } from '@react-native-firebase/firestore';
 import { Stack, useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useState } from 'react';
 import { FlatList, StyleSheet, View } from 'react-native';
@@ -31,6 +47,13 @@ function toDateString(date: Date): string {
   return `${y}-${m}-${d}`;
 }
 
+/** A chore on the selected day: either its real due date or a projected future occurrence. */
+interface DayChore {
+  key: string;
+  chore: Chore;
+  projected: boolean;
+}
+
 export default function CalendarScreen() {
   const { user } = useAuth();
   const router = useRouter();
@@ -40,9 +63,14 @@ export default function CalendarScreen() {
   const tintColor = useThemeColor({}, 'tint');
   const errorColor = useThemeColor({}, 'error');
   const borderColor = useThemeColor({}, 'border');
+  const iconColor = useThemeColor({}, 'icon');
 
   const todayStr = toDateString(new Date());
   const [selectedDate, setSelectedDate] = useState(todayStr);
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1 };
+  });
 
   const { data: households = [] } = useUserHouseholds(user?.uid);
   const householdIds = useMemo(() => households.map((h) => h.id), [households]);
@@ -52,7 +80,32 @@ export default function CalendarScreen() {
     return map;
   }, [households]);
 
-  const { data: allChores = [], isLoading } = useTodayChores(user?.uid, householdIds);
+  const { data: householdChores = [], isLoading } = useTodayChores(user?.uid, householdIds);
+  const { settings, updateSettings } = useNotificationSettings(user?.uid);
+
+  // Only the chores passing the user's chore filter get markers and day listings
+  const allChores = useMemo(
+    () =>
+      householdChores.filter((chore) => matchesChoreFilter(chore, settings.choreFilter, user?.uid)),
+    [householdChores, settings.choreFilter, user?.uid]
+  );
+
+  // Future occurrences of recurring chores through the end of the visible
+  // month, keyed by date. Each is a copy of the chore with dueAt moved.
+  const projectedByDate = useMemo(() => {
+    const until = new Date(visibleMonth.year, visibleMonth.month, 0, 23, 59, 59);
+    const byDate: Record<string, Chore[]> = {};
+    for (const chore of allChores) {
+      const scheduled = getScheduleAnchor(chore);
+      if (!scheduled) continue;
+      for (const date of getProjectedDueDates(scheduled.toDate(), chore.interval, until)) {
+        const dateStr = toDateString(date);
+        if (!byDate[dateStr]) byDate[dateStr] = [];
+        byDate[dateStr].push({ ...chore, dueAt: Timestamp.fromDate(date), lastCompletion: undefined });
+      }
+    }
+    return byDate;
+  }, [allChores, visibleMonth]);
 
   // Build markedDates for the calendar (multi-dot)
   const markedDates = useMemo(() => {
@@ -73,17 +126,24 @@ export default function CalendarScreen() {
       }
     }
 
+    for (const dateStr of Object.keys(projectedByDate)) {
+      if (!marks[dateStr]) marks[dateStr] = { dots: [] };
+      if (!marks[dateStr].dots.some((d) => d.color === iconColor)) {
+        marks[dateStr].dots.push({ key: `${dateStr}-projected`, color: iconColor });
+      }
+    }
+
     // Mark selected date
     if (!marks[selectedDate]) marks[selectedDate] = { dots: [] };
     marks[selectedDate].selected = true;
     marks[selectedDate].selectedColor = tintColor;
 
     return marks;
-  }, [allChores, selectedDate, errorColor, tintColor]);
+  }, [allChores, projectedByDate, selectedDate, errorColor, tintColor, iconColor]);
 
-  // Filter chores for the selected date
-  const selectedChores = useMemo(() => {
-    return allChores
+  // Filter chores for the selected date; real due dates first, then projections
+  const selectedChores = useMemo((): DayChore[] => {
+    const due = allChores
       .filter((c) => c.dueAt && toDateString(c.dueAt.toDate()) === selectedDate)
       .sort((a, b) => {
         const aOverdue = isChoreOverdue(a);
@@ -91,13 +151,24 @@ export default function CalendarScreen() {
         if (aOverdue && !bOverdue) return -1;
         if (!aOverdue && bOverdue) return 1;
         return a.dueAt!.toMillis() - b.dueAt!.toMillis();
-      });
-  }, [allChores, selectedDate]);
+      })
+      .map((chore) => ({ key: chore.id, chore, projected: false }));
+    const projected = (projectedByDate[selectedDate] ?? []).map((chore) => ({
+      key: `${chore.id}@${selectedDate}`,
+      chore,
+      projected: true,
+    }));
+    return [...due, ...projected];
+  }, [allChores, projectedByDate, selectedDate]);
 
   const handleDayPress = useCallback((day: DateData) => {
     setSelectedDate(day.dateString);
   }, []);
 
+  const handleMonthChange = useCallback((month: DateData) => {
+    setVisibleMonth({ year: month.year, month: month.month });
+  }, []);
+
   const calendarTheme = useMemo(
     () => ({
       calendarBackground: backgroundColor,
@@ -113,14 +184,21 @@ export default function CalendarScreen() {
   );
 
   const renderChore = useCallback(
-    ({ item }: { item: Chore }) => (
-      <CalendarChoreCard
-        chore={item}
-        householdName={householdMap[item.householdId]}
-        userId={user?.uid ?? ''}
-        onPress={() => router.push(`/households/${item.householdId}/chore/${item.id}`)}
-      />
-    ),
+    ({ item }: { item: DayChore }) => {
+      const { chore } = item;
+      const onPress = () => router.push(`/households/${chore.householdId}/chore/${chore.id}`);
+      // Projected occurrences can't be completed ahead of the current one
+      return item.projected ? (
+        <ChoreCard chore={chore} householdName={householdMap[chore.householdId]} onPress={onPress} />
+      ) : (
+        <CalendarChoreCard
+          chore={chore}
+          householdName={householdMap[chore.householdId]}
+          userId={user?.uid ?? ''}
+          onPress={onPress}
+        />
+      );
+    },
     [householdMap, user?.uid, router]
   );
 
@@ -134,9 +212,15 @@ export default function CalendarScreen() {
     <>
       <Stack.Screen options={{ title: 'Calendar', headerBackTitle: 'Today' }} />
       <ThemedView style={[styles.container, { backgroundColor }]}>
+        <ChoreFilterControl
+          value={settings.choreFilter}
+          onChange={(choreFilter) => updateSettings({ choreFilter })}
+          style={styles.filter}
+        />
         <Calendar
           current={selectedDate}
           onDayPress={handleDayPress}
+          onMonthChange={handleMonthChange}
           markedDates={markedDates}
           markingType="multi-dot"
           enableSwipeMonths
@@ -154,7 +238,7 @@ export default function CalendarScreen() {
           ) : (
             <FlatList
               data={selectedChores}
-              keyExtractor={(item) => item.id}
+              keyExtractor={(item) => item.key}
               renderItem={renderChore}
               contentContainerStyle={styles.list}
               ListEmptyComponent={
@@ -181,6 +265,9 @@ function CalendarChoreCard({
 }) {
   const completeMutation = useCompleteChore(chore.householdId, userId);
   const undoMutation = useUndoCompletion(chore.householdId, userId);
+  const skipMutation = useSkipOccurrence(chore.householdId, userId);
+  const snoozeMutation = useSnoozeChore(chore.householdId, userId);
+  const { isChorePending } = useSyncStatus();
 
   return (
     <ChoreCard
@@ -189,13 +276,21 @@ function CalendarChoreCard({
       onPress={onPress}
       onComplete={() => completeMutation.mutate(chore.id)}
       onUndo={() => undoMutation.mutate(chore.id)}
-      disabled={completeMutation.isPending || undoMutation.isPending}
+      onSkip={() =>
+        promptSkip(chore.name, (reason) => skipMutation.mutate({ choreId: chore.id, reason }))
+      }
+      onSnooze={() =>
+        promptSnooze(chore.name, getDueDate(chore), (until) => snoozeMutation.mutate({ choreId: chore.id, until }))
+      }
+      isPending={isChorePending(chore.id)}
+      disabled={isMutationRunning(completeMutation) || isMutationRunning(undoMutation)}
     />
   );
 }
 
 const styles = StyleSheet.create({
   container: { flex: 1 },
+  filter: { marginHorizontal: 16, marginTop: 12 },
   calendar: { borderBottomWidth: 1 },
   dayDetail: { flex: 1 },
   dayLabel: { paddingHorizontal: 16, paddingTop: 14, paddingBottom: 6 },
@@ -0,0 +1,100 @@
+/**
+ * Household Activity Screen
+ * Who did what in a household, newest first, loading older entries on scroll
+ */
+
+import { ActivityItem } from '@/components/activity-item';
+import { ThemedView } from '@/components/themed-view';
+import { EmptyState } from '@/components/ui/empty-state';
+import { LoadingState } from '@/components/ui/loading-state';
+import { useHouseholdActivity } from '@/lib/hooks/use-activity';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { useUserProfiles } from '@/lib/hooks/use-users';
+import { ActivityEntry } from '@/lib/types/activity';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import { FlatList, StyleSheet } from 'react-native';
+
+export default function HouseholdActivityScreen() {
+  const { id: householdId } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const backgroundColor = useThemeColor({}, 'background');
+
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useHouseholdActivity(householdId);
+  const entries = useMemo(() => data?.pages.flatMap((page) => page.entries) ?? [], [data]);
+
+  // Former members still appear in the feed, so look up everyone named in it
+  const userIds = useMemo(
+    () => [...new Set(entries.flatMap((e) => (e.userId ? [e.actorId, e.userId] : [e.actorId])))],
+    [entries]
+  );
+  const { profiles } = useUserProfiles(userIds);
+  const getMemberName = useCallback(
+    (userId: string) => profiles[userIds.indexOf(userId)]?.displayName ?? 'Someone',
+    [profiles, userIds]
+  );
+
+  const renderEntry = useCallback(
+    ({ item }: { item: ActivityEntry }) => (
+      <ActivityItem
+        entry={item}
+        getMemberName={getMemberName}
+        onPress={
+          item.choreId && item.type !== 'choreDeleted'
+            ? () => router.push(`/households/${householdId}/chore/${item.choreId}`)
+            : undefined
+        }
+      />
+    ),
+    [getMemberName, householdId, router]
+  );
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Activity', headerBackTitle: 'Chores' }} />
+      <ThemedView style={[styles.container, { backgroundColor }]}>
+        {isLoading ? (
+          <LoadingState message="Loading activity..." style={styles.center} />
+        ) : (
+          <FlatList
+            data={entries}
+            keyExtractor={(item) => item.id}
+            renderItem={renderEntry}
+            contentContainerStyle={styles.list}
+            refreshing={isRefetching && !isFetchingNextPage}
+            onRefresh={refetch}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isFetchingNextPage ? <LoadingState message="" size="small" /> : null
+            }
+            ListEmptyComponent={
+              <EmptyState
+                title="No activity yet"
+                message="Completions, chore edits, room changes and new members will show up here."
+              />
+            }
+          />
+        )}
+      </ThemedView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1 },
+  list: { paddingHorizontal: 16, paddingBottom: 24 },
+});
@@ -4,6 +4,7 @@
  */
 
 import { ChoreEditForm } from '@/components/chore-edit-form';
+import { ChoreHistoryList } from '@/components/chore-history-list';
 import { ThemedView } from '@/components/themed-view';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -12,8 +13,11 @@ import { Typography } from '@/components/ui/typography';
 import { useAuth } from '@/lib/hooks/use-auth';
 import {
   useChore,
+  useChoreCompletions,
   useCompleteChore,
   useDeleteChore,
+  useSkipOccurrence,
+  useSnoozeChore,
   useUndoCompletion,
   useUpdateChore,
 } from '@/lib/hooks/use-chores';
@@ -21,11 +25,27 @@ import { useHouseholdMembers } from '@/lib/hooks/use-households';
 import { useHouseholdRooms } from '@/lib/hooks/use-rooms';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
 import { useUserProfiles } from '@/lib/hooks/use-users';
+import { isMutationRunning, mutateOrQueue } from '@/lib/mutation-queue';
 import {
+  getDueDate,
   getUpcomingDueDates,
   isChoreOverdue,
 } from '@/lib/services/chore-service';
-import { ChoreUpdateInput, IntervalType } from '@/lib/types/chore';
+import {
+  AssigneeRotation,
+  Chore,
+  ChoreUpdateInput,
+  IntervalAnchor,
+  IntervalType,
+  RecurrenceRule,
+} from '@/lib/types/chore';
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  describeReminderOffset,
+  formatTimeOfDay,
+} from '@/lib/utils/due-time';
+import { promptSkip, promptSnooze } from '@/lib/utils/occurrence-prompts';
+import { describeInterval } from '@/lib/utils/recurrence';
 import { useHeaderHeight } from '@react-navigation/elements';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { Timestamp } from '@react-native-firebase/firestore';
@@ -39,15 +59,6 @@ import {
   View,
 } from 'react-native';
 
-const INTERVAL_LABELS: Record<IntervalType, string> = {
-  once: 'One-off',
-  daily: 'Daily',
-  weekly: 'Weekly',
-  monthly: 'Monthly',
-  yearly: 'Yearly',
-  custom: 'Custom',
-};
-
 export default function ChoreDetailScreen() {
   const { id: householdId, choreId } = useLocalSearchParams<{
     id: string;
@@ -61,6 +72,7 @@ export default function ChoreDetailScreen() {
   const errorColor = useThemeColor({}, 'error');
 
   const { data: chore, isLoading } = useChore(choreId);
+  const { data: completions = [] } = useChoreCompletions(choreId);
   const { data: members = [] } = useHouseholdMembers(householdId);
   const memberUserIds = useMemo(() => members.map((m) => m.userId), [members]);
   const { profiles } = useUserProfiles(memberUserIds);
@@ -68,6 +80,8 @@ export default function ChoreDetailScreen() {
 
   const completeMutation = useCompleteChore(householdId ?? '', user?.uid ?? '');
   const undoMutation = useUndoCompletion(householdId ?? '', user?.uid ?? '');
+  const skipMutation = useSkipOccurrence(householdId ?? '', user?.uid ?? '');
+  const snoozeMutation = useSnoozeChore(householdId ?? '', user?.uid ?? '');
   const updateMutation = useUpdateChore(choreId ?? '', householdId ?? '', user?.uid);
   const deleteMutation = useDeleteChore(householdId ?? '', user?.uid);
 
@@ -77,9 +91,14 @@ export default function ChoreDetailScreen() {
   const [editDesc, setEditDesc] = useState('');
   const [editIntervalType, setEditIntervalType] = useState<IntervalType>('weekly');
   const [editIntervalValue, setEditIntervalValue] = useState('1');
+  const [editRule, setEditRule] = useState<RecurrenceRule | undefined>();
+  const [editAnchor, setEditAnchor] = useState<IntervalAnchor>('floating');
   const [editAssignedTo, setEditAssignedTo] = useState<string | undefined>();
+  const [editRotation, setEditRotation] = useState<AssigneeRotation | undefined>();
   const [editRoomId, setEditRoomId] = useState<string | undefined>();
   const [editDueDate, setEditDueDate] = useState<Date | null>(null);
+  const [editDueTime, setEditDueTime] = useState<string | undefined>();
+  const [editReminderOffsets, setEditReminderOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
 
   const startEditing = () => {
     if (!chore) return;
@@ -87,9 +106,14 @@ export default function ChoreDetailScreen() {
     setEditDesc(chore.description ?? '');
     setEditIntervalType(chore.interval.type);
     setEditIntervalValue(String(chore.interval.value));
+    setEditRule(chore.interval.rule);
+    setEditAnchor(chore.interval.anchor ?? 'floating');
     setEditAssignedTo(chore.assignedTo);
+    setEditRotation(chore.rotation);
     setEditRoomId(chore.roomId);
     setEditDueDate(chore.dueAt ? chore.dueAt.toDate() : null);
+    setEditDueTime(chore.dueTime);
+    setEditReminderOffsets(chore.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS);
     setEditing(true);
   };
 
@@ -102,14 +126,25 @@ export default function ChoreDetailScreen() {
     }
     const isOneOff = editIntervalType === 'once';
     const parsedValue = isOneOff ? 1 : Math.max(1, parseInt(editIntervalValue, 10) || 1);
+    const rotation = !isOneOff && editRotation?.memberIds.length ? editRotation : undefined;
 
     try {
       const updates: ChoreUpdateInput = {
         name: trimmedName,
         description: editDesc.trim() || undefined,
-        assignedTo: editAssignedTo,
+        // A rotating chore is always assigned to someone in the rotation
+        assignedTo:
+          rotation && !rotation.memberIds.includes(editAssignedTo ?? '')
+            ? rotation.memberIds[0]
+            : editAssignedTo,
+        rotation,
         roomId: editRoomId,
-        interval: { type: editIntervalType, value: parsedValue },
+        interval: {
+          type: editIntervalType,
+          value: parsedValue,
+          rule: editRule,
+          anchor: isOneOff ? undefined : editAnchor,
+        },
       };
 
       // Always send the edited dueAt (user may have overridden it)
@@ -118,25 +153,43 @@ export default function ChoreDetailScreen() {
       } else {
         updates.dueAt = editDueDate ? Timestamp.fromDate(editDueDate) : undefined;
       }
+      const hasDueDate = !isOneOff || !!editDueDate;
+      updates.dueTime = hasDueDate ? editDueTime : undefined;
+      updates.reminderOffsets = hasDueDate ? editReminderOffsets : undefined;
       updates.isOverdue = false;
 
-      await updateMutation.mutateAsync(updates);
+      await mutateOrQueue(updateMutation, updates);
       setEditing(false);
     } catch (err: any) {
       Alert.alert('Error', err.message);
     }
   };
 
-  const handleComplete = async () => {
+  // Failures surface as the mutation's own toast, as on the chore lists
+  const handleComplete = () => {
     if (!choreId) return;
-    try { await completeMutation.mutateAsync(choreId); }
-    catch (err: any) { Alert.alert('Error', err.message); }
+    completeMutation.mutate(choreId);
   };
 
-  const handleUndo = async () => {
+  const handleUndo = () => {
     if (!choreId) return;
-    try { await undoMutation.mutateAsync(choreId); }
-    catch (err: any) { Alert.alert('Error', err.message); }
+    undoMutation.mutate(choreId);
+  };
+
+  const handleSkip = () => {
+    if (!choreId || !chore) return;
+    promptSkip(chore.name, async (reason) => {
+      try { await mutateOrQueue(skipMutation, { choreId, reason }); }
+      catch (err: any) { Alert.alert('Error', err.message); }
+    });
+  };
+
+  const handleSnooze = () => {
+    if (!choreId || !chore) return;
+    promptSnooze(chore.name, getDueDate(chore), async (until) => {
+      try { await mutateOrQueue(snoozeMutation, { choreId, until }); }
+      catch (err: any) { Alert.alert('Error', err.message); }
+    });
   };
 
   const handleDelete = () => {
@@ -147,7 +200,7 @@ export default function ChoreDetailScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          try { await deleteMutation.mutateAsync(choreId); router.back(); }
+          try { await mutateOrQueue(deleteMutation, choreId); router.back(); }
           catch (err: any) { Alert.alert('Error', err.message); }
         },
       },
@@ -177,6 +230,8 @@ export default function ChoreDetailScreen() {
   const overdue = isChoreOverdue(chore);
   const completed = !!chore.lastCompletion;
   const assigneeProfile = profiles[memberUserIds.indexOf(chore.assignedTo ?? '')];
+  const getMemberName = (userId: string) =>
+    profiles[memberUserIds.indexOf(userId)]?.displayName ?? 'Former member';
   const isOneOff = chore.interval.type === 'once';
 
   return (
@@ -198,11 +253,36 @@ export default function ChoreDetailScreen() {
               onPress={completed ? handleUndo : handleComplete}
               color={completed ? 'success' : overdue ? 'danger' : 'primary'}
               size="lg"
-              loading={completeMutation.isPending || undoMutation.isPending}
-              disabled={completeMutation.isPending || undoMutation.isPending}
-              style={{ marginBottom: 16 }}
+              loading={isMutationRunning(completeMutation) || isMutationRunning(undoMutation)}
+              disabled={isMutationRunning(completeMutation) || isMutationRunning(undoMutation)}
+              style={{ marginBottom: completed ? 16 : 10 }}
             />
 
+            {!completed && (
+              <View style={styles.occurrenceRow}>
+                {!isOneOff && (
+                  <Button
+                    title="Skip"
+                    variant="outlined"
+                    size="sm"
+                    onPress={handleSkip}
+                    loading={isMutationRunning(skipMutation)}
+                    disabled={isMutationRunning(skipMutation)}
+                    style={{ flex: 1 }}
+                  />
+                )}
+                <Button
+                  title="Snooze"
+                  variant="outlined"
+                  size="sm"
+                  onPress={handleSnooze}
+                  loading={isMutationRunning(snoozeMutation)}
+                  disabled={isMutationRunning(snoozeMutation)}
+                  style={{ flex: 1 }}
+                />
+              </View>
+            )}
+
             {completed && chore.lastCompletion && (
               <Card variant="filled" style={styles.completionInfo}>
                 <Typography variant="caption" muted style={styles.completionLabel}>
@@ -221,53 +301,87 @@ export default function ChoreDetailScreen() {
                 setIntervalType={setEditIntervalType}
                 intervalValue={editIntervalValue}
                 setIntervalValue={setEditIntervalValue}
+                rule={editRule}
+                setRule={setEditRule}
+                anchor={editAnchor}
+                setAnchor={setEditAnchor}
                 assignedTo={editAssignedTo}
                 setAssignedTo={setEditAssignedTo}
+                rotation={editRotation}
+                setRotation={setEditRotation}
                 roomId={editRoomId}
                 setRoomId={setEditRoomId}
                 dueDate={editDueDate}
                 setDueDate={setEditDueDate}
+                dueTime={editDueTime}
+                setDueTime={setEditDueTime}
+                reminderOffsets={editReminderOffsets}
+                setReminderOffsets={setEditReminderOffsets}
                 members={members}
                 profiles={profiles}
                 rooms={rooms}
                 onSave={handleSave}
                 onCancel={() => setEditing(false)}
-                saving={updateMutation.isPending}
+                saving={isMutationRunning(updateMutation)}
               />
             ) : (
               <View style={styles.details}>
                 <DetailRow label="Name" value={chore.name} />
                 <DetailRow label="Description" value={chore.description || '—'} />
+                <DetailRow label="Repeat" value={describeInterval(chore.interval)} />
+                {!isOneOff && (
+                  <DetailRow
+                    label="Schedule"
+                    value={chore.interval.anchor === 'fixed' ? 'Fixed schedule' : 'From completion'}
+                  />
+                )}
                 <DetailRow
-                  label="Repeat"
+                  label="Due"
                   value={
-                    isOneOff
-                      ? 'One-off'
-                      : `${INTERVAL_LABELS[chore.interval.type]}${chore.interval.value > 1 ? ` (every ${chore.interval.value})` : ''}`
+                    (chore.dueAt ? chore.dueAt.toDate().toLocaleDateString() : 'No deadline') +
+                    (chore.dueAt && chore.dueTime ? ` at ${formatTimeOfDay(chore.dueTime)}` : '') +
+                    (chore.snoozedFrom
+                      ? ` (snoozed from ${chore.snoozedFrom.toDate().toLocaleDateString()})`
+                      : '')
                   }
-                />
-                <DetailRow
-                  label="Due"
-                  value={chore.dueAt ? chore.dueAt.toDate().toLocaleDateString() : 'No deadline'}
                   valueColor={overdue ? errorColor : undefined}
                 />
+                {chore.dueAt && (
+                  <DetailRow
+                    label="Reminders"
+                    value={
+                      (chore.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS)
+                        .map(describeReminderOffset)
+                        .join(', ') || 'None'
+                    }
+                  />
+                )}
                 <DetailRow
                   label="Assigned to"
                   value={assigneeProfile?.displayName ?? (chore.assignedTo ? 'User' : 'Anyone')}
                 />
+                {chore.rotation && (
+                  <DetailRow
+                    label="Rotation"
+                    value={`${chore.rotation.memberIds.map(getMemberName).join(' → ')} (${
+                      chore.rotation.mode === 'completion' ? 'each completion' : 'each due period'
+                    })`}
+                  />
+                )}
                 <View style={styles.actionRow}>
                   <Button title="Edit" onPress={startEditing} style={{ flex: 1 }} />
                   <Button
                     title="Delete"
                     onPress={handleDelete}
                     color="danger"
-                    disabled={deleteMutation.isPending}
+                    disabled={isMutationRunning(deleteMutation)}
                     style={{ flex: 1 }}
                   />
                 </View>
                 {!isOneOff && chore.dueAt && (
-                  <UpcomingSchedule chore={chore as { dueAt: { toDate: () => Date }; interval: { type: IntervalType; value: number } }} />
+                  <UpcomingSchedule chore={chore as { dueAt: { toDate: () => Date }; interval: Chore['interval'] }} />
                 )}
+                <ChoreHistoryList entries={completions} getMemberName={getMemberName} />
               </View>
             )}
           </ThemedView>
@@ -279,7 +393,7 @@ export default function ChoreDetailScreen() {
 
 // ── Sub-components ──
 
-function UpcomingSchedule({ chore }: { chore: { dueAt: { toDate: () => Date }; interval: { type: IntervalType; value: number } } }) {
+function UpcomingSchedule({ chore }: { chore: { dueAt: { toDate: () => Date }; interval: Chore['interval'] } }) {
   const upcoming = useMemo(
     () => getUpcomingDueDates(chore.dueAt.toDate(), chore.interval, 5),
     [chore.dueAt, chore.interval]
@@ -321,6 +435,7 @@ const styles = StyleSheet.create({
   details: { marginTop: 4 },
   detailRow: { marginBottom: 16 },
   actionRow: { flexDirection: 'row', gap: 12, marginTop: 20 },
+  occurrenceRow: { flexDirection: 'row', gap: 12, marginBottom: 20 },
   upcomingSection: { marginTop: 28 },
   upcomingTitle: { marginBottom: 10 },
   upcomingRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
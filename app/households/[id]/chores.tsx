@@ -14,14 +14,18 @@ import { useAuth } from '@/lib/hooks/use-auth';
 import {
   useCompleteChore,
   useHouseholdChores,
+  useSkipOccurrence,
+  useSnoozeChore,
   useUndoCompletion,
 } from '@/lib/hooks/use-chores';
 import { useHousehold, useHouseholdMembers } from '@/lib/hooks/use-households';
 import { useHouseholdRooms } from '@/lib/hooks/use-rooms';
+import { useSyncStatus } from '@/lib/hooks/use-sync-status';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
 import { useUserProfiles } from '@/lib/hooks/use-users';
-import { isChoreOverdue } from '@/lib/services/chore-service';
+import { getDueDate, isChoreOverdue } from '@/lib/services/chore-service';
 import { Chore } from '@/lib/types/chore';
+import { promptSkip, promptSnooze } from '@/lib/utils/occurrence-prompts';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useState } from 'react';
 import {
@@ -51,6 +55,9 @@ export default function HouseholdChoresScreen() {
 
   const completeMutation = useCompleteChore(householdId ?? '', user?.uid ?? '');
   const undoMutation = useUndoCompletion(householdId ?? '', user?.uid ?? '');
+  const skipMutation = useSkipOccurrence(householdId ?? '', user?.uid ?? '');
+  const snoozeMutation = useSnoozeChore(householdId ?? '', user?.uid ?? '');
+  const { isChorePending } = useSyncStatus();
 
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
 
@@ -102,9 +109,26 @@ export default function HouseholdChoresScreen() {
         }
         onComplete={() => completeMutation.mutate(item.id)}
         onUndo={() => undoMutation.mutate(item.id)}
+        onSkip={() =>
+          promptSkip(item.name, (reason) => skipMutation.mutate({ choreId: item.id, reason }))
+        }
+        onSnooze={() =>
+          promptSnooze(item.name, getDueDate(item), (until) => snoozeMutation.mutate({ choreId: item.id, until }))
+        }
+        isPending={isChorePending(item.id)}
       />
     ),
-    [getAssigneeName, getRoomName, householdId, router, completeMutation, undoMutation]
+    [
+      getAssigneeName,
+      getRoomName,
+      householdId,
+      router,
+      completeMutation,
+      undoMutation,
+      skipMutation,
+      snoozeMutation,
+      isChorePending,
+    ]
   );
 
   return (
@@ -114,12 +138,21 @@ export default function HouseholdChoresScreen() {
           title: household?.name ?? 'Chores',
           headerBackTitle: 'Households',
           headerRight: () => (
-            <Pressable
-              onPress={() => router.push(`/households/${householdId}/settings`)}
-              style={{ padding: 4 }}
-            >
-              <IconSymbol name="gearshape.fill" size={22} color={tintColor} />
-            </Pressable>
+            <View style={styles.headerActions}>
+              <Pressable
+                onPress={() => router.push(`/households/${householdId}/activity`)}
+                style={{ padding: 4 }}
+                accessibilityLabel="Activity"
+              >
+                <IconSymbol name="clock.arrow.circlepath" size={22} color={tintColor} />
+              </Pressable>
+              <Pressable
+                onPress={() => router.push(`/households/${householdId}/settings`)}
+                style={{ padding: 4 }}
+              >
+                <IconSymbol name="gearshape.fill" size={22} color={tintColor} />
+              </Pressable>
+            </View>
           ),
         }}
       />
@@ -181,6 +214,7 @@ export default function HouseholdChoresScreen() {
 const styles = StyleSheet.create({
   container: { flex: 1 },
   center: { flex: 1 },
+  headerActions: { flexDirection: 'row', gap: 12 },
   filterRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
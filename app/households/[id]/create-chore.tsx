@@ -4,6 +4,10 @@
  */
 
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { DueTimePicker } from '@/components/due-time-picker';
+import { IntervalAnchorPicker } from '@/components/interval-anchor-picker';
+import { RecurrenceRulePicker } from '@/components/recurrence-rule-picker';
+import { ReminderOffsetsPicker } from '@/components/reminder-offsets-picker';
 import { ThemedView } from '@/components/themed-view';
 import { Button } from '@/components/ui/button';
 import { Chip } from '@/components/ui/chip';
@@ -15,8 +19,10 @@ import { useHouseholdMembers } from '@/lib/hooks/use-households';
 import { useHouseholdRooms } from '@/lib/hooks/use-rooms';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
 import { useUserProfiles } from '@/lib/hooks/use-users';
+import { isMutationRunning, mutateOrQueue } from '@/lib/mutation-queue';
 import { calculateNextDueDate } from '@/lib/services/chore-service';
-import { IntervalType } from '@/lib/types/chore';
+import { IntervalAnchor, IntervalType, RecurrenceRule } from '@/lib/types/chore';
+import { DEFAULT_REMINDER_OFFSETS } from '@/lib/utils/due-time';
 import { useHeaderHeight } from '@react-navigation/elements';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { Timestamp } from '@react-native-firebase/firestore';
@@ -60,20 +66,26 @@ export default function CreateChoreScreen() {
   const [description, setDescription] = useState('');
   const [intervalType, setIntervalType] = useState<IntervalType>('weekly');
   const [intervalValue, setIntervalValue] = useState('1');
+  const [rule, setRule] = useState<RecurrenceRule | undefined>(undefined);
+  const [anchor, setAnchor] = useState<IntervalAnchor>('floating');
   const [assignedTo, setAssignedTo] = useState<string | undefined>(undefined);
   const [roomId, setRoomId] = useState<string | undefined>(undefined);
 
   // Due date override state
   const [customDueDate, setCustomDueDate] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [dueTime, setDueTime] = useState<string | undefined>(undefined);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
 
   const isOneOff = intervalType === 'once';
+  // One-offs without a deadline have nothing to be due at or remind about
+  const hasDueDate = !isOneOff || !!customDueDate;
   const parsedValue = Math.max(1, parseInt(intervalValue, 10) || 1);
 
   const previewDueDate = useMemo(() => {
     if (isOneOff) return null;
-    return calculateNextDueDate(new Date(), { type: intervalType, value: parsedValue });
-  }, [intervalType, parsedValue, isOneOff]);
+    return calculateNextDueDate(new Date(), { type: intervalType, value: parsedValue, rule });
+  }, [intervalType, parsedValue, rule, isOneOff]);
 
   const handleCreate = async () => {
     const trimmedName = name.trim();
@@ -102,15 +114,22 @@ export default function CreateChoreScreen() {
         dueAt = undefined; // let createChore auto-calculate
       }
 
-      await createMutation.mutateAsync({
+      await mutateOrQueue(createMutation, {
         householdId,
         name: trimmedName,
         description: description.trim() || undefined,
         assignedTo,
         roomId,
         createdBy: user.uid,
-        interval: { type: intervalType, value: isOneOff ? 1 : parsedValue },
+        interval: {
+          type: intervalType,
+          value: isOneOff ? 1 : parsedValue,
+          rule,
+          anchor: isOneOff ? undefined : anchor,
+        },
         dueAt,
+        dueTime: hasDueDate ? dueTime : undefined,
+        reminderOffsets: hasDueDate ? reminderOffsets : undefined,
       });
       router.back();
     } catch (err: any) {
@@ -177,6 +196,7 @@ export default function CreateChoreScreen() {
                     onPress={() => {
                       setIntervalType(opt.type);
                       setIntervalValue(String(opt.defaultValue));
+                      setRule(undefined);
                       setCustomDueDate(null);
                       setShowDatePicker(false);
                     }}
@@ -219,6 +239,26 @@ export default function CreateChoreScreen() {
                 </View>
               )}
 
+            {/* Recurrence rule (specific weekdays / day of month) */}
+            {(intervalType === 'weekly' || intervalType === 'monthly') && (
+              <View style={styles.field}>
+                <Typography variant="label" style={styles.fieldLabel}>
+                  On
+                </Typography>
+                <RecurrenceRulePicker intervalType={intervalType} rule={rule} onChange={setRule} />
+              </View>
+            )}
+
+            {/* Anchor mode — hidden for one-off */}
+            {!isOneOff && (
+              <View style={styles.field}>
+                <Typography variant="label" style={styles.fieldLabel}>
+                  Next due date
+                </Typography>
+                <IntervalAnchorPicker anchor={anchor} onChange={setAnchor} />
+              </View>
+            )}
+
             {/* Due date section */}
             <View style={styles.field}>
               {isOneOff ? (
@@ -276,6 +316,30 @@ export default function CreateChoreScreen() {
               )}
             </View>
 
+            {hasDueDate && (
+              <>
+                {/* Due time */}
+                <View style={styles.field}>
+                  <Typography variant="label" style={styles.fieldLabel}>
+                    Due time (optional)
+                  </Typography>
+                  <DueTimePicker dueTime={dueTime} onChange={setDueTime} />
+                </View>
+
+                {/* Reminders */}
+                <View style={styles.field}>
+                  <Typography variant="label" style={styles.fieldLabel}>
+                    Remind me
+                  </Typography>
+                  <ReminderOffsetsPicker
+                    offsets={reminderOffsets}
+                    onChange={setReminderOffsets}
+                    hasDueTime={!!dueTime}
+                  />
+                </View>
+              </>
+            )}
+
             {/* Assignment */}
             <View style={styles.field}>
               <Typography variant="label" style={styles.fieldLabel}>
@@ -325,8 +389,8 @@ export default function CreateChoreScreen() {
               title="Create Chore"
               onPress={handleCreate}
               size="lg"
-              loading={createMutation.isPending}
-              disabled={createMutation.isPending}
+              loading={isMutationRunning(createMutation)}
+              disabled={isMutationRunning(createMutation)}
               style={{ marginTop: 12 }}
             />
           </ThemedView>
@@ -1,9 +1,11 @@
 /**
  * Household Settings Screen
- * Manage household name, members, and invitations
+ * Manage household name, members, invitations and your notifications from it
  */
 
+import { CreateJoinCodeModal } from '@/components/create-join-code-modal';
 import { HouseholdMemberList } from '@/components/household-member-list';
+import { HouseholdNotificationsSection } from '@/components/household-notifications-section';
 import { ThemedView } from '@/components/themed-view';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -17,10 +19,20 @@ import {
   useHousehold,
   useHouseholdMembers,
   useRemoveHouseholdMember,
+  useTransferOwnership,
   useUpdateHousehold,
+  useUpdateMemberRole,
 } from '@/lib/hooks/use-households';
-import { useDeleteInvite, useHouseholdInvites } from '@/lib/hooks/use-invites';
+import {
+  useDeleteInvite,
+  useHouseholdInvites,
+  useHouseholdJoinCodes,
+  useRevokeJoinCode,
+} from '@/lib/hooks/use-invites';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { getJoinCodeProblem } from '@/lib/services/invite-service';
+import { HouseholdRole } from '@/lib/types/household';
+import { shareJoinCode } from '@/lib/utils/share-join-code';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useMemo, useState } from 'react';
 import {
@@ -42,11 +54,16 @@ export default function HouseholdSettingsScreen() {
   const { data: members = [], isLoading: loadingMembers } = useHouseholdMembers(id);
   const { data: currentUserMember, isLoading: loadingMember } = useCurrentUserMembership(id, user?.uid);
   const { data: allInvites = [], isLoading: loadingInvites } = useHouseholdInvites(id);
+  const { data: allJoinCodes = [] } = useHouseholdJoinCodes(id);
 
   const invites = useMemo(
     () => allInvites.filter((inv) => inv.status === 'pending'),
     [allInvites]
   );
+  const joinCodes = useMemo(
+    () => allJoinCodes.filter((joinCode) => getJoinCodeProblem(joinCode) === null),
+    [allJoinCodes]
+  );
 
   const loading = loadingHousehold || loadingMembers || loadingMember || loadingInvites;
 
@@ -54,11 +71,15 @@ export default function HouseholdSettingsScreen() {
   const updateHouseholdMutation = useUpdateHousehold(id ?? '');
   const deleteHouseholdMutation = useDeleteHousehold();
   const removeMemberMutation = useRemoveHouseholdMember(id ?? '');
+  const updateMemberRoleMutation = useUpdateMemberRole(id ?? '');
+  const transferOwnershipMutation = useTransferOwnership(id ?? '');
   const deleteInviteMutation = useDeleteInvite(id ?? '');
+  const revokeJoinCodeMutation = useRevokeJoinCode(id ?? '');
 
   // ── Local UI state ──
   const [editingName, setEditingName] = useState(false);
   const [householdName, setHouseholdName] = useState('');
+  const [showJoinCodeModal, setShowJoinCodeModal] = useState(false);
 
   const isAdmin = currentUserMember?.role === 'admin';
   const isOwner = household?.ownerId === user?.uid;
@@ -104,6 +125,25 @@ export default function HouseholdSettingsScreen() {
     }
   };
 
+  const handleChangeRole = async (userId: string, role: HouseholdRole) => {
+    if (!user) return;
+
+    await updateMemberRoleMutation.mutateAsync({
+      userId,
+      role,
+      requestingUserId: user.uid,
+    });
+  };
+
+  const handleTransferOwnership = async (newOwnerId: string) => {
+    if (!user) return;
+
+    await transferOwnershipMutation.mutateAsync({
+      newOwnerId,
+      requestingUserId: user.uid,
+    });
+  };
+
   const handleDeleteHousehold = () => {
     if (!id || !user || !household) return;
 
@@ -141,6 +181,16 @@ export default function HouseholdSettingsScreen() {
     }
   };
 
+  const handleRevokeJoinCode = async (code: string) => {
+    if (!user) return;
+
+    try {
+      await revokeJoinCodeMutation.mutateAsync({ code, userId: user.uid });
+    } catch (err: any) {
+      Alert.alert('Error', err.message);
+    }
+  };
+
   if (loading) {
     return (
       <>
@@ -248,8 +298,13 @@ export default function HouseholdSettingsScreen() {
             isCurrentUserAdmin={isAdmin}
             householdOwnerId={household.ownerId}
             onRemoveMember={handleRemoveMember}
+            onChangeRole={handleChangeRole}
+            onTransferOwnership={handleTransferOwnership}
           />
 
+          {/* Notifications Section */}
+          {user && <HouseholdNotificationsSection householdId={household.id} userId={user.uid} />}
+
           {/* Invitations Section */}
           {isAdmin && invites.length > 0 && (
             <View style={styles.section}>
@@ -285,6 +340,50 @@ export default function HouseholdSettingsScreen() {
             </View>
           )}
 
+          {/* Join Links Section */}
+          {isAdmin && joinCodes.length > 0 && (
+            <View style={styles.section}>
+              <Typography variant="sectionTitle" style={styles.sectionTitle}>
+                Join Links ({joinCodes.length})
+              </Typography>
+              {joinCodes.map((joinCode) => (
+                <Card
+                  key={joinCode.code}
+                  variant="outlined"
+                  style={styles.inviteCard}
+                >
+                  <View style={styles.inviteRow}>
+                    <View style={styles.inviteInfo}>
+                      <Typography variant="bodySemiBold">{joinCode.code}</Typography>
+                      <Typography variant="caption" muted style={styles.inviteDetail}>
+                        Role: {joinCode.role === 'admin' ? 'Admin' : 'Member'} · Used{' '}
+                        {joinCode.maxUses === null
+                          ? `${joinCode.useCount} time${joinCode.useCount !== 1 ? 's' : ''}`
+                          : `${joinCode.useCount}/${joinCode.maxUses}`}
+                      </Typography>
+                      <Typography variant="caption" muted style={styles.inviteDetail}>
+                        Expires: {joinCode.expiresAt.toDate().toLocaleDateString()}
+                      </Typography>
+                    </View>
+                    <Button
+                      title="Share"
+                      variant="ghost"
+                      size="sm"
+                      onPress={() => shareJoinCode(joinCode)}
+                    />
+                    <Button
+                      title="Revoke"
+                      variant="ghost"
+                      color="danger"
+                      size="sm"
+                      onPress={() => handleRevokeJoinCode(joinCode.code)}
+                    />
+                  </View>
+                </Card>
+              ))}
+            </View>
+          )}
+
           {/* Actions Section */}
           <View style={styles.section}>
             {isAdmin && (
@@ -296,6 +395,16 @@ export default function HouseholdSettingsScreen() {
               />
             )}
 
+            {isAdmin && (
+              <Button
+                title="Create Join Link"
+                variant="outlined"
+                size="lg"
+                onPress={() => setShowJoinCodeModal(true)}
+                style={{ marginBottom: 12 }}
+              />
+            )}
+
             {isOwner && (
               <Button
                 title={deleteHouseholdMutation.isPending ? 'Deleting...' : 'Delete Household'}
@@ -310,6 +419,15 @@ export default function HouseholdSettingsScreen() {
           </View>
         </ThemedView>
       </ScrollView>
+
+      {user && (
+        <CreateJoinCodeModal
+          visible={showJoinCodeModal}
+          onClose={() => setShowJoinCodeModal(false)}
+          householdId={household.id}
+          userId={user.uid}
+        />
+      )}
     </>
   );
 }
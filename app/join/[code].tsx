@@ -0,0 +1,127 @@
+/**
+ * Join Household Screen
+ * Landing screen for join links (overdueapp://join/{code}) and typed codes
+ */
+
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { LoadingState } from '@/components/ui/loading-state';
+import { Typography } from '@/components/ui/typography';
+import { useAuth } from '@/lib/hooks/use-auth';
+import { useJoinCode, useRedeemJoinCode } from '@/lib/hooks/use-invites';
+import { useNetworkStatus } from '@/lib/hooks/use-network-status';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { getJoinCodeProblem, normalizeJoinCode } from '@/lib/services/invite-service';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React from 'react';
+import { Alert, StyleSheet } from 'react-native';
+
+export default function JoinHouseholdScreen() {
+  const { code: rawCode } = useLocalSearchParams<{ code: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { isOnline } = useNetworkStatus();
+  const backgroundColor = useThemeColor({}, 'background');
+
+  const code = rawCode ? normalizeJoinCode(rawCode) : undefined;
+  const { data: joinCode, isLoading, error } = useJoinCode(code);
+  const redeemMutation = useRedeemJoinCode(user?.uid);
+
+  const handleJoin = async () => {
+    if (!code) return;
+
+    // Check network connectivity (per PROJECT_CHARTER)
+    if (!isOnline) {
+      Alert.alert('Offline', 'You must be online to join a household.');
+      return;
+    }
+
+    try {
+      const householdId = await redeemMutation.mutateAsync(code);
+      router.replace(`/households/${householdId}/chores`);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to join household');
+    }
+  };
+
+  const goHome = () => router.replace('/');
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <LoadingState message="Checking code..." />;
+    }
+
+    if (error || !joinCode) {
+      return (
+        <EmptyState
+          title="Code not found"
+          message={`"${code ?? ''}" isn't a valid join code. It may have been revoked.`}
+          action={{ title: 'Go Home', onPress: goHome }}
+        />
+      );
+    }
+
+    const problem = getJoinCodeProblem(joinCode);
+    if (problem) {
+      return (
+        <EmptyState
+          title="Can't join"
+          message={`${problem}. Ask a household admin for a new link.`}
+          action={{ title: 'Go Home', onPress: goHome }}
+        />
+      );
+    }
+
+    return (
+      <Card variant="outlined" style={styles.card}>
+        <Typography variant="caption" muted>
+          You&apos;ve been invited to join
+        </Typography>
+        <Typography variant="subtitle" style={styles.householdName}>
+          {joinCode.householdName}
+        </Typography>
+        <Typography variant="caption" muted style={styles.role}>
+          as {joinCode.role === 'admin' ? 'an admin' : 'a member'}
+        </Typography>
+        <Button
+          title="Join Household"
+          size="lg"
+          onPress={handleJoin}
+          loading={redeemMutation.isPending}
+          disabled={redeemMutation.isPending}
+        />
+      </Card>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Join Household' }} />
+      <ThemedView style={[styles.container, { backgroundColor }]}>
+        {renderContent()}
+      </ThemedView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  card: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  householdName: {
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  role: {
+    marginTop: 4,
+    marginBottom: 20,
+  },
+});
@@ -0,0 +1,93 @@
+/**
+ * Pending Changes Screen
+ * Chore and room changes made offline that are waiting to sync, oldest
+ * first. Any of them can be discarded before it reaches the server.
+ */
+
+import { ThemedView } from '@/components/themed-view';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Typography } from '@/components/ui/typography';
+import { useNetworkStatus } from '@/lib/hooks/use-network-status';
+import { PendingChange, usePendingChanges } from '@/lib/hooks/use-pending-changes';
+import React from 'react';
+import { Alert, FlatList, StyleSheet, View } from 'react-native';
+
+export default function PendingChangesScreen() {
+  const { changes, discardChange } = usePendingChanges();
+  const { isOnline } = useNetworkStatus();
+
+  const handleDiscard = (change: PendingChange) => {
+    Alert.alert('Discard Change?', `${change.description} will not be synced.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => discardChange(change.mutationId),
+      },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={changes}
+        keyExtractor={(change) => String(change.mutationId)}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          changes.length > 0 ? (
+            <Typography variant="caption" muted style={styles.header}>
+              {isOnline
+                ? 'Syncing these changes now...'
+                : 'These changes will sync when you are back online.'}
+            </Typography>
+          ) : null
+        }
+        ListEmptyComponent={
+          <EmptyState
+            title="All synced"
+            message="Changes you make while offline will wait here until they sync."
+          />
+        }
+        renderItem={({ item }) => (
+          <Card style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.text}>
+                <Typography variant="bodySemiBold">{item.description}</Typography>
+                <Typography variant="caption" muted>
+                  {new Date(item.queuedAt).toLocaleString([], {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </Typography>
+              </View>
+              <Button
+                title="Discard"
+                variant="outlined"
+                color="danger"
+                size="sm"
+                onPress={() => handleDiscard(item)}
+              />
+            </View>
+          </Card>
+        )}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  list: { padding: 20, flexGrow: 1 },
+  header: { marginBottom: 12 },
+  card: { marginBottom: 10 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  text: { flex: 1, marginRight: 12 },
+});
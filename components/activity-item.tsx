@@ -0,0 +1,44 @@
+/**
+ * ActivityItem - One row of a household's activity feed
+ * Says who did what and when; rows about a chore open it when tapped
+ */
+
+import { Typography } from '@/components/ui/typography';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { describeActivity } from '@/lib/services/activity-service';
+import { ActivityEntry } from '@/lib/types/activity';
+import React from 'react';
+import { Pressable, StyleSheet } from 'react-native';
+
+interface ActivityItemProps {
+  entry: ActivityEntry;
+  /** Resolve a userId to a display name */
+  getMemberName: (userId: string) => string;
+  onPress?: () => void;
+}
+
+export function ActivityItem({ entry, getMemberName, onPress }: ActivityItemProps) {
+  const borderColor = useThemeColor({}, 'border');
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={!onPress}
+      style={[styles.row, { borderBottomColor: borderColor }]}
+    >
+      <Typography>{describeActivity(entry, getMemberName)}</Typography>
+      {entry.reason && (
+        <Typography variant="caption" muted>
+          {entry.reason}
+        </Typography>
+      )}
+      <Typography variant="caption" muted>
+        {entry.createdAt.toDate().toLocaleString()}
+      </Typography>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { paddingVertical: 10, gap: 2, borderBottomWidth: StyleSheet.hairlineWidth },
+});
@@ -1,6 +1,8 @@
 /**
  * ChoreCard - Reusable chore display card
- * Shows chore name, due date, assignment, overdue badge, and quick complete toggle
+ * Shows chore name, due date, repeat summary, assignment, overdue badge, and quick complete toggle.
+ * A small cloud marks chores with local changes that haven't reached the server yet.
+ * Swipe left for Skip / Snooze when those handlers are provided.
  */
 
 import { Card } from '@/components/ui/card';
@@ -9,8 +11,14 @@ import { Typography } from '@/components/ui/typography';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
 import { isChoreOverdue } from '@/lib/services/chore-service';
 import { Chore } from '@/lib/types/chore';
+import { formatTimeOfDay } from '@/lib/utils/due-time';
+import { describeInterval } from '@/lib/utils/recurrence';
+import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { Pressable, StyleSheet, View } from 'react-native';
+import ReanimatedSwipeable, {
+  type SwipeableMethods,
+} from 'react-native-gesture-handler/ReanimatedSwipeable';
 
 interface ChoreCardProps {
   chore: Chore;
@@ -23,10 +31,16 @@ interface ChoreCardProps {
   onPress?: () => void;
   onComplete?: () => void;
   onUndo?: () => void;
+  /** Swipe action: skip the current occurrence (recurring chores only) */
+  onSkip?: () => void;
+  /** Swipe action: push the current occurrence back */
+  onSnooze?: () => void;
+  /** Local changes are still waiting to sync */
+  isPending?: boolean;
   disabled?: boolean;
 }
 
-function formatDueDate(date: Date | null): string {
+function formatDueDate(date: Date | null, dueTime?: string): string {
   if (!date) return 'No deadline';
 
   const now = new Date();
@@ -38,10 +52,12 @@ function formatDueDate(date: Date | null): string {
 
   if (diffDays < -1) return `${Math.abs(diffDays)} days overdue`;
   if (diffDays === -1) return 'Yesterday';
-  if (diffDays === 0) return 'Today';
-  if (diffDays === 1) return 'Tomorrow';
-  if (diffDays < 7) return `In ${diffDays} days`;
-  return due.toLocaleDateString();
+
+  const at = dueTime ? ` at ${formatTimeOfDay(dueTime)}` : '';
+  if (diffDays === 0) return `Today${at}`;
+  if (diffDays === 1) return `Tomorrow${at}`;
+  if (diffDays < 7) return `In ${diffDays} days${at}`;
+  return `${due.toLocaleDateString()}${at}`;
 }
 
 export function ChoreCard({
@@ -52,18 +68,63 @@ export function ChoreCard({
   onPress,
   onComplete,
   onUndo,
+  onSkip,
+  onSnooze,
+  isPending,
   disabled,
 }: ChoreCardProps) {
   const errorColor = useThemeColor({}, 'error');
   const successColor = useThemeColor({}, 'success');
   const borderColor = useThemeColor({}, 'border');
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+  const actionTextColor = useThemeColor({}, 'badgeText');
 
   const overdue = isChoreOverdue(chore);
   const completed = !!chore.lastCompletion;
   const dueDate = chore.dueAt ? chore.dueAt.toDate() : null;
-  const dueDateLabel = formatDueDate(dueDate);
+  const dueDateLabel = formatDueDate(dueDate, chore.dueTime);
 
-  return (
+  // Skip/snooze only make sense for an occurrence that is still open
+  const canSkip = !!onSkip && !completed && chore.interval.type !== 'once';
+  const canSnooze = !!onSnooze && !completed;
+
+  const renderRightActions = (
+    _progress: unknown,
+    _translation: unknown,
+    swipeable: SwipeableMethods
+  ) => (
+    <View style={styles.actions}>
+      {canSkip && (
+        <Pressable
+          style={[styles.action, { backgroundColor: iconColor }]}
+          onPress={() => {
+            swipeable.close();
+            onSkip?.();
+          }}
+        >
+          <Typography variant="caption" style={[styles.actionLabel, { color: actionTextColor }]}>
+            Skip
+          </Typography>
+        </Pressable>
+      )}
+      {canSnooze && (
+        <Pressable
+          style={[styles.action, { backgroundColor: tintColor }]}
+          onPress={() => {
+            swipeable.close();
+            onSnooze?.();
+          }}
+        >
+          <Typography variant="caption" style={[styles.actionLabel, { color: actionTextColor }]}>
+            Snooze
+          </Typography>
+        </Pressable>
+      )}
+    </View>
+  );
+
+  const card = (
     <Card onPress={onPress} disabled={disabled} style={styles.card}>
       <View style={styles.row}>
         {/* Completion toggle */}
@@ -125,8 +186,24 @@ export function ChoreCard({
               </Typography>
             ) : null}
           </View>
+
+          {chore.interval.type !== 'once' && (
+            <Typography variant="caption" muted numberOfLines={1} style={styles.repeat}>
+              {describeInterval(chore.interval)}
+            </Typography>
+          )}
         </View>
 
+        {isPending && (
+          <Ionicons
+            name="cloud-upload-outline"
+            size={16}
+            color={iconColor}
+            style={styles.pending}
+            accessibilityLabel="Waiting to sync"
+          />
+        )}
+
         {/* Overdue badge */}
         {overdue && !completed && (
           <Chip
@@ -140,6 +217,19 @@ export function ChoreCard({
       </View>
     </Card>
   );
+
+  if (!canSkip && !canSnooze) return card;
+
+  return (
+    <ReanimatedSwipeable
+      renderRightActions={renderRightActions}
+      enabled={!disabled}
+      overshootRight={false}
+      friction={2}
+    >
+      {card}
+    </ReanimatedSwipeable>
+  );
 }
 
 const styles = StyleSheet.create({
@@ -185,4 +275,25 @@ const styles = StyleSheet.create({
   metaItem: {
     marginLeft: 4,
   },
+  pending: {
+    marginLeft: 8,
+  },
+  repeat: {
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginBottom: 10,
+    marginLeft: 8,
+    gap: 8,
+  },
+  action: {
+    width: 72,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionLabel: {
+    fontWeight: '600',
+  },
 });
@@ -4,12 +4,22 @@
  */
 
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { DueTimePicker } from '@/components/due-time-picker';
+import { IntervalAnchorPicker } from '@/components/interval-anchor-picker';
+import { RecurrenceRulePicker } from '@/components/recurrence-rule-picker';
+import { ReminderOffsetsPicker } from '@/components/reminder-offsets-picker';
+import { RotationPicker } from '@/components/rotation-picker';
 import { Button } from '@/components/ui/button';
 import { Chip } from '@/components/ui/chip';
 import { Input } from '@/components/ui/input';
 import { Typography } from '@/components/ui/typography';
 import { useThemeColor } from '@/lib/hooks/use-theme-color';
-import { IntervalType } from '@/lib/types/chore';
+import {
+  AssigneeRotation,
+  IntervalAnchor,
+  IntervalType,
+  RecurrenceRule,
+} from '@/lib/types/chore';
 import React, { useState } from 'react';
 import { Platform, Pressable, StyleSheet, View } from 'react-native';
 
@@ -31,12 +41,22 @@ export interface ChoreEditFormProps {
   setIntervalType: (v: IntervalType) => void;
   intervalValue: string;
   setIntervalValue: (v: string) => void;
+  rule: RecurrenceRule | undefined;
+  setRule: (v: RecurrenceRule | undefined) => void;
+  anchor: IntervalAnchor;
+  setAnchor: (v: IntervalAnchor) => void;
   assignedTo: string | undefined;
   setAssignedTo: (v: string | undefined) => void;
+  rotation: AssigneeRotation | undefined;
+  setRotation: (v: AssigneeRotation | undefined) => void;
   roomId: string | undefined;
   setRoomId: (v: string | undefined) => void;
   dueDate: Date | null;
   setDueDate: (v: Date | null) => void;
+  dueTime: string | undefined;
+  setDueTime: (v: string | undefined) => void;
+  reminderOffsets: number[];
+  setReminderOffsets: (v: number[]) => void;
   members: { userId: string }[];
   profiles: (null | { displayName: string })[];
   rooms: { id: string; name: string }[];
@@ -48,8 +68,10 @@ export interface ChoreEditFormProps {
 export function ChoreEditForm(props: ChoreEditFormProps) {
   const {
     name, setName, description, setDescription,
-    intervalType, setIntervalType, intervalValue, setIntervalValue,
-    assignedTo, setAssignedTo, roomId, setRoomId, dueDate, setDueDate,
+    intervalType, setIntervalType, intervalValue, setIntervalValue, rule, setRule,
+    anchor, setAnchor,
+    assignedTo, setAssignedTo, rotation, setRotation, roomId, setRoomId, dueDate, setDueDate,
+    dueTime, setDueTime, reminderOffsets, setReminderOffsets,
     members, profiles, rooms,
     onSave, onCancel, saving,
   } = props;
@@ -57,6 +79,7 @@ export function ChoreEditForm(props: ChoreEditFormProps) {
   const tintColor = useThemeColor({}, 'tint');
   const [showDatePicker, setShowDatePicker] = useState(false);
   const isOneOff = intervalType === 'once';
+  const hasDueDate = !isOneOff || !!dueDate;
 
   const handleDateChange = (_event: any, selectedDate?: Date) => {
     if (Platform.OS === 'android') setShowDatePicker(false);
@@ -86,6 +109,7 @@ export function ChoreEditForm(props: ChoreEditFormProps) {
             onPress={() => {
               setIntervalType(t);
               setIntervalValue('1');
+              setRule(undefined);
               if (t === 'once') {
                 // Keep existing dueDate when switching to one-off
               }
@@ -102,6 +126,8 @@ export function ChoreEditForm(props: ChoreEditFormProps) {
           style={styles.valueInput}
         />
       )}
+      <RecurrenceRulePicker intervalType={intervalType} rule={rule} onChange={setRule} />
+      {!isOneOff && <IntervalAnchorPicker anchor={anchor} onChange={setAnchor} />}
 
       {/* Due date */}
       <View>
@@ -148,6 +174,17 @@ export function ChoreEditForm(props: ChoreEditFormProps) {
         )}
       </View>
 
+      {hasDueDate && (
+        <>
+          <DueTimePicker dueTime={dueTime} onChange={setDueTime} />
+          <ReminderOffsetsPicker
+            offsets={reminderOffsets}
+            onChange={setReminderOffsets}
+            hasDueTime={!!dueTime}
+          />
+        </>
+      )}
+
       <View style={styles.chips}>
         <Chip
           label="Anyone"
@@ -163,6 +200,14 @@ export function ChoreEditForm(props: ChoreEditFormProps) {
           />
         ))}
       </View>
+      {!isOneOff && (
+        <RotationPicker
+          rotation={rotation}
+          onChange={setRotation}
+          members={members}
+          profiles={profiles}
+        />
+      )}
       <View style={styles.chips}>
         <Chip
           label="None"
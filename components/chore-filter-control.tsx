@@ -0,0 +1,68 @@
+/**
+ * ChoreFilterControl - Segmented "Mine" / "Mine + unassigned" / "Everyone" switch
+ * Shared by the Today screen and the calendar
+ */
+
+import { Typography } from '@/components/ui/typography';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { ChoreFilter } from '@/lib/types/chore';
+import React from 'react';
+import { Pressable, StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+const SEGMENTS: { filter: ChoreFilter; label: string }[] = [
+  { filter: 'mine', label: 'Mine' },
+  { filter: 'mineAndUnassigned', label: 'Mine + unassigned' },
+  { filter: 'everyone', label: 'Everyone' },
+];
+
+interface ChoreFilterControlProps {
+  value: ChoreFilter;
+  onChange: (filter: ChoreFilter) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function ChoreFilterControl({ value, onChange, style }: ChoreFilterControlProps) {
+  const borderColor = useThemeColor({}, 'border');
+  const selectedColor = useThemeColor({}, 'badgeBackground');
+  const selectedTextColor = useThemeColor({}, 'badgeText');
+
+  return (
+    <View style={[styles.container, { borderColor }, style]} accessibilityRole="tablist">
+      {SEGMENTS.map(({ filter, label }) => {
+        const selected = filter === value;
+        return (
+          <Pressable
+            key={filter}
+            onPress={() => onChange(filter)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected }}
+            style={[styles.segment, selected && { backgroundColor: selectedColor }]}
+          >
+            <Typography
+              variant="caption"
+              style={[styles.label, selected && { color: selectedTextColor }]}
+            >
+              {label}
+            </Typography>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  label: { fontWeight: '600' },
+});
@@ -0,0 +1,72 @@
+/**
+ * ChoreHistoryList - Completion log for the chore detail screen
+ * Lists who completed (or skipped) the chore, when, and how the due date moved
+ */
+
+import { Chip } from '@/components/ui/chip';
+import { Typography } from '@/components/ui/typography';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { CompletionLogEntry } from '@/lib/types/chore';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+interface ChoreHistoryListProps {
+  entries: CompletionLogEntry[];
+  /** Resolve a userId to a display name */
+  getMemberName: (userId: string) => string;
+}
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function ChoreHistoryList({ entries, getMemberName }: ChoreHistoryListProps) {
+  const borderColor = useThemeColor({}, 'border');
+
+  return (
+    <View style={styles.section}>
+      <Typography variant="sectionTitle" style={styles.title}>
+        History
+      </Typography>
+      {entries.length === 0 ? (
+        <Typography variant="caption" muted>
+          Not completed yet
+        </Typography>
+      ) : (
+        entries.map((entry) => (
+          <View key={entry.id} style={[styles.row, { borderBottomColor: borderColor }]}>
+            <View style={styles.header}>
+              <Typography variant="bodySemiBold" muted={entry.kind === 'skip'}>
+                {getMemberName(entry.completedBy)}
+              </Typography>
+              {entry.kind === 'skip' && <Chip label="Skipped" size="sm" />}
+            </View>
+            {entry.reason && (
+              <Typography variant="caption" muted>
+                {entry.reason}
+              </Typography>
+            )}
+            <Typography variant="caption" muted>
+              {entry.completedAt.toDate().toLocaleString()}
+            </Typography>
+            {entry.previousDueAt && (
+              <Typography variant="caption" muted>
+                Was due {formatShortDate(entry.previousDueAt.toDate())}
+                {entry.nextDueAt && entry.nextDueAt.toMillis() !== entry.previousDueAt.toMillis()
+                  ? ` · next due ${formatShortDate(entry.nextDueAt.toDate())}`
+                  : ''}
+              </Typography>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginTop: 28 },
+  title: { marginBottom: 10 },
+  row: { paddingVertical: 8, borderBottomWidth: StyleSheet.hairlineWidth },
+  header: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+});
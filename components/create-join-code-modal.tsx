@@ -0,0 +1,181 @@
+/**
+ * Create Join Code Modal
+ * Generates a shareable join link / code with expiry, max uses and role
+ */
+
+import { Button } from '@/components/ui/button';
+import { Chip } from '@/components/ui/chip';
+import { ModalContainer } from '@/components/ui/modal-container';
+import { Typography } from '@/components/ui/typography';
+import { useCreateJoinCode } from '@/lib/hooks/use-invites';
+import { useNetworkStatus } from '@/lib/hooks/use-network-status';
+import { HouseholdRole } from '@/lib/types/household';
+import { shareJoinCode } from '@/lib/utils/share-join-code';
+import React, { useState } from 'react';
+import { Alert, StyleSheet, View } from 'react-native';
+
+const EXPIRY_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const MAX_USES_OPTIONS: { maxUses: number | null; label: string }[] = [
+  { maxUses: 1, label: '1 person' },
+  { maxUses: 5, label: '5 people' },
+  { maxUses: null, label: 'No limit' },
+];
+
+interface CreateJoinCodeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  householdId: string;
+  userId: string;
+}
+
+export function CreateJoinCodeModal({
+  visible,
+  onClose,
+  householdId,
+  userId,
+}: CreateJoinCodeModalProps) {
+  const [role, setRole] = useState<HouseholdRole>('member');
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [maxUses, setMaxUses] = useState<number | null>(1);
+
+  const createJoinCodeMutation = useCreateJoinCode(householdId);
+  const { isOnline } = useNetworkStatus();
+
+  const reset = () => {
+    setRole('member');
+    setExpiresInDays(7);
+    setMaxUses(1);
+  };
+
+  const handleCreate = async () => {
+    // Check network connectivity (per PROJECT_CHARTER)
+    if (!isOnline) {
+      Alert.alert(
+        'Offline',
+        'You must be online to create a join link. Please check your connection and try again.'
+      );
+      return;
+    }
+
+    try {
+      const joinCode = await createJoinCodeMutation.mutateAsync({
+        householdId,
+        createdBy: userId,
+        role,
+        expiresInDays,
+        maxUses,
+      });
+
+      reset();
+      onClose();
+      await shareJoinCode(joinCode);
+    } catch (error: any) {
+      console.error('Error creating join code:', error);
+      Alert.alert('Error', error.message || 'Failed to create join link');
+    }
+  };
+
+  const handleCancel = () => {
+    reset();
+    onClose();
+  };
+
+  const loading = createJoinCodeMutation.isPending;
+
+  return (
+    <ModalContainer
+      visible={visible}
+      onClose={handleCancel}
+      title="Create Join Link"
+      estimatedHeight={420}
+    >
+      <Typography variant="caption" muted style={styles.helpText}>
+        Anyone signed in can join with the link or code, whatever email they use.
+      </Typography>
+
+      <Typography variant="label" style={styles.label}>Role</Typography>
+      <View style={styles.chips}>
+        <Chip
+          label="Member"
+          selected={role === 'member'}
+          onPress={() => setRole('member')}
+          disabled={loading}
+        />
+        <Chip
+          label="Admin"
+          selected={role === 'admin'}
+          onPress={() => setRole('admin')}
+          disabled={loading}
+        />
+      </View>
+
+      <Typography variant="label" style={styles.label}>Expires after</Typography>
+      <View style={styles.chips}>
+        {EXPIRY_OPTIONS.map((option) => (
+          <Chip
+            key={option.days}
+            label={option.label}
+            selected={expiresInDays === option.days}
+            onPress={() => setExpiresInDays(option.days)}
+            disabled={loading}
+          />
+        ))}
+      </View>
+
+      <Typography variant="label" style={styles.label}>Can be used by</Typography>
+      <View style={styles.chips}>
+        {MAX_USES_OPTIONS.map((option) => (
+          <Chip
+            key={option.label}
+            label={option.label}
+            selected={maxUses === option.maxUses}
+            onPress={() => setMaxUses(option.maxUses)}
+            disabled={loading}
+          />
+        ))}
+      </View>
+
+      <View style={styles.buttonContainer}>
+        <Button
+          title="Cancel"
+          variant="outlined"
+          onPress={handleCancel}
+          disabled={loading}
+          style={{ flex: 1 }}
+        />
+        <Button
+          title="Create & Share"
+          onPress={handleCreate}
+          loading={loading}
+          disabled={loading}
+          style={{ flex: 1 }}
+        />
+      </View>
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  helpText: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+});
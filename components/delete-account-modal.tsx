@@ -0,0 +1,248 @@
+/**
+ * Delete Account Modal
+ * Confirms account deletion, letting the user hand over shared households
+ * they own instead of deleting them
+ */
+
+import { Button } from '@/components/ui/button';
+import { Chip } from '@/components/ui/chip';
+import { Input } from '@/components/ui/input';
+import { ModalContainer } from '@/components/ui/modal-container';
+import { Typography } from '@/components/ui/typography';
+import { useHouseholdMembers } from '@/lib/hooks/use-households';
+import { useNetworkStatus } from '@/lib/hooks/use-network-status';
+import { useUserProfiles } from '@/lib/hooks/use-users';
+import { deleteAccount, getReauthenticationProvider } from '@/lib/services/auth-service';
+import { cancelAllNotifications } from '@/lib/services/notification-service';
+import { Household } from '@/lib/types/household';
+import React, { useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+
+interface DeleteAccountModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  households: Household[];
+}
+
+export function DeleteAccountModal({
+  visible,
+  onClose,
+  userId,
+  households,
+}: DeleteAccountModalProps) {
+  const [password, setPassword] = useState('');
+  const [transferTo, setTransferTo] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const { isOnline } = useNetworkStatus();
+
+  const ownedHouseholds = useMemo(
+    () => households.filter((h) => h.ownerId === userId),
+    [households, userId]
+  );
+  const needsPassword = visible && getReauthenticationProvider() === 'password';
+
+  const reset = () => {
+    setPassword('');
+    setTransferTo({});
+  };
+
+  const handleCancel = () => {
+    reset();
+    onClose();
+  };
+
+  const handleChooseOwner = (householdId: string, newOwnerId: string | null) => {
+    setTransferTo((current) => {
+      const next = { ...current };
+      if (newOwnerId) {
+        next[householdId] = newOwnerId;
+      } else {
+        delete next[householdId];
+      }
+      return next;
+    });
+  };
+
+  const runDelete = async () => {
+    setLoading(true);
+    try {
+      await deleteAccount({ password: needsPassword ? password : undefined, transferTo });
+      await cancelAllNotifications();
+      reset();
+      onClose();
+    } catch (error: any) {
+      if (error.code === 'SIGN_IN_CANCELLED' || error.code === 'ERR_REQUEST_CANCELED') {
+        return;
+      }
+      Alert.alert('Error', error.message || 'Failed to delete account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = () => {
+    // Check network connectivity (per PROJECT_CHARTER)
+    if (!isOnline) {
+      Alert.alert('Offline', 'You must be online to delete your account.');
+      return;
+    }
+
+    if (needsPassword && !password) {
+      Alert.alert('Error', 'Please enter your password');
+      return;
+    }
+
+    const deletedCount = ownedHouseholds.filter((h) => !transferTo[h.id]).length;
+    const householdNote =
+      deletedCount > 0
+        ? ` ${deletedCount} household${deletedCount === 1 ? '' : 's'} you own will be deleted for everyone.`
+        : '';
+
+    Alert.alert(
+      'Delete Account?',
+      `Your profile, memberships and sent invites will be removed.${householdNote} This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: runDelete },
+      ]
+    );
+  };
+
+  return (
+    <ModalContainer
+      visible={visible}
+      onClose={handleCancel}
+      title="Delete Account"
+      estimatedHeight={480}
+    >
+      <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled">
+        <Typography variant="caption" muted style={styles.helpText}>
+          Chores assigned to you become unassigned in households you leave.
+        </Typography>
+
+        {ownedHouseholds.map((household) => (
+          <OwnedHouseholdChoice
+            key={household.id}
+            household={household}
+            userId={userId}
+            newOwnerId={transferTo[household.id]}
+            onChange={(newOwnerId) => handleChooseOwner(household.id, newOwnerId)}
+            disabled={loading}
+          />
+        ))}
+
+        {needsPassword && (
+          <Input
+            label="Password"
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Confirm your password"
+            secureTextEntry
+            autoCapitalize="none"
+            editable={!loading}
+            containerStyle={styles.inputContainer}
+          />
+        )}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <Button
+          title="Cancel"
+          variant="outlined"
+          onPress={handleCancel}
+          disabled={loading}
+          style={{ flex: 1 }}
+        />
+        <Button
+          title="Delete"
+          color="danger"
+          onPress={handleDelete}
+          loading={loading}
+          disabled={loading}
+          style={{ flex: 1 }}
+        />
+      </View>
+    </ModalContainer>
+  );
+}
+
+function OwnedHouseholdChoice({
+  household,
+  userId,
+  newOwnerId,
+  onChange,
+  disabled,
+}: {
+  household: Household;
+  userId: string;
+  newOwnerId: string | undefined;
+  onChange: (newOwnerId: string | null) => void;
+  disabled: boolean;
+}) {
+  const { data: members = [] } = useHouseholdMembers(household.id);
+  const otherMemberIds = useMemo(
+    () => members.filter((m) => m.userId !== userId).map((m) => m.userId),
+    [members, userId]
+  );
+  const { profiles } = useUserProfiles(otherMemberIds);
+
+  return (
+    <View style={styles.household}>
+      <Typography variant="label" style={styles.label}>
+        {household.name}
+      </Typography>
+      {otherMemberIds.length === 0 ? (
+        <Typography variant="caption" muted>
+          Only you are in this household. It will be deleted.
+        </Typography>
+      ) : (
+        <View style={styles.chips}>
+          <Chip
+            label="Delete"
+            selected={!newOwnerId}
+            onPress={() => onChange(null)}
+            disabled={disabled}
+          />
+          {otherMemberIds.map((memberId, index) => (
+            <Chip
+              key={memberId}
+              label={`Give to ${profiles[index]?.displayName ?? 'member'}`}
+              selected={newOwnerId === memberId}
+              onPress={() => onChange(memberId)}
+              disabled={disabled}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    maxHeight: 360,
+  },
+  helpText: {
+    marginBottom: 16,
+  },
+  household: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+});
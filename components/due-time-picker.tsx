@@ -0,0 +1,61 @@
+/**
+ * DueTimePicker - Optional time of day a chore is due
+ * Shared by the create chore screen and the inline chore edit form
+ */
+
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Typography } from '@/components/ui/typography';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { formatTimeOfDay, toTimeOfDay, withTimeOfDay } from '@/lib/utils/due-time';
+import React, { useState } from 'react';
+import { Platform, Pressable, StyleSheet, View } from 'react-native';
+
+/** Where the picker starts when no time has been chosen yet */
+const DEFAULT_PICKER_TIME = '09:00';
+
+interface DueTimePickerProps {
+  dueTime: string | undefined;
+  onChange: (dueTime: string | undefined) => void;
+}
+
+export function DueTimePicker({ dueTime, onChange }: DueTimePickerProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const [showPicker, setShowPicker] = useState(false);
+
+  const handleChange = (_event: any, selected?: Date) => {
+    if (Platform.OS === 'android') setShowPicker(false);
+    if (selected) onChange(toTimeOfDay(selected));
+  };
+
+  return (
+    <View>
+      <Pressable onPress={() => setShowPicker(!showPicker)}>
+        <Typography style={[styles.display, { color: dueTime ? tintColor : undefined }]}>
+          {dueTime ? `At ${formatTimeOfDay(dueTime)}` : 'Any time — tap to set a time'}
+        </Typography>
+      </Pressable>
+      {dueTime && (
+        <Pressable onPress={() => { onChange(undefined); setShowPicker(false); }}>
+          <Typography variant="caption" style={{ color: tintColor, marginTop: 4 }}>
+            Clear time
+          </Typography>
+        </Pressable>
+      )}
+
+      {showPicker && (
+        <DateTimePicker
+          value={withTimeOfDay(new Date(), dueTime ?? DEFAULT_PICKER_TIME)}
+          mode="time"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleChange}
+          style={styles.picker}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  display: { fontSize: 15, paddingVertical: 4 },
+  picker: { marginTop: 8 },
+});
@@ -9,7 +9,7 @@ import { Chip } from '@/components/ui/chip';
 import { LoadingState } from '@/components/ui/loading-state';
 import { Typography } from '@/components/ui/typography';
 import { useUserProfiles } from '@/lib/hooks/use-users';
-import { HouseholdMember } from '@/lib/types/household';
+import { HouseholdMember, HouseholdRole } from '@/lib/types/household';
 import React, { useMemo, useState } from 'react';
 import {
   Alert,
@@ -23,6 +23,8 @@ interface HouseholdMemberListProps {
   isCurrentUserAdmin: boolean;
   householdOwnerId: string;
   onRemoveMember: (userId: string) => Promise<void>;
+  onChangeRole: (userId: string, role: HouseholdRole) => Promise<void>;
+  onTransferOwnership: (userId: string) => Promise<void>;
 }
 
 export function HouseholdMemberList({
@@ -31,8 +33,12 @@ export function HouseholdMemberList({
   isCurrentUserAdmin,
   householdOwnerId,
   onRemoveMember,
+  onChangeRole,
+  onTransferOwnership,
 }: HouseholdMemberListProps) {
   const [removingUserId, setRemovingUserId] = useState<string | null>(null);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const isCurrentUserOwner = currentUserId === householdOwnerId;
 
   const userIds = useMemo(() => members.map((m) => m.userId), [members]);
   const { profiles, isLoading: loading } = useUserProfiles(userIds);
@@ -75,6 +81,51 @@ export function HouseholdMemberList({
     );
   };
 
+  const runMemberAction = async (userId: string, action: () => Promise<void>) => {
+    try {
+      setUpdatingUserId(userId);
+      await action();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const confirmTransferOwnership = (member: (typeof membersWithUsers)[number]) => {
+    const memberName = member.user?.displayName || member.userId;
+
+    Alert.alert(
+      'Transfer Ownership',
+      `Make ${memberName} the owner of this household? They become an admin, and only they will be able to delete the household. You stay an admin.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Transfer',
+          style: 'destructive',
+          onPress: () =>
+            runMemberAction(member.userId, () => onTransferOwnership(member.userId)),
+        },
+      ]
+    );
+  };
+
+  const handleManageMember = (member: (typeof membersWithUsers)[number]) => {
+    const memberName = member.user?.displayName || member.userId;
+    const newRole: HouseholdRole = member.role === 'admin' ? 'member' : 'admin';
+
+    Alert.alert(memberName, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: newRole === 'admin' ? 'Make Admin' : 'Make Member',
+        onPress: () => runMemberAction(member.userId, () => onChangeRole(member.userId, newRole)),
+      },
+      ...(isCurrentUserOwner
+        ? [{ text: 'Transfer Ownership', onPress: () => confirmTransferOwnership(member) }]
+        : []),
+    ]);
+  };
+
   if (loading) {
     return <LoadingState message="Loading members..." size="small" />;
   }
@@ -90,6 +141,8 @@ export function HouseholdMemberList({
         const isOwner = member.userId === householdOwnerId;
         // Users can remove themselves (leave) OR admins can remove non-owner members
         const canRemove = isSelf || (isCurrentUserAdmin && !isOwner);
+        // Admins manage other members' roles; the owner's role is fixed
+        const canManage = isCurrentUserAdmin && !isSelf && !isOwner;
 
         return (
           <Card
@@ -105,7 +158,7 @@ export function HouseholdMemberList({
                     {isSelf && <Typography muted style={styles.youLabel}> (You)</Typography>}
                   </Typography>
                   <Chip
-                    label={member.role === 'admin' ? 'Admin' : 'Member'}
+                    label={isOwner ? 'Owner' : member.role === 'admin' ? 'Admin' : 'Member'}
                     selected
                     size="sm"
                   />
@@ -118,6 +171,17 @@ export function HouseholdMemberList({
                 </Typography>
               </View>
 
+              {canManage && (
+                <Button
+                  title="Manage"
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => handleManageMember(member)}
+                  loading={updatingUserId === member.userId}
+                  disabled={updatingUserId === member.userId}
+                />
+              )}
+
               {canRemove && (
                 <Button
                   title={isSelf ? 'Leave' : 'Remove'}
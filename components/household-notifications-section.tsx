@@ -0,0 +1,116 @@
+/**
+ * HouseholdNotificationsSection - The user's notification overrides for one
+ * household, shown on the household settings screen
+ */
+
+import { SettingRow } from '@/components/setting-row';
+import { Card } from '@/components/ui/card';
+import { Typography } from '@/components/ui/typography';
+import { useTodayChores } from '@/lib/hooks/use-chores';
+import { useUserHouseholds } from '@/lib/hooks/use-households';
+import { useNotificationSettings } from '@/lib/hooks/use-notification-settings';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import {
+  getHouseholdNotificationSettings,
+  scheduleAllNotifications,
+} from '@/lib/services/notification-service';
+import { HouseholdNotificationSettings } from '@/lib/types/user';
+import React, { useCallback, useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+interface HouseholdNotificationsSectionProps {
+  householdId: string;
+  userId: string;
+}
+
+export function HouseholdNotificationsSection({
+  householdId,
+  userId,
+}: HouseholdNotificationsSectionProps) {
+  const borderColor = useThemeColor({}, 'border');
+  const { settings, updateSettings, loading } = useNotificationSettings(userId);
+  const household = getHouseholdNotificationSettings(settings, householdId);
+
+  // Rescheduling needs every household's chores, not just this one's
+  const { data: households = [] } = useUserHouseholds(userId);
+  const householdIds = useMemo(() => households.map((h) => h.id), [households]);
+  const { data: chores = [] } = useTodayChores(userId, householdIds);
+
+  const handleChange = useCallback(
+    async (updates: Partial<HouseholdNotificationSettings>) => {
+      const next = await updateSettings({
+        householdOverrides: {
+          ...settings.householdOverrides,
+          [householdId]: { ...household, ...updates },
+        },
+      });
+      await scheduleAllNotifications(chores, next, userId);
+    },
+    [updateSettings, settings.householdOverrides, householdId, household, chores, userId]
+  );
+
+  if (loading) return null;
+
+  return (
+    <View style={styles.section}>
+      <Typography variant="sectionTitle" style={styles.sectionTitle}>
+        Notifications
+      </Typography>
+      <Card>
+        {settings.enabled ? (
+          <>
+            <SettingRow
+              label="Notifications"
+              description="Get notified about this household's chores"
+              value={household.enabled}
+              onToggle={(enabled) => handleChange({ enabled })}
+            />
+            {household.enabled && (
+              <View style={[styles.rows, { borderTopColor: borderColor }]}>
+                <SettingRow
+                  label="Only My Chores"
+                  description="Skip chores assigned to others or to no one"
+                  value={household.onlyAssignedToMe}
+                  onToggle={(onlyAssignedToMe) => handleChange({ onlyAssignedToMe })}
+                />
+                <SettingRow
+                  label="Daily Reminder"
+                  description="Count this household's chores in the daily reminder"
+                  value={household.dailyReminderEnabled}
+                  onToggle={(dailyReminderEnabled) => handleChange({ dailyReminderEnabled })}
+                />
+                <SettingRow
+                  label="Due Date Alerts"
+                  description="Reminders before chores are due"
+                  value={household.choreAlertsEnabled}
+                  onToggle={(choreAlertsEnabled) => handleChange({ choreAlertsEnabled })}
+                />
+                <SettingRow
+                  label="Overdue Follow-ups"
+                  description="Reminders about chores still open after they're due"
+                  value={household.overdueRemindersEnabled}
+                  onToggle={(overdueRemindersEnabled) => handleChange({ overdueRemindersEnabled })}
+                />
+              </View>
+            )}
+          </>
+        ) : (
+          <Typography variant="caption" muted>
+            Notifications are turned off in Settings.
+          </Typography>
+        )}
+      </Card>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 32 },
+  sectionTitle: { marginBottom: 12 },
+  rows: {
+    gap: 16,
+    paddingTop: 14,
+    marginTop: 14,
+    borderTopWidth: 1,
+  },
+});
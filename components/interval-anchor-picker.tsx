@@ -0,0 +1,57 @@
+/**
+ * IntervalAnchorPicker - Fixed schedule vs. from-completion toggle
+ * Shared by the create chore screen and the inline chore edit form
+ */
+
+import { Chip } from '@/components/ui/chip';
+import { Typography } from '@/components/ui/typography';
+import { IntervalAnchor } from '@/lib/types/chore';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+const ANCHOR_OPTIONS: { anchor: IntervalAnchor; label: string; hint: string }[] = [
+  {
+    anchor: 'floating',
+    label: 'From completion',
+    hint: 'The next due date counts from when it was done.',
+  },
+  {
+    anchor: 'fixed',
+    label: 'Fixed schedule',
+    hint: 'Stays on the calendar; late completions skip missed dates.',
+  },
+];
+
+interface IntervalAnchorPickerProps {
+  anchor: IntervalAnchor;
+  onChange: (anchor: IntervalAnchor) => void;
+}
+
+export function IntervalAnchorPicker({ anchor, onChange }: IntervalAnchorPickerProps) {
+  const selected = ANCHOR_OPTIONS.find((option) => option.anchor === anchor);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.chips}>
+        {ANCHOR_OPTIONS.map((option) => (
+          <Chip
+            key={option.anchor}
+            label={option.label}
+            selected={option.anchor === anchor}
+            onPress={() => onChange(option.anchor)}
+          />
+        ))}
+      </View>
+      {selected && (
+        <Typography variant="caption" muted>
+          {selected.hint}
+        </Typography>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { gap: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+});
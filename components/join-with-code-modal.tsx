@@ -0,0 +1,99 @@
+/**
+ * Join With Code Modal
+ * Modal for typing a household join code; opens the join screen for it
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ModalContainer } from '@/components/ui/modal-container';
+import { normalizeJoinCode } from '@/lib/services/invite-service';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+
+interface JoinWithCodeModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function JoinWithCodeModal({ visible, onClose }: JoinWithCodeModalProps) {
+  const [code, setCode] = useState('');
+  const inputRef = useRef<TextInput>(null);
+  const router = useRouter();
+
+  // Focus input when modal becomes visible
+  useEffect(() => {
+    if (!visible) return;
+    const timer = setTimeout(() => {
+      inputRef.current?.focus();
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [visible]);
+
+  const handleContinue = () => {
+    const normalized = normalizeJoinCode(code);
+
+    if (!normalized) {
+      Alert.alert('Error', 'Please enter a join code');
+      return;
+    }
+
+    setCode('');
+    onClose();
+    router.push(`/join/${normalized}`);
+  };
+
+  const handleCancel = () => {
+    setCode('');
+    onClose();
+  };
+
+  return (
+    <ModalContainer
+      visible={visible}
+      onClose={handleCancel}
+      title="Join with a Code"
+    >
+      <Input
+        ref={inputRef}
+        label="Join Code"
+        value={code}
+        onChangeText={setCode}
+        placeholder="ABCD2345"
+        autoCapitalize="characters"
+        autoCorrect={false}
+        onSubmitEditing={handleContinue}
+        containerStyle={styles.inputContainer}
+      />
+
+      <View style={styles.buttonContainer}>
+        <Button
+          title="Cancel"
+          variant="outlined"
+          onPress={handleCancel}
+          style={{ flex: 1 }}
+        />
+        <Button
+          title="Continue"
+          onPress={handleContinue}
+          style={{ flex: 1 }}
+        />
+      </View>
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    marginBottom: 20,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+});
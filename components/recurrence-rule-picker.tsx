@@ -0,0 +1,157 @@
+/**
+ * RecurrenceRulePicker - Optional day rule for weekly and monthly chores
+ * Weekly: pick weekdays. Monthly: same date, a fixed day of the month,
+ * or the nth weekday of the month. Shared by create and edit chore forms.
+ */
+
+import { Chip } from '@/components/ui/chip';
+import { Input } from '@/components/ui/input';
+import { Typography } from '@/components/ui/typography';
+import { IntervalType, RecurrenceRule, Weekday } from '@/lib/types/chore';
+import { SET_POS_OPTIONS, WEEKDAY_SHORT_LABELS } from '@/lib/utils/recurrence';
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+type MonthlyMode = 'sameDate' | 'monthDay' | 'setPos';
+
+const MONTHLY_MODES: { mode: MonthlyMode; label: string }[] = [
+  { mode: 'sameDate', label: 'Same date' },
+  { mode: 'monthDay', label: 'Day of month' },
+  { mode: 'setPos', label: 'Weekday of month' },
+];
+
+interface RecurrenceRulePickerProps {
+  intervalType: IntervalType;
+  rule: RecurrenceRule | undefined;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+function getMonthlyMode(rule: RecurrenceRule | undefined): MonthlyMode {
+  if (rule?.byMonthDay !== undefined) return 'monthDay';
+  if (rule?.bySetPos !== undefined) return 'setPos';
+  return 'sameDate';
+}
+
+export function RecurrenceRulePicker({ intervalType, rule, onChange }: RecurrenceRulePickerProps) {
+  const [dayText, setDayText] = useState(
+    rule?.byMonthDay !== undefined && rule.byMonthDay > 0 ? String(rule.byMonthDay) : ''
+  );
+
+  if (intervalType === 'weekly') {
+    const selected = rule?.byWeekday ?? [];
+    const toggleWeekday = (day: Weekday) => {
+      const next = selected.includes(day)
+        ? selected.filter((d) => d !== day)
+        : [...selected, day].sort((a, b) => a - b);
+      onChange(next.length > 0 ? { byWeekday: next } : undefined);
+    };
+
+    return (
+      <View style={styles.section}>
+        <Typography variant="caption" muted>
+          On specific days (optional)
+        </Typography>
+        <View style={styles.chips}>
+          {WEEKDAY_SHORT_LABELS.map((label, day) => (
+            <Chip
+              key={label}
+              label={label}
+              selected={selected.includes(day as Weekday)}
+              onPress={() => toggleWeekday(day as Weekday)}
+            />
+          ))}
+        </View>
+      </View>
+    );
+  }
+
+  if (intervalType !== 'monthly') return null;
+
+  const mode = getMonthlyMode(rule);
+  const today = new Date();
+
+  const selectMode = (next: MonthlyMode) => {
+    if (next === 'sameDate') {
+      onChange(undefined);
+    } else if (next === 'monthDay') {
+      setDayText(String(today.getDate()));
+      onChange({ byMonthDay: today.getDate() });
+    } else {
+      // Default to today's position, e.g. "third Tuesday"
+      const pos = Math.min(Math.ceil(today.getDate() / 7), 4);
+      onChange({ byWeekday: [today.getDay() as Weekday], bySetPos: pos });
+    }
+  };
+
+  const handleDayText = (text: string) => {
+    setDayText(text);
+    const day = parseInt(text, 10);
+    if (day >= 1 && day <= 31) onChange({ byMonthDay: day });
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.chips}>
+        {MONTHLY_MODES.map((option) => (
+          <Chip
+            key={option.mode}
+            label={option.label}
+            selected={mode === option.mode}
+            onPress={() => selectMode(option.mode)}
+          />
+        ))}
+      </View>
+
+      {mode === 'monthDay' && (
+        <View style={styles.inlineRow}>
+          <Typography muted>Day</Typography>
+          <Input
+            value={rule?.byMonthDay === -1 ? '' : dayText}
+            onChangeText={handleDayText}
+            keyboardType="number-pad"
+            maxLength={2}
+            placeholder="1–31"
+            style={styles.dayInput}
+          />
+          <Chip
+            label="Last day"
+            selected={rule?.byMonthDay === -1}
+            onPress={() => onChange({ byMonthDay: -1 })}
+          />
+        </View>
+      )}
+
+      {mode === 'setPos' && rule && (
+        <>
+          <View style={styles.chips}>
+            {SET_POS_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                selected={rule.bySetPos === option.value}
+                onPress={() => onChange({ ...rule, bySetPos: option.value })}
+              />
+            ))}
+          </View>
+          <View style={styles.chips}>
+            {WEEKDAY_SHORT_LABELS.map((label, day) => (
+              <Chip
+                key={label}
+                label={label}
+                selected={rule.byWeekday?.[0] === day}
+                onPress={() => onChange({ ...rule, byWeekday: [day as Weekday] })}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { gap: 10 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  inlineRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  dayInput: { width: 70, textAlign: 'center' },
+});
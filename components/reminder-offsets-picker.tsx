@@ -0,0 +1,57 @@
+/**
+ * ReminderOffsetsPicker - When to be reminded before a chore is due
+ * Shared by the create chore screen and the inline chore edit form
+ */
+
+import { Chip } from '@/components/ui/chip';
+import { Typography } from '@/components/ui/typography';
+import { describeReminderOffset, REMINDER_OFFSET_OPTIONS } from '@/lib/utils/due-time';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+interface ReminderOffsetsPickerProps {
+  offsets: number[];
+  onChange: (offsets: number[]) => void;
+  /** Whether the chore has a due time (otherwise reminders count back from 8:00 AM) */
+  hasDueTime: boolean;
+}
+
+export function ReminderOffsetsPicker({ offsets, onChange, hasDueTime }: ReminderOffsetsPickerProps) {
+  const toggle = (offset: number) => {
+    const next = offsets.includes(offset)
+      ? offsets.filter((o) => o !== offset)
+      : [...offsets, offset];
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.chips}>
+        {REMINDER_OFFSET_OPTIONS.map((offset) => (
+          <Chip
+            key={offset}
+            label={describeReminderOffset(offset)}
+            selected={offsets.includes(offset)}
+            onPress={() => toggle(offset)}
+          />
+        ))}
+      </View>
+      {offsets.length === 0 ? (
+        <Typography variant="caption" muted>
+          No reminders for this chore.
+        </Typography>
+      ) : (
+        !hasDueTime && (
+          <Typography variant="caption" muted>
+            Without a due time, reminders count back from 8:00 AM on the due date.
+          </Typography>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { gap: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+});
@@ -13,6 +13,7 @@ import {
   useDeleteRoom,
   useHouseholdRooms,
 } from '@/lib/hooks/use-rooms';
+import { isMutationRunning, mutateOrQueue } from '@/lib/mutation-queue';
 import { updateRoom } from '@/lib/services/room-service';
 import { Room } from '@/lib/types/room';
 import React, { useState } from 'react';
@@ -58,7 +59,7 @@ export function RoomManagementModal({
     }
 
     try {
-      await createRoomMutation.mutateAsync({
+      await mutateOrQueue(createRoomMutation, {
         householdId,
         name: trimmedName,
         isDefault: false,
@@ -118,7 +119,7 @@ export function RoomManagementModal({
           onPress: async () => {
             if (!user) return;
             try {
-              await deleteRoomMutation.mutateAsync({
+              await mutateOrQueue(deleteRoomMutation, {
                 householdId,
                 roomId: room.id,
                 requestingUserId: user.uid,
@@ -134,8 +135,8 @@ export function RoomManagementModal({
   };
 
   const loading =
-    createRoomMutation.isPending ||
-    deleteRoomMutation.isPending;
+    isMutationRunning(createRoomMutation) ||
+    isMutationRunning(deleteRoomMutation);
 
   return (
     <ModalContainer
@@ -238,7 +239,7 @@ export function RoomManagementModal({
               onPress={handleCreateRoom}
               size="sm"
               disabled={loading || !newRoomName.trim()}
-              loading={createRoomMutation.isPending}
+              loading={isMutationRunning(createRoomMutation)}
             />
           </View>
         </View>
@@ -0,0 +1,84 @@
+/**
+ * RotationPicker - Assignee rotation settings for the chore edit form
+ * Choose when the turn passes on, then tap members in the order they rotate
+ */
+
+import { Chip } from '@/components/ui/chip';
+import { Typography } from '@/components/ui/typography';
+import { AssigneeRotation, RotationMode } from '@/lib/types/chore';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+const MODE_OPTIONS: { mode: RotationMode | null; label: string }[] = [
+  { mode: null, label: 'No rotation' },
+  { mode: 'completion', label: 'Each completion' },
+  { mode: 'period', label: 'Each due period' },
+];
+
+interface RotationPickerProps {
+  rotation: AssigneeRotation | undefined;
+  onChange: (rotation: AssigneeRotation | undefined) => void;
+  members: { userId: string }[];
+  profiles: (null | { displayName: string })[];
+}
+
+export function RotationPicker({ rotation, onChange, members, profiles }: RotationPickerProps) {
+  const selectMode = (mode: RotationMode | null) => {
+    if (!mode) {
+      onChange(undefined);
+    } else {
+      // Default to everyone in member-list order when first enabled
+      onChange({ mode, memberIds: rotation?.memberIds ?? members.map((m) => m.userId) });
+    }
+  };
+
+  const toggleMember = (userId: string) => {
+    if (!rotation) return;
+    const memberIds = rotation.memberIds.includes(userId)
+      ? rotation.memberIds.filter((id) => id !== userId)
+      : [...rotation.memberIds, userId];
+    onChange({ ...rotation, memberIds });
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.chips}>
+        {MODE_OPTIONS.map((option) => (
+          <Chip
+            key={option.label}
+            label={option.label}
+            selected={(rotation?.mode ?? null) === option.mode}
+            onPress={() => selectMode(option.mode)}
+          />
+        ))}
+      </View>
+
+      {rotation && (
+        <>
+          <Typography variant="caption" muted>
+            Tap members in turn order
+          </Typography>
+          <View style={styles.chips}>
+            {members.map((m, i) => {
+              const position = rotation.memberIds.indexOf(m.userId);
+              const name = profiles[i]?.displayName ?? 'User';
+              return (
+                <Chip
+                  key={m.userId}
+                  label={position >= 0 ? `${position + 1}. ${name}` : name}
+                  selected={position >= 0}
+                  onPress={() => toggleMember(m.userId)}
+                />
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { gap: 8 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+});
@@ -0,0 +1,49 @@
+/**
+ * SettingRow - A labelled switch with a short description
+ * Shared by the settings tab and the household settings screen
+ */
+
+import { Typography } from '@/components/ui/typography';
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import React from 'react';
+import { StyleSheet, Switch, View } from 'react-native';
+
+interface SettingRowProps {
+  label: string;
+  description: string;
+  value: boolean;
+  onToggle: (value: boolean) => void;
+}
+
+export function SettingRow({ label, description, value, onToggle }: SettingRowProps) {
+  const accentColor = useThemeColor({}, 'badgeBackground');
+  const inactiveTrackColor = useThemeColor({}, 'buttonBackground');
+  const thumbColor = useThemeColor({}, 'background');
+  const inactiveThumbColor = useThemeColor({}, 'icon');
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.text}>
+        <Typography variant="bodySemiBold">{label}</Typography>
+        <Typography variant="caption" muted>
+          {description}
+        </Typography>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onToggle}
+        trackColor={{ false: inactiveTrackColor, true: accentColor }}
+        thumbColor={value ? thumbColor : inactiveThumbColor}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  text: { flex: 1, marginRight: 12 },
+});
@@ -23,6 +23,7 @@ const MAPPING = {
   'calendar': 'event',
   'person.2.fill': 'group',
   'plus': 'add',
+  'clock.arrow.circlepath': 'history',
 } as IconMapping;
 
 /**
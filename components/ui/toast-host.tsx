@@ -0,0 +1,63 @@
+/**
+ * ToastHost component
+ * Shows the latest toast from `showToast` near the bottom of the screen,
+ * fading it out after a few seconds.
+ */
+
+import { useThemeColor } from '@/lib/hooks/use-theme-color';
+import { subscribeToToasts, Toast } from '@/lib/utils/toast';
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, StyleSheet } from 'react-native';
+import { Typography } from './typography';
+
+const VISIBLE_MS = 3000;
+
+export function ToastHost() {
+  const [toast, setToast] = useState<Toast | null>(null);
+  const opacity = useRef(new Animated.Value(0)).current;
+  const backgroundColor = useThemeColor({}, 'text');
+  const textColor = useThemeColor({}, 'background');
+
+  useEffect(() => subscribeToToasts(setToast), []);
+
+  useEffect(() => {
+    if (!toast) return;
+
+    opacity.setValue(0);
+    Animated.timing(opacity, { toValue: 1, duration: 150, useNativeDriver: true }).start();
+
+    const timer = setTimeout(() => {
+      Animated.timing(opacity, { toValue: 0, duration: 200, useNativeDriver: true }).start(() =>
+        setToast((current) => (current?.id === toast.id ? null : current))
+      );
+    }, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [toast, opacity]);
+
+  if (!toast) return null;
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      accessibilityLiveRegion="polite"
+      style={[styles.toast, { backgroundColor, opacity }]}
+    >
+      <Typography variant="caption" style={{ color: textColor }}>
+        {toast.message}
+      </Typography>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 100,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+});
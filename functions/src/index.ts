@@ -0,0 +1,47 @@
+/**
+ * Cloud Functions entry point
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getMessaging } from 'firebase-admin/messaging';
+import { logger } from 'firebase-functions';
+import {
+  onDocumentCreated,
+  onDocumentWrittenWithAuthContext,
+} from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { sweepOverdueChores } from './overdue-sweep';
+import { notifyChoreChange, notifyMemberJoined } from './push-notifications';
+
+initializeApp();
+
+/** Recompute isOverdue for chores whose due date has passed. */
+export const markOverdueChores = onSchedule('every 15 minutes', async () => {
+  const updated = await sweepOverdueChores(getFirestore());
+  logger.info(`Marked ${updated} chore(s) overdue`);
+});
+
+/** Push assignments and completions of shared chores to other members. */
+export const pushChoreChanges = onDocumentWrittenWithAuthContext(
+  'chores/{choreId}',
+  async (event) => {
+    if (!event.data) return;
+    const sent = await notifyChoreChange(
+      getFirestore(),
+      getMessaging(),
+      event.params.choreId,
+      event.data.before.data(),
+      event.data.after.data(),
+      event.authId
+    );
+    if (sent > 0) logger.info(`Sent ${sent} push(es) for chore ${event.params.choreId}`);
+  }
+);
+
+/** Push new members to the rest of their household. */
+export const pushMemberJoined = onDocumentCreated('householdMembers/{memberId}', async (event) => {
+  if (!event.data) return;
+  const sent = await notifyMemberJoined(getFirestore(), getMessaging(), event.data.data());
+  if (sent > 0) logger.info(`Sent ${sent} push(es) for member ${event.params.memberId}`);
+});
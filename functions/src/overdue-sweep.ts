@@ -0,0 +1,55 @@
+/**
+ * Overdue sweep
+ * Flags chores whose due date has passed so isOverdue stays accurate for
+ * queries (and other members' devices) even when no client recomputes it.
+ */
+
+import { Firestore, QueryDocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+
+/** Chores read and written per page (also Firestore's batch write limit). */
+export const SWEEP_PAGE_SIZE = 500;
+
+/**
+ * Mark every chore that is due before `now` and not yet flagged as overdue.
+ * The app stores dueAt at the chore's dueTime, so comparing dueAt is enough.
+ * Chores with a lastCompletion are skipped, matching isChoreOverdue() in the
+ * app. Returns the number of chores updated.
+ */
+export async function sweepOverdueChores(
+  db: Firestore,
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = Timestamp.fromDate(now);
+  let updated = 0;
+  let cursor: QueryDocumentSnapshot | undefined;
+
+  // Page by dueAt: flagged chores drop out of the query, but completed ones
+  // stay in it, so a cursor is needed to move past them.
+  for (;;) {
+    let pageQuery = db
+      .collection('chores')
+      .where('isOverdue', '==', false)
+      .where('dueAt', '<', cutoff)
+      .orderBy('dueAt')
+      .limit(SWEEP_PAGE_SIZE);
+    if (cursor) pageQuery = pageQuery.startAfter(cursor);
+
+    const page = await pageQuery.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let batched = 0;
+    for (const choreDoc of page.docs) {
+      if (choreDoc.get('lastCompletion')) continue;
+      batch.update(choreDoc.ref, { isOverdue: true, updatedAt: Timestamp.now() });
+      batched++;
+    }
+    if (batched > 0) await batch.commit();
+
+    updated += batched;
+    cursor = page.docs[page.docs.length - 1];
+    if (page.size < SWEEP_PAGE_SIZE) break;
+  }
+
+  return updated;
+}
@@ -0,0 +1,278 @@
+/**
+ * Push notifications
+ * Tells household members about each other's activity over FCM: chores
+ * assigned to them, completions of chores they share, and new members.
+ * Reminders are scheduled locally on each device; these cover only what
+ * someone else did.
+ */
+
+import { DocumentData, FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Messaging } from 'firebase-admin/messaging';
+
+/** The part of the FCM client used here, so tests can pass a stub. */
+export type PushMessenger = Pick<Messaging, 'sendEachForMulticast'>;
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  /** Read by the app to open the chore when the push is tapped */
+  data: Record<string, string>;
+  /**
+   * The chore it is about, if any. Pushes about a chore are chore alerts,
+   * sent only to users whose chore filter and household override cover it.
+   */
+  chore?: DocumentData;
+}
+
+/** The app's defaults for households without an override. */
+const DEFAULT_HOUSEHOLD_SETTINGS = { enabled: true, onlyAssignedToMe: false, choreAlertsEnabled: true };
+
+/** FCM errors meaning a token will never work again, so it is removed. */
+const STALE_TOKEN_ERRORS = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+]);
+
+// ── Lookups ──
+
+async function getHouseholdMemberIds(db: Firestore, householdId: string): Promise<string[]> {
+  const members = await db
+    .collection('householdMembers')
+    .where('householdId', '==', householdId)
+    .get();
+  return members.docs.map((memberDoc) => memberDoc.get('userId') as string);
+}
+
+function devicesDoc(db: Firestore, userId: string) {
+  return db.doc(`users/${userId}/private/devices`);
+}
+
+async function getDisplayName(db: Firestore, userId: string | undefined): Promise<string> {
+  if (!userId) return 'Someone';
+  const userDoc = await db.doc(`users/${userId}`).get();
+  return (userDoc.get('displayName') as string | undefined) || 'Someone';
+}
+
+// ── Preferences ──
+
+function minutesOfDay(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether `now` falls in the user's quiet hours, read in the timezone their
+ * settings were last saved from. The window may span midnight. Without a
+ * (valid) timezone there is no telling, so nothing counts as quiet.
+ */
+function inQuietHours(settings: DocumentData, now: Date): boolean {
+  const { quietHoursEnabled, quietHoursStart, quietHoursEnd, timeZone } = settings;
+  if (!quietHoursEnabled || !timeZone || quietHoursStart === quietHoursEnd) return false;
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return false;
+  }
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const minutes = part('hour') * 60 + part('minute');
+
+  const start = minutesOfDay(quietHoursStart);
+  const end = minutesOfDay(quietHoursEnd);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/** Whether a chore passes a chore filter, matching matchesChoreFilter() in the app. */
+function matchesChoreFilter(chore: DocumentData, filter: string | undefined, userId: string): boolean {
+  if (!filter || filter === 'everyone') return true;
+  if (chore.assignedTo === userId) return true;
+  return filter === 'mineAndUnassigned' && !chore.assignedTo;
+}
+
+/**
+ * Whether a user's notification settings let a push about this household
+ * through: the global switch, quiet hours and the household's override.
+ * Pushes about a chore also need chore alerts on, globally and for the
+ * household, and the chore must pass onlyAssignedToMe and the chore filter.
+ * Pushes can't be held back, so quiet hours drop them.
+ */
+function wantsPushes(
+  userId: string,
+  settings: DocumentData | undefined,
+  householdId: string,
+  notification: PushNotification,
+  now: Date
+): boolean {
+  if (!settings) return true;
+  if (settings.enabled === false || inQuietHours(settings, now)) return false;
+
+  const household = { ...DEFAULT_HOUSEHOLD_SETTINGS, ...settings.householdOverrides?.[householdId] };
+  if (!household.enabled) return false;
+
+  const { chore } = notification;
+  if (!chore) return true;
+  if (settings.choreAlertsEnabled === false || !household.choreAlertsEnabled) return false;
+  if (household.onlyAssignedToMe && chore.assignedTo !== userId) return false;
+  return matchesChoreFilter(chore, settings.choreFilter, userId);
+}
+
+// ── Sending ──
+
+/**
+ * Push a notification to every registered device of `userIds` whose
+ * notification settings let it through at `now`. Both live in the user's
+ * owner-only /users/{uid}/private documents. Tokens FCM rejects as stale
+ * are removed. Returns the number of pushes delivered.
+ */
+export async function sendPush(
+  db: Firestore,
+  messaging: PushMessenger,
+  userIds: string[],
+  householdId: string,
+  notification: PushNotification,
+  now: Date = new Date()
+): Promise<number> {
+  const unique = [...new Set(userIds)];
+  if (unique.length === 0) return 0;
+
+  const [devices, settings] = await Promise.all([
+    db.getAll(...unique.map((userId) => devicesDoc(db, userId))),
+    db.getAll(...unique.map((userId) => db.doc(`users/${userId}/private/notificationSettings`))),
+  ]);
+  const tokens: string[] = [];
+  const owners: string[] = [];
+  unique.forEach((userId, i) => {
+    if (!wantsPushes(userId, settings[i].data(), householdId, notification, now)) return;
+    for (const token of (devices[i].get('pushTokens') as string[] | undefined) ?? []) {
+      tokens.push(token);
+      owners.push(userId);
+    }
+  });
+  if (tokens.length === 0) return 0;
+
+  const response = await messaging.sendEachForMulticast({
+    tokens,
+    notification: { title: notification.title, body: notification.body },
+    data: notification.data,
+  });
+
+  const batch = db.batch();
+  let stale = 0;
+  response.responses.forEach((result, i) => {
+    if (result.success || !STALE_TOKEN_ERRORS.has(result.error?.code ?? '')) return;
+    batch.update(devicesDoc(db, owners[i]), { pushTokens: FieldValue.arrayRemove(tokens[i]) });
+    stale++;
+  });
+  if (stale > 0) await batch.commit();
+
+  return response.successCount;
+}
+
+// ── Chores ──
+
+function isNewCompletion(before: DocumentData | undefined, after: DocumentData): boolean {
+  const completedAt = after.lastCompletion?.completedAt as Timestamp | undefined;
+  if (!completedAt) return false;
+  const previous = before?.lastCompletion?.completedAt as Timestamp | undefined;
+  return !previous || !previous.isEqual(completedAt);
+}
+
+/**
+ * Who shares a chore and hears when someone else completes it: the
+ * rotation if it rotates, everyone in the household if it is unassigned,
+ * otherwise the assignee.
+ */
+async function getChoreSharers(db: Firestore, chore: DocumentData): Promise<string[]> {
+  if (chore.rotation?.memberIds?.length) return chore.rotation.memberIds as string[];
+  if (!chore.assignedTo) return getHouseholdMemberIds(db, chore.householdId);
+  return [chore.assignedTo as string];
+}
+
+/**
+ * Push the changes in one chore write that other members should hear
+ * about: a new assignee (unless they assigned it to themselves) and a new
+ * completion (to everyone sharing it but the completer). `actorId` is the
+ * user who made the write, if known. Returns the number of pushes delivered.
+ */
+export async function notifyChoreChange(
+  db: Firestore,
+  messaging: PushMessenger,
+  choreId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined,
+  actorId?: string
+): Promise<number> {
+  if (!after) return 0;
+
+  const householdId = after.householdId as string;
+  const name = after.name as string;
+  const data = { choreId, householdId };
+  const completed = isNewCompletion(before, after);
+  let sent = 0;
+
+  const assignee = after.assignedTo as string | undefined;
+  const newlyAssigned = !!assignee && assignee !== before?.assignedTo && assignee !== actorId;
+  if (assignee && newlyAssigned) {
+    // A rotation handing off on completion is a turn, not someone's choice
+    const body = completed
+      ? `It's your turn to do "${name}".`
+      : `${await getDisplayName(db, actorId)} assigned "${name}" to you.`;
+    sent += await sendPush(db, messaging, [assignee], householdId, {
+      title: 'Chore assigned to you',
+      body,
+      data,
+      chore: after,
+    });
+  }
+
+  if (completed) {
+    const completedBy = after.lastCompletion.completedBy as string;
+    // Shared as it was when completed; whoever it just rotated to has been told already
+    const shared = before ?? after;
+    const sharers = (await getChoreSharers(db, shared)).filter(
+      (userId) => userId !== completedBy && !(newlyAssigned && userId === assignee)
+    );
+    if (sharers.length > 0) {
+      sent += await sendPush(db, messaging, sharers, householdId, {
+        title: 'Chore completed',
+        body: `${await getDisplayName(db, completedBy)} completed "${name}".`,
+        data,
+        chore: shared,
+      });
+    }
+  }
+
+  return sent;
+}
+
+// ── Members ──
+
+/**
+ * Push a new membership to the household's other members. Returns the
+ * number of pushes delivered.
+ */
+export async function notifyMemberJoined(
+  db: Firestore,
+  messaging: PushMessenger,
+  member: DocumentData
+): Promise<number> {
+  const householdId = member.householdId as string;
+  const others = (await getHouseholdMemberIds(db, householdId)).filter(
+    (userId) => userId !== member.userId
+  );
+  if (others.length === 0) return 0;
+
+  const household = await db.doc(`households/${householdId}`).get();
+  const householdName = (household.get('name') as string | undefined) ?? 'your household';
+  return sendPush(db, messaging, others, householdId, {
+    title: 'New household member',
+    body: `${await getDisplayName(db, member.userId)} joined ${householdName}.`,
+    data: { householdId },
+  });
+}
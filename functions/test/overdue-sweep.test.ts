@@ -0,0 +1,201 @@
+/**
+ * Runs against the Firestore emulator (`npm test` starts it via
+ * `firebase emulators:exec`), seeded with the same generator as `pnpm seed`.
+ */
+
+import { deleteApp, initializeApp } from 'firebase-admin/app';
+import { DocumentData, Firestore, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  buildSeedChore,
+  CUSTOM_ROOMS,
+  DEFAULT_ROOMS,
+  TEST_USERS,
+} from '../../scripts/seed-data';
+import { sweepOverdueChores, SWEEP_PAGE_SIZE } from '../src/overdue-sweep';
+
+const PROJECT_ID = 'demo-overdue';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const app = initializeApp({ projectId: PROJECT_ID });
+const db = getFirestore(app);
+
+// ── Helpers ──
+
+async function clearFirestore() {
+  const host = process.env.FIRESTORE_EMULATOR_HOST;
+  if (!host) throw new Error('FIRESTORE_EMULATOR_HOST is not set; run via `npm test`');
+  await fetch(
+    `http://${host}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+}
+
+/** Seed a household with rooms, memberships and `count` generated chores. */
+async function seedHousehold(
+  firestore: Firestore,
+  householdId: string,
+  userIds: string[],
+  count: number,
+  now: Date
+) {
+  const timestamp = Timestamp.fromDate(now);
+  const batch = firestore.batch();
+
+  batch.set(firestore.doc(`households/${householdId}`), {
+    id: householdId,
+    name: householdId,
+    ownerId: userIds[0],
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+  for (const userId of userIds) {
+    const memberId = `${householdId}_${userId}`;
+    batch.set(firestore.doc(`householdMembers/${memberId}`), {
+      id: memberId,
+      householdId,
+      userId,
+      role: userId === userIds[0] ? 'admin' : 'member',
+      joinedAt: timestamp,
+    });
+  }
+
+  const roomIds: Record<string, string> = {};
+  for (const room of [...DEFAULT_ROOMS, ...CUSTOM_ROOMS]) {
+    const roomRef = firestore.collection(`households/${householdId}/rooms`).doc();
+    batch.set(roomRef, { id: roomRef.id, householdId, ...room, createdAt: timestamp, updatedAt: timestamp });
+    roomIds[room.name] = roomRef.id;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const { fields } = buildSeedChore(i, userIds, roomIds, now);
+    const choreRef = firestore.collection('chores').doc();
+    batch.set(choreRef, {
+      ...fields,
+      id: choreRef.id,
+      householdId,
+      createdBy: userIds[0],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      dueAt: fields.dueAt ? Timestamp.fromDate(fields.dueAt) : null,
+    });
+  }
+
+  await batch.commit();
+}
+
+function isDueBefore(data: DocumentData, date: Date): boolean {
+  return !!data.dueAt && (data.dueAt as Timestamp).toDate() < date;
+}
+
+// ── Setup ──
+
+const userIds = TEST_USERS.map((_, i) => `user-${i + 1}`);
+const seededAt = new Date();
+
+beforeEach(async () => {
+  await clearFirestore();
+  await seedHousehold(db, 'family', userIds, 30, seededAt);
+  await seedHousehold(db, 'personal', userIds.slice(0, 1), 25, seededAt);
+});
+
+afterAll(async () => {
+  await deleteApp(app);
+});
+
+// ── sweepOverdueChores ──
+
+describe('sweepOverdueChores', () => {
+  it('flags every chore that has fallen due since it was seeded', async () => {
+    const later = new Date(seededAt.getTime() + 20 * DAY_MS);
+    const before = await db.collection('chores').get();
+    const expected = before.docs.filter(
+      (d) => !d.get('isOverdue') && isDueBefore(d.data(), later)
+    ).length;
+
+    const updated = await sweepOverdueChores(db, later);
+
+    expect(updated).toBe(expected);
+    const after = await db.collection('chores').get();
+    for (const choreDoc of after.docs) {
+      expect(choreDoc.get('isOverdue')).toBe(isDueBefore(choreDoc.data(), later));
+    }
+  });
+
+  it('leaves chores without a due date alone', async () => {
+    const later = new Date(seededAt.getTime() + 365 * DAY_MS);
+
+    await sweepOverdueChores(db, later);
+
+    const undated = await db.collection('chores').where('dueAt', '==', null).get();
+    for (const choreDoc of undated.docs) {
+      expect(choreDoc.get('isOverdue')).toBe(false);
+    }
+  });
+
+  it('skips chores with a lastCompletion', async () => {
+    const pastDue = Timestamp.fromDate(new Date(seededAt.getTime() - DAY_MS));
+    await db.doc('chores/completed').set({
+      id: 'completed',
+      householdId: 'family',
+      name: 'Completed chore',
+      createdBy: userIds[0],
+      interval: { type: 'once', value: 1 },
+      dueAt: pastDue,
+      isOverdue: false,
+      lastCompletion: { completedAt: pastDue, completedBy: userIds[0], previousDueAt: pastDue },
+    });
+
+    await sweepOverdueChores(db, seededAt);
+
+    const snapshot = await db.doc('chores/completed').get();
+    expect(snapshot.get('isOverdue')).toBe(false);
+  });
+
+  it('is idempotent', async () => {
+    const later = new Date(seededAt.getTime() + 20 * DAY_MS);
+
+    await sweepOverdueChores(db, later);
+
+    expect(await sweepOverdueChores(db, later)).toBe(0);
+  });
+
+  it('pages past completed chores when a page is full of them', async () => {
+    await clearFirestore();
+    const pastDue = Timestamp.fromDate(new Date(seededAt.getTime() - 2 * DAY_MS));
+    const stillDue = Timestamp.fromDate(new Date(seededAt.getTime() - DAY_MS));
+
+    // A full page of completed chores sorts ahead of the one that needs flagging
+    const writer = db.bulkWriter();
+    for (let i = 0; i < SWEEP_PAGE_SIZE; i++) {
+      writer.set(db.doc(`chores/completed-${i}`), {
+        householdId: 'family',
+        dueAt: pastDue,
+        isOverdue: false,
+        lastCompletion: { completedAt: pastDue, completedBy: userIds[0], previousDueAt: pastDue },
+      });
+    }
+    writer.set(db.doc('chores/open'), { householdId: 'family', dueAt: stillDue, isOverdue: false });
+    await writer.close();
+
+    expect(await sweepOverdueChores(db, seededAt)).toBe(1);
+    expect((await db.doc('chores/open').get()).get('isOverdue')).toBe(true);
+  });
+
+  it('waits for the due time of a chore due later that day', async () => {
+    await clearFirestore();
+    // The app stores dueAt at the due time, so dueTime needs no timezone here
+    const evening = new Date(seededAt.getTime() + 6 * 60 * 60 * 1000);
+    await db.doc('chores/evening').set({
+      householdId: 'family',
+      dueAt: Timestamp.fromDate(evening),
+      dueTime: '18:00',
+      isOverdue: false,
+    });
+
+    expect(await sweepOverdueChores(db, seededAt)).toBe(0);
+    expect((await db.doc('chores/evening').get()).get('isOverdue')).toBe(false);
+
+    expect(await sweepOverdueChores(db, new Date(evening.getTime() + 60 * 1000))).toBe(1);
+    expect((await db.doc('chores/evening').get()).get('isOverdue')).toBe(true);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Runs against the Firestore emulator (`npm test` starts it via
+ * `firebase emulators:exec`), with a stubbed FCM client in place of real
+ * sends.
+ */
+
+import { deleteApp, initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { BatchResponse, MulticastMessage } from 'firebase-admin/messaging';
+import {
+  notifyChoreChange,
+  notifyMemberJoined,
+  PushMessenger,
+  sendPush,
+} from '../src/push-notifications';
+
+const PROJECT_ID = 'demo-overdue';
+const HOUSEHOLD_ID = 'family';
+
+const app = initializeApp({ projectId: PROJECT_ID });
+const db = getFirestore(app);
+
+// ── Helpers ──
+
+async function clearFirestore() {
+  const host = process.env.FIRESTORE_EMULATOR_HOST;
+  if (!host) throw new Error('FIRESTORE_EMULATOR_HOST is not set; run via `npm test`');
+  await fetch(
+    `http://${host}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+}
+
+/**
+ * A messaging stub that accepts every token except those in `failures`,
+ * which fail with the given FCM error code.
+ */
+function stubMessaging(failures: Record<string, string> = {}) {
+  const sendEachForMulticast = jest.fn(
+    async (message: MulticastMessage): Promise<BatchResponse> => {
+      const responses = message.tokens.map((token) =>
+        failures[token]
+          ? { success: false, error: { code: failures[token] } as never }
+          : { success: true, messageId: `message-${token}` }
+      );
+      const successCount = responses.filter((r) => r.success).length;
+      return { responses, successCount, failureCount: responses.length - successCount };
+    }
+  );
+  const messaging: PushMessenger = { sendEachForMulticast };
+  return { messaging, sendEachForMulticast };
+}
+
+/**
+ * A profile plus the private documents pushes read: `pushTokens` goes to
+ * the devices document and `notificationSettings` to the settings one.
+ */
+async function seedUser(
+  userId: string,
+  {
+    pushTokens = [`${userId}-phone`],
+    notificationSettings,
+  }: { pushTokens?: string[]; notificationSettings?: Record<string, unknown> } = {}
+) {
+  await db.doc(`users/${userId}`).set({
+    uid: userId,
+    displayName: userId.charAt(0).toUpperCase() + userId.slice(1),
+  });
+  await db.doc(`users/${userId}/private/devices`).set({ pushTokens });
+  if (notificationSettings) {
+    await db.doc(`users/${userId}/private/notificationSettings`).set(notificationSettings);
+  }
+}
+
+async function storedTokens(userId: string) {
+  return (await db.doc(`users/${userId}/private/devices`).get()).get('pushTokens');
+}
+
+async function seedMember(userId: string) {
+  const memberId = `${HOUSEHOLD_ID}_${userId}`;
+  await db.doc(`householdMembers/${memberId}`).set({
+    id: memberId,
+    householdId: HOUSEHOLD_ID,
+    userId,
+    role: userId === 'alice' ? 'admin' : 'member',
+    joinedAt: Timestamp.now(),
+  });
+}
+
+function buildChore(fields: Record<string, unknown> = {}) {
+  return {
+    id: 'dishes',
+    householdId: HOUSEHOLD_ID,
+    name: 'Dishes',
+    createdBy: 'alice',
+    interval: { type: 'daily', value: 1 },
+    dueAt: Timestamp.now(),
+    isOverdue: false,
+    ...fields,
+  };
+}
+
+function completion(completedBy: string) {
+  return { completedAt: Timestamp.now(), completedBy, previousDueAt: null };
+}
+
+/** Tokens sent to across every call to the stub. */
+function sentTokens(sendEachForMulticast: jest.Mock): string[] {
+  return sendEachForMulticast.mock.calls.flatMap(([message]) => message.tokens as string[]);
+}
+
+// ── Setup ──
+
+beforeEach(async () => {
+  await clearFirestore();
+  await db.doc(`households/${HOUSEHOLD_ID}`).set({ id: HOUSEHOLD_ID, name: 'Family', ownerId: 'alice' });
+  for (const userId of ['alice', 'bob', 'carol']) {
+    await seedUser(userId);
+    await seedMember(userId);
+  }
+});
+
+afterAll(async () => {
+  await deleteApp(app);
+});
+
+// ── sendPush ──
+
+describe('sendPush', () => {
+  const notification = { title: 'Title', body: 'Body', data: { householdId: HOUSEHOLD_ID } };
+
+  it('sends to every registered device of each user', async () => {
+    await seedUser('bob', { pushTokens: ['bob-phone', 'bob-tablet'] });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    const sent = await sendPush(db, messaging, ['bob', 'carol', 'bob'], HOUSEHOLD_ID, notification);
+
+    expect(sent).toBe(3);
+    expect(sendEachForMulticast).toHaveBeenCalledWith({
+      tokens: ['bob-phone', 'bob-tablet', 'carol-phone'],
+      notification: { title: 'Title', body: 'Body' },
+      data: { householdId: HOUSEHOLD_ID },
+    });
+  });
+
+  it('skips users with notifications off, globally or for the household', async () => {
+    await seedUser('bob', { notificationSettings: { enabled: false } });
+    await seedUser('carol', {
+      notificationSettings: { enabled: true, householdOverrides: { [HOUSEHOLD_ID]: { enabled: false } } },
+    });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    const sent = await sendPush(db, messaging, ['alice', 'bob', 'carol'], HOUSEHOLD_ID, notification);
+
+    expect(sent).toBe(1);
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone']);
+  });
+
+  it('skips users in their quiet hours, in their own timezone', async () => {
+    const quietHours = { enabled: true, quietHoursEnabled: true, quietHoursStart: '22:00', quietHoursEnd: '07:00' };
+    await seedUser('bob', { notificationSettings: { ...quietHours, timeZone: 'America/New_York' } });
+    await seedUser('carol', { notificationSettings: { ...quietHours, timeZone: 'Asia/Tokyo' } });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    // 22:00 in New York, noon in Tokyo
+    const now = new Date('2030-01-15T03:00:00Z');
+    await sendPush(db, messaging, ['alice', 'bob', 'carol'], HOUSEHOLD_ID, notification, now);
+
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone', 'carol-phone']);
+  });
+
+  it('keeps chore alerts from users who turned them off', async () => {
+    await seedUser('bob', { notificationSettings: { enabled: true, choreAlertsEnabled: false } });
+    await seedUser('carol', {
+      notificationSettings: {
+        enabled: true,
+        householdOverrides: { [HOUSEHOLD_ID]: { enabled: true, choreAlertsEnabled: false } },
+      },
+    });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const everyone = ['alice', 'bob', 'carol'];
+
+    await sendPush(db, messaging, everyone, HOUSEHOLD_ID, { ...notification, chore: buildChore() });
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone']);
+
+    // Household news isn't a chore alert
+    sendEachForMulticast.mockClear();
+    await sendPush(db, messaging, everyone, HOUSEHOLD_ID, notification);
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone', 'bob-phone', 'carol-phone']);
+  });
+
+  it('sends chore alerts only to users whose chore filter covers the chore', async () => {
+    await seedUser('bob', { notificationSettings: { enabled: true, choreFilter: 'mineAndUnassigned' } });
+    await seedUser('carol', {
+      notificationSettings: {
+        enabled: true,
+        householdOverrides: { [HOUSEHOLD_ID]: { enabled: true, onlyAssignedToMe: true } },
+      },
+    });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const everyone = ['alice', 'bob', 'carol'];
+
+    await sendPush(db, messaging, everyone, HOUSEHOLD_ID, { ...notification, chore: buildChore() });
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone', 'bob-phone']);
+
+    sendEachForMulticast.mockClear();
+    const carols = buildChore({ assignedTo: 'carol' });
+    await sendPush(db, messaging, everyone, HOUSEHOLD_ID, { ...notification, chore: carols });
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone', 'carol-phone']);
+  });
+
+  it('does not call FCM when nobody has a device registered', async () => {
+    await seedUser('bob', { pushTokens: [] });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    expect(await sendPush(db, messaging, ['bob', 'nobody'], HOUSEHOLD_ID, notification)).toBe(0);
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+  });
+
+  it('removes tokens FCM reports as no longer registered', async () => {
+    await seedUser('bob', { pushTokens: ['bob-old-phone', 'bob-phone'] });
+    const { messaging } = stubMessaging({
+      'bob-old-phone': 'messaging/registration-token-not-registered',
+      'carol-phone': 'messaging/internal-error',
+    });
+
+    await sendPush(db, messaging, ['bob', 'carol'], HOUSEHOLD_ID, notification);
+
+    expect(await storedTokens('bob')).toEqual(['bob-phone']);
+    // Transient failures keep the token
+    expect(await storedTokens('carol')).toEqual(['carol-phone']);
+  });
+});
+
+// ── notifyChoreChange ──
+
+describe('notifyChoreChange', () => {
+  it('tells the new assignee who assigned them the chore', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    await notifyChoreChange(db, messaging, 'dishes', buildChore(), buildChore({ assignedTo: 'bob' }), 'alice');
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      tokens: ['bob-phone'],
+      notification: { title: 'Chore assigned to you', body: 'Alice assigned "Dishes" to you.' },
+      data: { choreId: 'dishes', householdId: HOUSEHOLD_ID },
+    });
+  });
+
+  it('stays quiet when the assignee is unchanged or assigned it to themselves', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const assigned = buildChore({ assignedTo: 'bob' });
+
+    await notifyChoreChange(db, messaging, 'dishes', assigned, { ...assigned, name: 'Wash dishes' }, 'alice');
+    await notifyChoreChange(db, messaging, 'dishes', buildChore(), assigned, 'bob');
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+  });
+
+  it('tells the assignee of a new chore', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    await notifyChoreChange(db, messaging, 'dishes', undefined, buildChore({ assignedTo: 'carol' }), 'alice');
+
+    expect(sentTokens(sendEachForMulticast)).toEqual(['carol-phone']);
+  });
+
+  it('ignores deleted chores', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    expect(await notifyChoreChange(db, messaging, 'dishes', buildChore(), undefined, 'alice')).toBe(0);
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+  });
+
+  it('tells the rest of the household when an unassigned chore is completed', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const before = buildChore();
+
+    await notifyChoreChange(
+      db, messaging, 'dishes', before, { ...before, lastCompletion: completion('bob') }, 'bob'
+    );
+
+    expect(sentTokens(sendEachForMulticast).sort()).toEqual(['alice-phone', 'carol-phone']);
+    expect(sendEachForMulticast.mock.calls[0][0].notification).toEqual({
+      title: 'Chore completed',
+      body: 'Bob completed "Dishes".',
+    });
+  });
+
+  it('leaves out sharers whose household settings only cover their own chores', async () => {
+    await seedUser('carol', {
+      notificationSettings: {
+        enabled: true,
+        householdOverrides: { [HOUSEHOLD_ID]: { enabled: true, onlyAssignedToMe: true } },
+      },
+    });
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const before = buildChore();
+
+    await notifyChoreChange(
+      db, messaging, 'dishes', before, { ...before, lastCompletion: completion('bob') }, 'bob'
+    );
+
+    expect(sentTokens(sendEachForMulticast)).toEqual(['alice-phone']);
+  });
+
+  it('tells the assignee when someone else completes their chore', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const before = buildChore({ assignedTo: 'carol' });
+
+    await notifyChoreChange(
+      db, messaging, 'dishes', before, { ...before, lastCompletion: completion('alice') }, 'alice'
+    );
+
+    expect(sentTokens(sendEachForMulticast)).toEqual(['carol-phone']);
+  });
+
+  it('stays quiet when the assignee completes their own chore', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const before = buildChore({ assignedTo: 'carol' });
+
+    await notifyChoreChange(
+      db, messaging, 'dishes', before, { ...before, lastCompletion: completion('carol') }, 'carol'
+    );
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+  });
+
+  it('tells a rotation whose turn is next, and the rest that it was done', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const rotation = { memberIds: ['alice', 'bob', 'carol'], mode: 'completion' };
+    const before = buildChore({ assignedTo: 'alice', rotation });
+    const after = { ...before, assignedTo: 'bob', lastCompletion: completion('alice') };
+
+    const sent = await notifyChoreChange(db, messaging, 'dishes', before, after, 'alice');
+
+    expect(sent).toBe(2);
+    const [[turn], [done]] = sendEachForMulticast.mock.calls;
+    expect(turn).toMatchObject({ tokens: ['bob-phone'], notification: { body: 'It\'s your turn to do "Dishes".' } });
+    expect(done).toMatchObject({ tokens: ['carol-phone'], notification: { title: 'Chore completed' } });
+  });
+
+  it('stays quiet when a completion is undone', async () => {
+    const { messaging, sendEachForMulticast } = stubMessaging();
+    const completed = buildChore({ lastCompletion: completion('bob') });
+
+    await notifyChoreChange(db, messaging, 'dishes', completed, buildChore(), 'bob');
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+  });
+});
+
+// ── notifyMemberJoined ──
+
+describe('notifyMemberJoined', () => {
+  it('tells the existing members who joined', async () => {
+    await seedUser('dave');
+    await seedMember('dave');
+    const { messaging, sendEachForMulticast } = stubMessaging();
+
+    const member = (await db.doc(`householdMembers/${HOUSEHOLD_ID}_dave`).get()).data()!;
+    const sent = await notifyMemberJoined(db, messaging, member);
+
+    expect(sent).toBe(3);
+    expect(sentTokens(sendEachForMulticast).sort()).toEqual(['alice-phone', 'bob-phone', 'carol-phone']);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { title: 'New household member', body: 'Dave joined Family.' },
+      data: { householdId: HOUSEHOLD_ID },
+    });
+  });
+});
@@ -55,9 +55,23 @@ jest.mock('@react-native-firebase/firestore', () => ({
   query: jest.fn(),
   where: jest.fn(),
   orderBy: jest.fn(),
+  limit: jest.fn(),
+  startAfter: jest.fn(),
+  documentId: jest.fn(() => ({ _type: 'documentId' })),
+  writeBatch: jest.fn(() => ({
+    set: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    commit: jest.fn().mockResolvedValue(undefined),
+  })),
+  runTransaction: jest.fn(),
+  onSnapshot: jest.fn(() => jest.fn()),
+  waitForPendingWrites: jest.fn().mockResolvedValue(undefined),
   Timestamp: MockTimestamp,
   serverTimestamp: jest.fn(() => ({ _type: 'serverTimestamp' })),
   deleteField: jest.fn(() => ({ _type: 'deleteField' })),
+  arrayUnion: jest.fn((...elements: unknown[]) => ({ _type: 'arrayUnion', elements })),
+  arrayRemove: jest.fn((...elements: unknown[]) => ({ _type: 'arrayRemove', elements })),
 }));
 
 jest.mock('@react-native-firebase/auth', () => ({
@@ -76,6 +90,15 @@ jest.mock('@react-native-firebase/auth', () => ({
   AppleAuthProvider: { credential: jest.fn() },
 }));
 
+jest.mock('@react-native-firebase/messaging', () => ({
+  __esModule: true,
+  getMessaging: jest.fn(() => ({})),
+  getToken: jest.fn().mockResolvedValue('mock-push-token'),
+  deleteToken: jest.fn().mockResolvedValue(undefined),
+  onTokenRefresh: jest.fn(() => jest.fn()),
+  onMessage: jest.fn(() => jest.fn()),
+}));
+
 jest.mock('@react-native-firebase/app', () => ({
   __esModule: true,
   default: {},
@@ -124,15 +147,20 @@ jest.mock('firebase/functions', () => ({
 jest.mock('@/lib/firebase/config', () => ({
   auth: { currentUser: null },
   firestore: {},
+  messaging: {},
 }));
 
 jest.mock('@/lib/firebase/converters', () => ({
   choreConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
+  completionConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
+  intervalConverter: { toFirestore: jest.fn((d: any) => d), fromFirestore: jest.fn((d: any) => d) },
   householdConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
   householdMemberConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
   roomConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
   userConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
   inviteConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
+  joinCodeConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
+  activityConverter: { toFirestore: jest.fn((d: any) => d), fromSnapshot: jest.fn() },
 }));
 
 // ── App context mocks ──
@@ -164,11 +192,17 @@ jest.mock('@/lib/hooks/use-auth', () => ({
 jest.mock('expo-notifications', () => ({
   scheduleNotificationAsync: jest.fn().mockResolvedValue('mock-notification-id'),
   cancelAllScheduledNotificationsAsync: jest.fn().mockResolvedValue(undefined),
+  cancelScheduledNotificationAsync: jest.fn().mockResolvedValue(undefined),
+  getAllScheduledNotificationsAsync: jest.fn().mockResolvedValue([]),
   getPermissionsAsync: jest.fn().mockResolvedValue({ status: 'granted' }),
   requestPermissionsAsync: jest.fn().mockResolvedValue({ status: 'granted' }),
   setNotificationHandler: jest.fn(),
   setNotificationChannelAsync: jest.fn().mockResolvedValue(undefined),
-  SchedulableTriggerInputTypes: { DAILY: 'daily', DATE: 'date' },
+  setNotificationCategoryAsync: jest.fn().mockResolvedValue(null),
+  useLastNotificationResponse: jest.fn().mockReturnValue(null),
+  clearLastNotificationResponse: jest.fn(),
+  DEFAULT_ACTION_IDENTIFIER: 'expo.modules.notifications.actions.DEFAULT',
+  SchedulableTriggerInputTypes: { DAILY: 'daily', DATE: 'date', TIME_INTERVAL: 'timeInterval' },
   AndroidImportance: { HIGH: 4 },
 }));
 
@@ -248,3 +282,20 @@ jest.mock('expo-image', () => ({
 jest.mock('react-native-reanimated', () =>
   require('react-native-reanimated/mock')
 );
+
+// ReanimatedSwipeable needs native worklets; render the right actions inline
+// next to the content so swipe actions can be pressed in tests.
+jest.mock('react-native-gesture-handler/ReanimatedSwipeable', () => {
+  const { createElement } = require('react');
+  const { View } = require('react-native');
+  return {
+    __esModule: true,
+    default: ({ children, renderRightActions }: any) =>
+      createElement(
+        View,
+        null,
+        children,
+        renderRightActions?.({ value: 0 }, { value: 0 }, { close: jest.fn() })
+      ),
+  };
+});
@@ -6,6 +6,7 @@
 import { onAuthStateChanged, type FirebaseAuthTypes } from '@react-native-firebase/auth';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { auth } from '../firebase/config';
+import { unsubscribeAll } from '../query-subscriptions';
 
 interface AuthContextType {
   user: FirebaseAuthTypes.User | null;
@@ -21,6 +22,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
+      if (!firebaseUser) {
+        // Realtime listeners would start failing security rules once signed out
+        unsubscribeAll();
+      }
       setUser(firebaseUser);
       setLoading(false);
     });
@@ -1,38 +1,101 @@
 /**
  * SyncContext - Offline sync status tracking
- * Monitors Firestore sync state and network connectivity
- * (Stub implementation for Phase 0, will be enhanced in later phases)
+ * Reads which chores have local writes the server hasn't acknowledged from
+ * the shared realtime listener behind the Today chores query, and combines
+ * it with network connectivity to report what is still waiting for the
+ * server and when the app last heard from it.
  */
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import { waitForPendingWrites } from '@react-native-firebase/firestore';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { firestore } from '../firebase/config';
+import { queryKeys } from '../hooks/query-keys';
+import { useAuth } from '../hooks/use-auth';
+import { useTodayChores } from '../hooks/use-chores';
+import { useUserHouseholds } from '../hooks/use-households';
+import { useNetworkStatus } from '../hooks/use-network-status';
+import { getSyncState, subscribeSyncStates } from '../query-subscriptions';
 
 interface SyncContextType {
   isOnline: boolean;
+  /** Online with local writes still in flight */
   isSyncing: boolean;
+  /** Number of chores with local writes the server hasn't acknowledged yet */
+  pendingChoreCount: number;
+  /** Last time a server snapshot confirmed everything was in sync */
   lastSyncedAt: Date | null;
+  isChorePending: (choreId: string) => boolean;
 }
 
 const SyncContext = createContext<SyncContextType | undefined>(undefined);
 
 export function SyncProvider({ children }: { children: React.ReactNode }) {
-  const [isOnline, setIsOnline] = useState(true);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const { user } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const { data: households = [] } = useUserHouseholds(user?.uid);
   const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
 
-  // Stub implementation - basic online/offline detection
-  // Future phases will add Firestore snapshot listeners for sync status
+  // Derived the same way as the Today screen, so both hold one listener
+  const householdIds = useMemo(() => households.map((h) => h.id), [households]);
+  useTodayChores(user?.uid, householdIds);
+
+  const todayKey = queryKeys.chores.today(user?.uid ?? '');
+  const sync = useSyncExternalStore(subscribeSyncStates, () =>
+    getSyncState(todayKey, householdIds)
+  );
+
+  const pendingChoreIds = useMemo(() => new Set(sync?.pendingIds ?? []), [sync]);
+
+  useEffect(() => {
+    if (sync && !sync.fromCache && sync.pendingIds.length === 0) {
+      setLastSyncedAt(new Date());
+    }
+  }, [sync]);
+
+  const pendingChoreCount = pendingChoreIds.size;
+  const hasPendingWrites = pendingChoreCount > 0;
+
+  // Once online, resolve as soon as the queued writes reach the server
   useEffect(() => {
-    // For now, just assume we're always online
-    // Real implementation would use network state and Firestore events
-    setIsOnline(true);
-    setLastSyncedAt(new Date());
-  }, []);
-
-  const value: SyncContextType = {
-    isOnline,
-    isSyncing,
-    lastSyncedAt,
-  };
+    if (!isOnline || !hasPendingWrites) return;
+
+    let cancelled = false;
+    waitForPendingWrites(firestore)
+      .then(() => {
+        if (!cancelled) setLastSyncedAt(new Date());
+      })
+      .catch((error) => {
+        console.error('Error waiting for pending writes:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOnline, hasPendingWrites]);
+
+  const isChorePending = useCallback(
+    (choreId: string) => pendingChoreIds.has(choreId),
+    [pendingChoreIds]
+  );
+
+  const value = useMemo<SyncContextType>(
+    () => ({
+      isOnline,
+      isSyncing: isOnline && hasPendingWrites,
+      pendingChoreCount,
+      lastSyncedAt,
+      isChorePending,
+    }),
+    [isOnline, hasPendingWrites, pendingChoreCount, lastSyncedAt, isChorePending]
+  );
 
   return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
 }
@@ -15,6 +15,8 @@ global.RNFB_SILENCE_MODULAR_DEPRECATION_WARNINGS = true;
 
 import { getAuth } from '@react-native-firebase/auth';
 import { getFirestore } from '@react-native-firebase/firestore';
+import { getMessaging } from '@react-native-firebase/messaging';
 
 export const auth = getAuth();
 export const firestore = getFirestore();
+export const messaging = getMessaging();
@@ -4,19 +4,23 @@
  * React Native Firebase does not support withConverter(), so these are plain helper functions.
  */
 
-import { type FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { type FirebaseFirestoreTypes, Timestamp } from '@react-native-firebase/firestore';
 
 type DocumentSnapshot = FirebaseFirestoreTypes.DocumentSnapshot;
-import { Chore } from '../types/chore';
+import { ActivityEntry } from '../types/activity';
+import { Chore, CompletionLogEntry, Interval, RecurrenceRule } from '../types/chore';
 import { Household, HouseholdMember } from '../types/household';
-import { HouseholdInvite } from '../types/invite';
+import { HouseholdInvite, JoinCode } from '../types/invite';
 import { Room } from '../types/room';
 import { User } from '../types/user';
 import {
+  ActivityDocument,
   ChoreDocument,
+  CompletionDocument,
   HouseholdDocument,
   HouseholdMemberDocument,
   InviteDocument,
+  JoinCodeDocument,
   RoomDocument,
   UserDocument,
 } from './types';
@@ -80,13 +84,18 @@ export const householdConverter = {
  */
 export const householdMemberConverter = {
   toFirestore(member: HouseholdMember): Record<string, unknown> {
-    return {
+    const data: Record<string, unknown> = {
       id: member.id,
       householdId: member.householdId,
       userId: member.userId,
       role: member.role,
       joinedAt: member.joinedAt,
     };
+
+    if (member.inviteId !== undefined) data.inviteId = member.inviteId;
+    if (member.joinCode !== undefined) data.joinCode = member.joinCode;
+
+    return data;
   },
   fromSnapshot(snapshot: DocumentSnapshot): HouseholdMember | null {
     const data = snapshot.data() as HouseholdMemberDocument | undefined;
@@ -97,6 +106,8 @@ export const householdMemberConverter = {
       userId: data.userId,
       role: data.role,
       joinedAt: data.joinedAt,
+      inviteId: data.inviteId,
+      joinCode: data.joinCode,
     };
   },
 };
@@ -131,6 +142,38 @@ export const roomConverter = {
   },
 };
 
+/**
+ * Interval converter
+ * Strips unset rule fields (Firestore rejects undefined values) and reads
+ * interval maps written before recurrence rules existed unchanged.
+ */
+export const intervalConverter = {
+  toFirestore(interval: Interval): Record<string, unknown> {
+    const data: Record<string, unknown> = {
+      type: interval.type,
+      value: interval.value,
+    };
+
+    const rule = interval.rule;
+    if (rule) {
+      const ruleData: Record<string, unknown> = {};
+      if (rule.byWeekday && rule.byWeekday.length > 0) ruleData.byWeekday = rule.byWeekday;
+      if (rule.bySetPos !== undefined) ruleData.bySetPos = rule.bySetPos;
+      if (rule.byMonthDay !== undefined) ruleData.byMonthDay = rule.byMonthDay;
+      if (Object.keys(ruleData).length > 0) data.rule = ruleData;
+    }
+    if (interval.anchor) data.anchor = interval.anchor;
+
+    return data;
+  },
+  fromFirestore(data: ChoreDocument['interval']): Interval {
+    const interval: Interval = { type: data.type, value: data.value };
+    if (data.rule) interval.rule = { ...data.rule } as RecurrenceRule;
+    if (data.anchor) interval.anchor = data.anchor;
+    return interval;
+  },
+};
+
 /**
  * Chore converter
  */
@@ -143,15 +186,19 @@ export const choreConverter = {
       createdBy: chore.createdBy,
       createdAt: chore.createdAt,
       updatedAt: chore.updatedAt,
-      interval: chore.interval,
+      interval: intervalConverter.toFirestore(chore.interval),
       dueAt: chore.dueAt ?? null,
       isOverdue: chore.isOverdue,
     };
 
     if (chore.description !== undefined) data.description = chore.description;
     if (chore.assignedTo !== undefined) data.assignedTo = chore.assignedTo;
+    if (chore.rotation !== undefined) data.rotation = chore.rotation;
     if (chore.roomId !== undefined) data.roomId = chore.roomId;
+    if (chore.dueTime !== undefined) data.dueTime = chore.dueTime;
+    if (chore.reminderOffsets !== undefined) data.reminderOffsets = chore.reminderOffsets;
     if (chore.lastCompletion !== undefined) data.lastCompletion = chore.lastCompletion;
+    if (chore.snoozedFrom !== undefined) data.snoozedFrom = chore.snoozedFrom;
 
     return data;
   },
@@ -164,14 +211,57 @@ export const choreConverter = {
       name: data.name,
       description: data.description,
       assignedTo: data.assignedTo,
+      rotation: data.rotation,
       roomId: data.roomId,
       createdBy: data.createdBy,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
-      interval: data.interval,
+      interval: intervalConverter.fromFirestore(data.interval),
       dueAt: data.dueAt ?? null,
+      dueTime: data.dueTime,
+      reminderOffsets: data.reminderOffsets,
       isOverdue: data.isOverdue,
       lastCompletion: data.lastCompletion,
+      snoozedFrom: data.snoozedFrom,
+    };
+  },
+};
+
+/**
+ * Completion log converter
+ */
+export const completionConverter = {
+  toFirestore(entry: CompletionLogEntry): Record<string, unknown> {
+    const data: Record<string, unknown> = {
+      id: entry.id,
+      choreId: entry.choreId,
+      householdId: entry.householdId,
+      kind: entry.kind,
+      completedAt: entry.completedAt,
+      completedBy: entry.completedBy,
+      previousDueAt: entry.previousDueAt ?? null,
+      nextDueAt: entry.nextDueAt ?? null,
+    };
+
+    if (entry.reason !== undefined) data.reason = entry.reason;
+    if (entry.rotatedFrom !== undefined) data.rotatedFrom = entry.rotatedFrom;
+
+    return data;
+  },
+  fromSnapshot(snapshot: DocumentSnapshot): CompletionLogEntry | null {
+    const data = snapshot.data() as CompletionDocument | undefined;
+    if (!data) return null;
+    return {
+      id: data.id,
+      choreId: data.choreId,
+      householdId: data.householdId,
+      kind: data.kind ?? 'completion',
+      completedAt: data.completedAt,
+      completedBy: data.completedBy,
+      previousDueAt: data.previousDueAt ?? null,
+      nextDueAt: data.nextDueAt ?? null,
+      reason: data.reason,
+      rotatedFrom: data.rotatedFrom,
     };
   },
 };
@@ -211,3 +301,76 @@ export const inviteConverter = {
     };
   },
 };
+
+/**
+ * Join code converter
+ */
+export const joinCodeConverter = {
+  toFirestore(joinCode: JoinCode): Record<string, unknown> {
+    return {
+      code: joinCode.code,
+      householdId: joinCode.householdId,
+      householdName: joinCode.householdName,
+      createdBy: joinCode.createdBy,
+      role: joinCode.role,
+      useCount: joinCode.useCount,
+      maxUses: joinCode.maxUses,
+      createdAt: joinCode.createdAt,
+      expiresAt: joinCode.expiresAt,
+    };
+  },
+  fromSnapshot(snapshot: DocumentSnapshot): JoinCode | null {
+    const data = snapshot.data() as JoinCodeDocument | undefined;
+    if (!data) return null;
+    return {
+      code: data.code,
+      householdId: data.householdId,
+      householdName: data.householdName,
+      createdBy: data.createdBy,
+      role: data.role,
+      useCount: data.useCount,
+      maxUses: data.maxUses ?? null,
+      createdAt: data.createdAt,
+      expiresAt: data.expiresAt,
+    };
+  },
+};
+
+/** Optional activity fields, copied only when set */
+const ACTIVITY_DETAIL_FIELDS = [
+  'choreId',
+  'choreName',
+  'changedFields',
+  'reason',
+  'roomId',
+  'roomName',
+  'previousName',
+  'userId',
+  'role',
+  'invitedEmail',
+] as const;
+
+/**
+ * Activity entry converter
+ */
+export const activityConverter = {
+  /** Everything but createdAt, which the writer sets to the server time */
+  toFirestore(entry: Omit<ActivityEntry, 'createdAt'>): Record<string, unknown> {
+    const data: Record<string, unknown> = {
+      id: entry.id,
+      householdId: entry.householdId,
+      type: entry.type,
+      actorId: entry.actorId,
+    };
+    for (const field of ACTIVITY_DETAIL_FIELDS) {
+      if (entry[field] !== undefined) data[field] = entry[field];
+    }
+    return data;
+  },
+  fromSnapshot(snapshot: DocumentSnapshot): ActivityEntry | null {
+    const data = snapshot.data() as ActivityDocument | undefined;
+    if (!data) return null;
+    // An entry written offline has no server time yet; it was written just now
+    return { ...data, createdAt: data.createdAt ?? Timestamp.now() };
+  },
+};
@@ -5,6 +5,7 @@
  */
 
 import { Timestamp } from '@react-native-firebase/firestore';
+import { ActivityType } from '../types/activity';
 import { IntervalType } from '../types/chore';
 import { HouseholdRole } from '../types/household';
 
@@ -41,6 +42,8 @@ export interface HouseholdMemberDocument {
   userId: string;
   role: HouseholdRole;
   joinedAt: Timestamp;
+  inviteId?: string;
+  joinCode?: string;
 }
 
 /**
@@ -65,6 +68,10 @@ export interface ChoreDocument {
   name: string;
   description?: string;
   assignedTo?: string;
+  rotation?: {
+    memberIds: string[];
+    mode: 'completion' | 'period';
+  };
   roomId?: string;
   createdBy: string;
   createdAt: Timestamp;
@@ -72,14 +79,39 @@ export interface ChoreDocument {
   interval: {
     type: IntervalType;
     value: number;
+    rule?: {
+      byWeekday?: number[];
+      bySetPos?: number;
+      byMonthDay?: number;
+    };
+    anchor?: 'fixed' | 'floating';
   };
   dueAt: Timestamp | null;
+  dueTime?: string;
+  reminderOffsets?: number[];
   isOverdue: boolean;
   lastCompletion?: {
     completedAt: Timestamp;
     completedBy: string;
     previousDueAt: Timestamp | null;
   };
+  snoozedFrom?: Timestamp;
+}
+
+/**
+ * Completion log document shape in Firestore: /chores/{choreId}/completions/{completionId}
+ */
+export interface CompletionDocument {
+  id: string;
+  choreId: string;
+  householdId: string;
+  kind?: 'completion' | 'skip'; // Absent = 'completion'
+  completedAt: Timestamp;
+  completedBy: string;
+  previousDueAt: Timestamp | null;
+  nextDueAt: Timestamp | null;
+  reason?: string;
+  rotatedFrom?: string;
 }
 
 /**
@@ -97,3 +129,40 @@ export interface InviteDocument {
   createdAt: Timestamp;
   expiresAt: Timestamp;
 }
+
+/**
+ * Join code document shape in Firestore: /joinCodes/{code}
+ */
+export interface JoinCodeDocument {
+  code: string;
+  householdId: string;
+  householdName: string;
+  createdBy: string;
+  role: HouseholdRole;
+  useCount: number;
+  maxUses: number | null;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+/**
+ * Activity entry document shape in Firestore: /households/{householdId}/activity/{activityId}
+ * Fields other than the first five are present only for the types that use them
+ */
+export interface ActivityDocument {
+  id: string;
+  householdId: string;
+  type: ActivityType;
+  actorId: string;
+  createdAt: Timestamp | null; // Server time; null while the write is still pending
+  choreId?: string;
+  choreName?: string;
+  changedFields?: string[];
+  reason?: string;
+  roomId?: string;
+  roomName?: string;
+  previousName?: string;
+  userId?: string;
+  role?: HouseholdRole;
+  invitedEmail?: string;
+}
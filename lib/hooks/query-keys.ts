@@ -10,6 +10,7 @@ export const queryKeys = {
     members: (id: string) => ['households', 'members', id] as const,
     member: (householdId: string, userId: string) =>
       ['households', 'member', householdId, userId] as const,
+    activity: (id: string) => ['households', 'activity', id] as const,
   },
   rooms: {
     household: (householdId: string) =>
@@ -21,6 +22,8 @@ export const queryKeys = {
     household: (householdId: string) =>
       ['chores', 'household', householdId] as const,
     detail: (choreId: string) => ['chores', 'detail', choreId] as const,
+    completions: (choreId: string) =>
+      ['chores', 'completions', choreId] as const,
     today: (userId: string) => ['chores', 'today', userId] as const,
     allHouseholds: (userId: string) =>
       ['chores', 'allHouseholds', userId] as const,
@@ -29,8 +32,32 @@ export const queryKeys = {
     pending: (email: string) => ['invites', 'pending', email] as const,
     forHousehold: (householdId: string) =>
       ['invites', 'household', householdId] as const,
+    joinCode: (code: string) => ['invites', 'joinCode', code] as const,
+    joinCodes: (householdId: string) =>
+      ['invites', 'joinCodes', householdId] as const,
   },
   users: {
     profile: (uid: string) => ['users', uid] as const,
   },
 };
+
+/**
+ * Keys for mutations registered with `setMutationDefaults`, which lets queued
+ * mutations restored after a restart find their mutation function again
+ */
+export const mutationKeys = {
+  chores: {
+    create: ['chores', 'create'] as const,
+    update: ['chores', 'update'] as const,
+    delete: ['chores', 'delete'] as const,
+    complete: ['chores', 'complete'] as const,
+    undo: ['chores', 'undo'] as const,
+    skip: ['chores', 'skip'] as const,
+    snooze: ['chores', 'snooze'] as const,
+  },
+  rooms: {
+    create: ['rooms', 'create'] as const,
+    update: ['rooms', 'update'] as const,
+    delete: ['rooms', 'delete'] as const,
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * Activity React Query hooks
+ * Paged household activity feed
+ */
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { ActivityCursor, getActivityPage } from '../services/activity-service';
+import { queryKeys } from './query-keys';
+
+/**
+ * A household's activity, newest first, one page at a time.
+ * `data.pages` holds the pages loaded so far; fetchNextPage loads older ones.
+ */
+export function useHouseholdActivity(householdId: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.households.activity(householdId ?? ''),
+    queryFn: ({ pageParam }) => getActivityPage(householdId!, pageParam),
+    initialPageParam: null as ActivityCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!householdId,
+    // Not kept live by a listener, so catch up whenever the feed is opened
+    refetchOnMount: 'always',
+  });
+}
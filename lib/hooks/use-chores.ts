@@ -3,29 +3,46 @@
  * Queries and mutations for chore operations
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  MutationMeta,
+  QueryClient,
+  QueryKey,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
 import { useMemo } from 'react';
+import { MUTATION_QUEUE_SCOPE } from '../mutation-queue';
 import {
+  ChoreConflictError,
   completeChore,
   createChore,
   deleteChore,
   getChore,
+  getChoreCompletions,
   getChoresForHouseholds,
   getHouseholdChores,
   isChoreOverdue,
+  matchesChoreFilter,
+  skipOccurrence,
+  snoozeChore,
   undoCompletion,
   updateChore,
+  watchChore,
+  watchChoresForHouseholds,
+  watchHouseholdChores,
+  withCompletion,
+  withoutCompletion,
 } from '../services/chore-service';
 import {
-  DEFAULT_NOTIFICATION_SETTINGS,
-  NotificationSettings,
+  cancelChoreNotifications,
   scheduleAllNotifications,
 } from '../services/notification-service';
-import { Chore, ChoreCreateInput, ChoreUpdateInput } from '../types/chore';
-import { queryKeys } from './query-keys';
-
-const NOTIFICATION_SETTINGS_KEY = '@notification_settings';
+import { Chore, ChoreCreateInput, ChoreFilter, ChoreUpdateInput } from '../types/chore';
+import { showToast } from '../utils/toast';
+import { mutationKeys, queryKeys } from './query-keys';
+import { getCachedNotificationSettings } from './use-notification-settings';
+import { useQuerySubscription } from './use-query-subscription';
 
 // ── Types ──
 
@@ -35,9 +52,24 @@ export interface HouseholdChoreStats {
   dueToday: number;
 }
 
+export interface SkipVariables {
+  choreId: string;
+  reason?: string;
+}
+
+export interface SnoozeVariables {
+  choreId: string;
+  until: Date;
+}
+
 // ── Queries ──
 
 export function useHouseholdChores(householdId: string | undefined) {
+  useQuerySubscription(
+    queryKeys.chores.household(householdId ?? ''),
+    householdId ? (onData, onError) => watchHouseholdChores(householdId, onData, onError) : null
+  );
+
   return useQuery({
     queryKey: queryKeys.chores.household(householdId ?? ''),
     queryFn: () => getHouseholdChores(householdId!),
@@ -46,6 +78,11 @@ export function useHouseholdChores(householdId: string | undefined) {
 }
 
 export function useChore(choreId: string | undefined) {
+  useQuerySubscription(
+    queryKeys.chores.detail(choreId ?? ''),
+    choreId ? (onData, onError) => watchChore(choreId, onData, onError) : null
+  );
+
   return useQuery({
     queryKey: queryKeys.chores.detail(choreId ?? ''),
     queryFn: () => getChore(choreId!),
@@ -53,10 +90,26 @@ export function useChore(choreId: string | undefined) {
   });
 }
 
+export function useChoreCompletions(choreId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.chores.completions(choreId ?? ''),
+    queryFn: () => getChoreCompletions(choreId!),
+    enabled: !!choreId,
+  });
+}
+
 export function useTodayChores(
   userId: string | undefined,
   householdIds: string[]
 ) {
+  useQuerySubscription(
+    queryKeys.chores.today(userId ?? ''),
+    userId && householdIds.length > 0
+      ? (onData, onError) => watchChoresForHouseholds(householdIds, onData, onError)
+      : null,
+    householdIds
+  );
+
   return useQuery({
     queryKey: queryKeys.chores.today(userId ?? ''),
     queryFn: () => getChoresForHouseholds(householdIds),
@@ -66,12 +119,22 @@ export function useTodayChores(
 
 /**
  * Fetch chores across all households and compute per-household stats.
- * Returns a map of householdId → { total, overdue, dueToday }.
+ * Returns a map of householdId → { total, overdue, dueToday }, counting only
+ * chores that pass the user's chore filter.
  */
 export function useAllHouseholdChoreStats(
   userId: string | undefined,
-  householdIds: string[]
+  householdIds: string[],
+  filter: ChoreFilter = 'everyone'
 ) {
+  useQuerySubscription(
+    queryKeys.chores.allHouseholds(userId ?? ''),
+    userId && householdIds.length > 0
+      ? (onData, onError) => watchChoresForHouseholds(householdIds, onData, onError)
+      : null,
+    householdIds
+  );
+
   const query = useQuery({
     queryKey: queryKeys.chores.allHouseholds(userId ?? ''),
     queryFn: () => getChoresForHouseholds(householdIds),
@@ -88,6 +151,7 @@ export function useAllHouseholdChoreStats(
     todayEnd.setDate(todayEnd.getDate() + 1);
 
     for (const chore of query.data) {
+      if (!matchesChoreFilter(chore, filter, userId)) continue;
       if (!map[chore.householdId]) {
         map[chore.householdId] = { total: 0, overdue: 0, dueToday: 0 };
       }
@@ -104,7 +168,7 @@ export function useAllHouseholdChoreStats(
       }
     }
     return map;
-  }, [query.data]);
+  }, [query.data, filter, userId]);
 
   return { statsMap, isLoading: query.isLoading };
 }
@@ -112,7 +176,7 @@ export function useAllHouseholdChoreStats(
 // ── Notification Sync ──
 
 /**
- * Read notification settings from AsyncStorage and re-schedule all notifications
+ * Read the cached notification settings and re-schedule all notifications
  * using the latest chore data from the query cache.
  */
 async function syncNotificationsFromCache(
@@ -120,10 +184,7 @@ async function syncNotificationsFromCache(
   userId: string
 ) {
   try {
-    const raw = await AsyncStorage.getItem(NOTIFICATION_SETTINGS_KEY);
-    const settings: NotificationSettings = raw
-      ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(raw) }
-      : DEFAULT_NOTIFICATION_SETTINGS;
+    const settings = await getCachedNotificationSettings(userId);
 
     // Get cached chores from allHouseholds or today query
     const chores =
@@ -131,99 +192,212 @@ async function syncNotificationsFromCache(
       queryClient.getQueryData<Chore[]>(queryKeys.chores.today(userId)) ??
       [];
 
-    await scheduleAllNotifications(chores, settings);
+    await scheduleAllNotifications(chores, settings, userId);
   } catch {
     // Silently fail — notifications will sync on next app open
   }
 }
 
-// ── Mutations ──
+// ── Optimistic updates ──
 
-export function useCreateChore(householdId: string, userId?: string) {
-  const queryClient = useQueryClient();
+type CachedChoreData = [QueryKey, unknown][];
+
+function choreCacheKeys(choreId: string, householdId: string, userId: string) {
+  return {
+    lists: [
+      queryKeys.chores.household(householdId),
+      queryKeys.chores.today(userId),
+      queryKeys.chores.allHouseholds(userId),
+    ],
+    detail: queryKeys.chores.detail(choreId),
+  };
+}
 
-  return useMutation({
+/**
+ * Apply `update` to the chore in every cached list and its detail entry.
+ * Returns the previous cache contents for `rollbackChoreUpdate`.
+ */
+async function applyOptimisticChoreUpdate(
+  queryClient: ReturnType<typeof useQueryClient>,
+  choreId: string,
+  householdId: string,
+  userId: string,
+  update: (chore: Chore) => Chore
+): Promise<CachedChoreData> {
+  const { lists, detail } = choreCacheKeys(choreId, householdId, userId);
+  const keys = [...lists, detail];
+
+  // Keep in-flight fetches from overwriting the optimistic data
+  await Promise.all(keys.map((queryKey) => queryClient.cancelQueries({ queryKey })));
+
+  const previous: CachedChoreData = keys.map((queryKey) => [
+    queryKey,
+    queryClient.getQueryData(queryKey),
+  ]);
+
+  for (const queryKey of lists) {
+    queryClient.setQueryData<Chore[]>(queryKey, (chores) =>
+      chores?.map((chore) => (chore.id === choreId ? update(chore) : chore))
+    );
+  }
+  queryClient.setQueryData<Chore | null>(detail, (chore) => (chore ? update(chore) : chore));
+
+  return previous;
+}
+
+function rollbackChoreUpdate(
+  queryClient: ReturnType<typeof useQueryClient>,
+  previous: CachedChoreData | undefined
+) {
+  previous?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+// ── Mutation defaults ──
+
+/**
+ * Hook arguments a chore mutation needs besides its variables. They travel
+ * in `meta`, which is persisted with queued mutations, so a mutation resumed
+ * after a restart can still refresh the right caches.
+ */
+interface ChoreMutationMeta {
+  householdId: string;
+  userId?: string;
+  choreId?: string;
+}
+
+function choreMeta(meta: MutationMeta | undefined): ChoreMutationMeta {
+  return meta as unknown as ChoreMutationMeta;
+}
+
+function refreshChoreCaches(
+  queryClient: QueryClient,
+  { householdId, userId }: ChoreMutationMeta,
+  choreId?: string
+) {
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.chores.household(householdId),
+  });
+  if (choreId) {
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.chores.detail(choreId),
+    });
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.chores.completions(choreId),
+    });
+  }
+  if (userId) {
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.chores.today(userId),
+    });
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.chores.allHouseholds(userId),
+    });
+    syncNotificationsFromCache(queryClient, userId);
+  }
+}
+
+/**
+ * Register how each chore mutation runs and what it refreshes, so paused
+ * mutations restored from the persisted cache can resume. The hooks below
+ * only add optimistic updates and error toasts on top.
+ */
+export function registerChoreMutationDefaults(queryClient: QueryClient) {
+  queryClient.setMutationDefaults(mutationKeys.chores.create, {
     mutationFn: (input: ChoreCreateInput) => createChore(input),
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.household(householdId),
-      });
-      if (userId) {
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.chores.today(userId),
-        });
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.chores.allHouseholds(userId),
-        });
-        syncNotificationsFromCache(queryClient, userId);
-      }
-    },
+    onSuccess: (_data, _input, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta)),
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+
+  queryClient.setMutationDefaults(mutationKeys.chores.update, {
+    mutationFn: (updates: ChoreUpdateInput, { meta }) =>
+      updateChore(choreMeta(meta).choreId!, updates),
+    onSuccess: (_data, _updates, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta), choreMeta(meta).choreId),
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+
+  queryClient.setMutationDefaults(mutationKeys.chores.delete, {
+    mutationFn: (choreId: string) => deleteChore(choreId),
+    onSuccess: (_data, _choreId, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta)),
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+
+  queryClient.setMutationDefaults(mutationKeys.chores.complete, {
+    mutationFn: (choreId: string, { meta }) => completeChore(choreId, choreMeta(meta).userId!),
+    onSettled: (_data, _error, choreId, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta), choreId),
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+
+  queryClient.setMutationDefaults(mutationKeys.chores.undo, {
+    mutationFn: (choreId: string) => undoCompletion(choreId),
+    onSettled: (_data, _error, choreId, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta), choreId),
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+
+  queryClient.setMutationDefaults(mutationKeys.chores.skip, {
+    mutationFn: ({ choreId, reason }: SkipVariables, { meta }) =>
+      skipOccurrence(choreId, choreMeta(meta).userId!, reason),
+    onSuccess: (_data, { choreId }, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta), choreId),
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+
+  queryClient.setMutationDefaults(mutationKeys.chores.snooze, {
+    mutationFn: ({ choreId, until }: SnoozeVariables) => snoozeChore(choreId, until),
+    onSuccess: (_data, { choreId }, _result, { meta }) =>
+      refreshChoreCaches(queryClient, choreMeta(meta), choreId),
+    scope: MUTATION_QUEUE_SCOPE,
   });
 }
 
-export function useUpdateChore(choreId: string, householdId: string, userId?: string) {
-  const queryClient = useQueryClient();
+// ── Mutations ──
 
-  return useMutation({
-    mutationFn: (updates: ChoreUpdateInput) => updateChore(choreId, updates),
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.detail(choreId),
-      });
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.household(householdId),
-      });
-      if (userId) {
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.chores.today(userId),
-        });
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.chores.allHouseholds(userId),
-        });
-        syncNotificationsFromCache(queryClient, userId);
-      }
-    },
+export function useCreateChore(householdId: string, userId?: string) {
+  return useMutation<Chore, Error, ChoreCreateInput>({
+    mutationKey: mutationKeys.chores.create,
+    meta: { householdId, userId },
   });
 }
 
-export function useDeleteChore(householdId: string, userId?: string) {
-  const queryClient = useQueryClient();
+export function useUpdateChore(choreId: string, householdId: string, userId?: string) {
+  return useMutation<void, Error, ChoreUpdateInput>({
+    mutationKey: mutationKeys.chores.update,
+    meta: { householdId, userId, choreId },
+  });
+}
 
-  return useMutation({
-    mutationFn: (choreId: string) => deleteChore(choreId),
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.household(householdId),
-      });
-      if (userId) {
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.chores.today(userId),
-        });
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.chores.allHouseholds(userId),
-        });
-        syncNotificationsFromCache(queryClient, userId);
-      }
-    },
+export function useDeleteChore(householdId: string, userId?: string) {
+  return useMutation<void, Error, string>({
+    mutationKey: mutationKeys.chores.delete,
+    meta: { householdId, userId },
   });
 }
 
 export function useCompleteChore(householdId: string, userId: string) {
   const queryClient = useQueryClient();
 
-  return useMutation({
-    mutationFn: (choreId: string) => completeChore(choreId, userId),
-    onSuccess: (_data, choreId) => {
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.detail(choreId),
-      });
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.household(householdId),
-      });
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.today(userId),
-      });
-      syncNotificationsFromCache(queryClient, userId);
+  return useMutation<void, Error, string, CachedChoreData>({
+    mutationKey: mutationKeys.chores.complete,
+    meta: { householdId, userId },
+    onMutate: (choreId) => {
+      // Stop due alerts and overdue follow-ups now, even if the completion is
+      // queued offline; settling re-syncs them if it fails
+      cancelChoreNotifications(choreId).catch(() => {});
+      return applyOptimisticChoreUpdate(queryClient, choreId, householdId, userId, (chore) =>
+        withCompletion(chore, userId)
+      );
+    },
+    onError: (error, _choreId, previous) => {
+      rollbackChoreUpdate(queryClient, previous);
+      showToast(
+        error instanceof ChoreConflictError
+          ? error.message
+          : "Couldn't complete chore. Changes were undone."
+      );
     },
   });
 }
@@ -231,19 +405,32 @@ export function useCompleteChore(householdId: string, userId: string) {
 export function useUndoCompletion(householdId: string, userId: string) {
   const queryClient = useQueryClient();
 
-  return useMutation({
-    mutationFn: (choreId: string) => undoCompletion(choreId),
-    onSuccess: (_data, choreId) => {
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.detail(choreId),
-      });
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.household(householdId),
-      });
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.chores.today(userId),
-      });
-      syncNotificationsFromCache(queryClient, userId);
+  return useMutation<void, Error, string, CachedChoreData>({
+    mutationKey: mutationKeys.chores.undo,
+    meta: { householdId, userId },
+    onMutate: (choreId) =>
+      applyOptimisticChoreUpdate(queryClient, choreId, householdId, userId, withoutCompletion),
+    onError: (error, _choreId, previous) => {
+      rollbackChoreUpdate(queryClient, previous);
+      showToast(
+        error instanceof ChoreConflictError
+          ? error.message
+          : "Couldn't undo completion. Changes were undone."
+      );
     },
   });
 }
+
+export function useSkipOccurrence(householdId: string, userId: string) {
+  return useMutation<void, Error, SkipVariables>({
+    mutationKey: mutationKeys.chores.skip,
+    meta: { householdId, userId },
+  });
+}
+
+export function useSnoozeChore(householdId: string, userId: string) {
+  return useMutation<void, Error, SnoozeVariables>({
+    mutationKey: mutationKeys.chores.snooze,
+    meta: { householdId, userId },
+  });
+}
@@ -12,10 +12,14 @@ import {
   getHouseholdMembers,
   getUserHouseholds,
   removeHouseholdMember,
+  transferOwnership,
   updateHousehold,
+  updateMemberRole,
+  watchHouseholdMembers,
 } from '../services/household-service';
-import { HouseholdCreateInput, HouseholdUpdateInput } from '../types/household';
+import { HouseholdCreateInput, HouseholdRole, HouseholdUpdateInput } from '../types/household';
 import { queryKeys } from './query-keys';
+import { useQuerySubscription } from './use-query-subscription';
 
 // ── Queries ──
 
@@ -36,6 +40,11 @@ export function useHousehold(id: string | undefined) {
 }
 
 export function useHouseholdMembers(householdId: string | undefined) {
+  useQuerySubscription(
+    queryKeys.households.members(householdId ?? ''),
+    householdId ? (onData, onError) => watchHouseholdMembers(householdId, onData, onError) : null
+  );
+
   return useQuery({
     queryKey: queryKeys.households.members(householdId ?? ''),
     queryFn: () => getHouseholdMembers(householdId!),
@@ -120,6 +129,63 @@ export function useRemoveHouseholdMember(householdId: string) {
       queryClient.invalidateQueries({
         queryKey: queryKeys.households.all(variables.requestingUserId),
       });
+      // The departing member was dropped from chore rotations
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.chores.household(householdId),
+      });
+    },
+  });
+}
+
+export function useUpdateMemberRole(householdId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      role,
+      requestingUserId,
+    }: {
+      userId: string;
+      role: HouseholdRole;
+      requestingUserId: string;
+    }) => updateMemberRole(householdId, userId, role, requestingUserId),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.households.members(householdId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.households.member(householdId, variables.userId),
+      });
+    },
+  });
+}
+
+export function useTransferOwnership(householdId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      newOwnerId,
+      requestingUserId,
+    }: {
+      newOwnerId: string;
+      requestingUserId: string;
+    }) => transferOwnership(householdId, newOwnerId, requestingUserId),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.households.detail(householdId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.households.members(householdId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.households.member(householdId, variables.newOwnerId),
+      });
+      // Owner / Member chips on the households list
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.households.all(variables.requestingUserId),
+      });
     },
   });
 }
@@ -7,12 +7,17 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   acceptInvite,
   createInvite,
+  createJoinCode,
   declineInvite,
   deleteInvite,
   getInvitesForHousehold,
+  getJoinCode,
+  getJoinCodesForHousehold,
   getPendingInvitesForEmail,
+  redeemJoinCode,
+  revokeJoinCode,
 } from '../services/invite-service';
-import { InviteCreateInput } from '../types/invite';
+import { InviteCreateInput, JoinCodeCreateInput } from '../types/invite';
 import { queryKeys } from './query-keys';
 
 // ── Queries ──
@@ -33,6 +38,22 @@ export function useHouseholdInvites(householdId: string | undefined) {
   });
 }
 
+export function useJoinCode(code: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.invites.joinCode(code ?? ''),
+    queryFn: () => getJoinCode(code!),
+    enabled: !!code,
+  });
+}
+
+export function useHouseholdJoinCodes(householdId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.invites.joinCodes(householdId ?? ''),
+    queryFn: () => getJoinCodesForHousehold(householdId!),
+    enabled: !!householdId,
+  });
+}
+
 // ── Mutations ──
 
 export function useAcceptInvite(userEmail: string | null | undefined) {
@@ -105,3 +126,48 @@ export function useDeleteInvite(householdId: string) {
     },
   });
 }
+
+export function useCreateJoinCode(householdId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: JoinCodeCreateInput) => createJoinCode(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.invites.joinCodes(householdId),
+      });
+    },
+  });
+}
+
+export function useRevokeJoinCode(householdId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ code, userId }: { code: string; userId: string }) =>
+      revokeJoinCode(code, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.invites.joinCodes(householdId),
+      });
+    },
+  });
+}
+
+export function useRedeemJoinCode(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) => redeemJoinCode(code, userId!),
+    onSuccess: (_householdId, code) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.invites.joinCode(code),
+      });
+      if (userId) {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.households.all(userId),
+        });
+      }
+    },
+  });
+}
@@ -1,56 +1,161 @@
 /**
  * useNotificationSettings hook
- * AsyncStorage-backed notification preference management
+ * Notification preferences stored in the user's private settings document,
+ * so every device shares them, with an AsyncStorage cache for fast and
+ * offline reads
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useCallback, useEffect, useState } from 'react';
-import {
-  DEFAULT_NOTIFICATION_SETTINGS,
-  NotificationSettings,
-} from '../services/notification-service';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../services/notification-service';
+import { getNotificationSettings, saveNotificationSettings } from '../services/user-service';
+import { NotificationSettings } from '../types/user';
 
-const STORAGE_KEY = '@notification_settings';
+/** Before settings were cached per user; never read, only cleared */
+const LEGACY_STORAGE_KEY = '@notification_settings';
+
+function storageKey(userId: string): string {
+  return `${LEGACY_STORAGE_KEY}:${userId}`;
+}
+
+type SettingsListener = (settings: NotificationSettings) => void;
+
+/** Every mounted useNotificationSettings, so a change made through one reaches them all */
+const listeners = new Set<SettingsListener>();
+
+function publish(settings: NotificationSettings): void {
+  listeners.forEach((listener) => listener(settings));
+}
+
+function withDefaults(settings: Partial<NotificationSettings>): NotificationSettings {
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...settings };
+}
+
+async function readCache(userId: string | undefined): Promise<NotificationSettings | null> {
+  if (!userId) return null;
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    return raw ? withDefaults(JSON.parse(raw) as Partial<NotificationSettings>) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(
+  userId: string | undefined,
+  settings: NotificationSettings
+): Promise<void> {
+  if (!userId) return;
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(settings));
+  } catch {
+    // Silently fail — the saved settings still have them
+  }
+}
+
+function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Settings as saved for the user, with the timezone the server reads quiet hours in */
+function forUpload(settings: NotificationSettings): NotificationSettings {
+  return { ...settings, timeZone: deviceTimeZone() };
+}
+
+/**
+ * The user's settings last cached on this device (kept in step with their
+ * saved settings by useNotificationSettings), or the defaults.
+ */
+export async function getCachedNotificationSettings(
+  userId: string
+): Promise<NotificationSettings> {
+  return (await readCache(userId)) ?? DEFAULT_NOTIFICATION_SETTINGS;
+}
 
 /**
- * Hook for reading and updating notification settings.
- * Settings are persisted to AsyncStorage and include sensible defaults.
+ * Forget the user's cached settings on this device, when they sign out or
+ * delete their account, so they don't outlive the session.
  */
-export function useNotificationSettings() {
+export async function clearCachedNotificationSettings(userId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(storageKey(userId));
+    await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch {
+    // Silently fail — another account never reads this user's key
+  }
+}
+
+/**
+ * Hook for reading and updating the signed-in user's notification settings.
+ * Starts from their cache on this device, then adopts their saved settings.
+ * If none are saved yet, this user's own cached settings are uploaded.
+ * Every upload records the device's timezone. Signed out, it holds the
+ * defaults and caches nothing.
+ */
+export function useNotificationSettings(userId?: string) {
   const [settings, setSettings] = useState<NotificationSettings>(
     DEFAULT_NOTIFICATION_SETTINGS
   );
   const [loading, setLoading] = useState(true);
+  // Set once the user changes something, so a late load of the saved settings doesn't undo it
+  const changedRef = useRef(false);
 
-  // Load settings on mount
   useEffect(() => {
+    listeners.add(setSettings);
+    return () => {
+      listeners.delete(setSettings);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    changedRef.current = false;
+
     (async () => {
+      const cached = await readCache(userId);
+      if (cancelled) return;
+      setSettings(cached ?? DEFAULT_NOTIFICATION_SETTINGS);
+      setLoading(false);
+
+      if (!userId) return;
       try {
-        const raw = await AsyncStorage.getItem(STORAGE_KEY);
-        if (raw) {
-          const parsed = JSON.parse(raw) as Partial<NotificationSettings>;
-          setSettings({ ...DEFAULT_NOTIFICATION_SETTINGS, ...parsed });
+        const saved = await getNotificationSettings(userId);
+        if (cancelled || changedRef.current) return;
+
+        if (saved) {
+          const synced = withDefaults(saved);
+          publish(synced);
+          await writeCache(userId, synced);
+          // Keep quiet hours on pushes in step with where the user is now
+          if (synced.timeZone !== deviceTimeZone()) {
+            await saveNotificationSettings(userId, forUpload(synced));
+          }
+        } else if (cached) {
+          await saveNotificationSettings(userId, forUpload(cached));
         }
       } catch {
-        // Use defaults on error
-      } finally {
-        setLoading(false);
+        // Offline or failed — keep the cached settings until next time
       }
     })();
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   const updateSettings = useCallback(
     async (updates: Partial<NotificationSettings>) => {
       const next = { ...settings, ...updates };
-      setSettings(next);
-      try {
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-      } catch {
-        // Silently fail — settings will remain in memory
+      changedRef.current = true;
+      publish(next);
+      await writeCache(userId, next);
+      if (userId) {
+        // Not awaited: Firestore keeps the write pending while offline
+        saveNotificationSettings(userId, forUpload(next)).catch(() => {});
       }
       return next;
     },
-    [settings]
+    [settings, userId]
   );
 
   return { settings, updateSettings, loading };
@@ -0,0 +1,129 @@
+/**
+ * Pending changes hook
+ * Lists chore and room changes queued while offline and lets the user
+ * discard one before it syncs.
+ */
+
+import { Mutation, QueryClient, useMutationState, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { isQueuedMutation } from '../mutation-queue';
+import { Chore } from '../types/chore';
+import { Room } from '../types/room';
+import { queryKeys } from './query-keys';
+
+// ── Types ──
+
+export interface PendingChange {
+  mutationId: number;
+  description: string;
+  /** When the change was made (ms since epoch) */
+  queuedAt: number;
+}
+
+// ── Descriptions ──
+
+function findCachedChore(queryClient: QueryClient, choreId: string): Chore | undefined {
+  const detail = queryClient.getQueryData<Chore | null>(queryKeys.chores.detail(choreId));
+  if (detail) return detail;
+
+  for (const [, data] of queryClient.getQueriesData<Chore[]>({ queryKey: ['chores'] })) {
+    const chore = Array.isArray(data) ? data.find((c) => c.id === choreId) : undefined;
+    if (chore) return chore;
+  }
+  return undefined;
+}
+
+function findCachedRoom(
+  queryClient: QueryClient,
+  householdId: string,
+  roomId: string
+): Room | undefined {
+  return queryClient
+    .getQueryData<Room[]>(queryKeys.rooms.household(householdId))
+    ?.find((room) => room.id === roomId);
+}
+
+/** One-line summary of a queued mutation, e.g. `Complete "Dishes"` */
+export function describeQueuedMutation(
+  queryClient: QueryClient,
+  mutation: Mutation<any, any, any, any>
+): string {
+  const [entity, action] = mutation.options.mutationKey ?? [];
+  const variables = mutation.state.variables;
+  const meta = mutation.options.meta ?? {};
+
+  const chore = (choreId: string) => {
+    const name = findCachedChore(queryClient, choreId)?.name;
+    return name ? `"${name}"` : 'chore';
+  };
+  const room = (householdId: string, roomId: string) => {
+    const name = findCachedRoom(queryClient, householdId, roomId)?.name;
+    return name ? `"${name}"` : '';
+  };
+
+  if (entity === 'chores') {
+    switch (action) {
+      case 'create':
+        return `Create "${variables.name}"`;
+      case 'update':
+        return `Edit ${chore(meta.choreId as string)}`;
+      case 'delete':
+        return `Delete ${chore(variables)}`;
+      case 'complete':
+        return `Complete ${chore(variables)}`;
+      case 'undo':
+        return `Undo completion of ${chore(variables)}`;
+      case 'skip':
+        return `Skip ${chore(variables.choreId)}`;
+      case 'snooze':
+        return `Snooze ${chore(variables.choreId)} until ${variables.until.toLocaleString()}`;
+    }
+  }
+
+  if (entity === 'rooms') {
+    switch (action) {
+      case 'create':
+        return `Add room "${variables.name}"`;
+      case 'update':
+        return `Edit room ${room(meta.householdId as string, meta.roomId as string)}`.trim();
+      case 'delete':
+        return `Delete room ${room(variables.householdId, variables.roomId)}`.trim();
+    }
+  }
+
+  return 'Change';
+}
+
+// ── Hook ──
+
+export function usePendingChanges() {
+  const queryClient = useQueryClient();
+
+  const changes = useMutationState<PendingChange>({
+    filters: { predicate: isQueuedMutation },
+    select: (mutation) => ({
+      mutationId: mutation.mutationId,
+      description: describeQueuedMutation(queryClient, mutation),
+      queuedAt: mutation.state.submittedAt,
+    }),
+  });
+
+  /**
+   * Drop a queued change so it never syncs. Cached chores and rooms are
+   * refetched from Firestore to undo its optimistic update.
+   */
+  const discardChange = useCallback(
+    (mutationId: number) => {
+      const mutationCache = queryClient.getMutationCache();
+      const mutation = mutationCache.getAll().find((m) => m.mutationId === mutationId);
+      if (!mutation) return;
+
+      mutationCache.remove(mutation);
+      queryClient.invalidateQueries({ queryKey: ['chores'] });
+      queryClient.invalidateQueries({ queryKey: ['rooms'] });
+    },
+    [queryClient]
+  );
+
+  return { changes, discardChange };
+}
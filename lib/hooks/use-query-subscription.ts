@@ -0,0 +1,32 @@
+/**
+ * useQuerySubscription hook
+ * Keeps a query key fed by a realtime listener while the component is mounted
+ */
+
+import { hashKey, QueryKey, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { SubscribeFn, subscribeQuery } from '../query-subscriptions';
+
+/**
+ * Pass `null` as `subscribe` to skip listening (like `enabled: false`).
+ * The listener restarts only when the key or `scope` changes.
+ */
+export function useQuerySubscription<T>(
+  queryKey: QueryKey,
+  subscribe: SubscribeFn<T> | null,
+  scope?: unknown
+) {
+  const queryClient = useQueryClient();
+  // Latest inputs, read when the listener (re)starts
+  const latest = useRef({ queryKey, subscribe, scope });
+  latest.current = { queryKey, subscribe, scope };
+
+  const enabled = subscribe !== null;
+  const id = hashKey([...queryKey, scope ?? null]);
+
+  useEffect(() => {
+    const { queryKey, subscribe, scope } = latest.current;
+    if (!enabled || !subscribe) return;
+    return subscribeQuery(queryClient, queryKey, subscribe, scope);
+  }, [queryClient, id, enabled]);
+}
@@ -3,20 +3,28 @@
  * Queries and mutations for room operations
  */
 
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MutationMeta, QueryClient, useMutation, useQuery } from '@tanstack/react-query';
+import { MUTATION_QUEUE_SCOPE } from '../mutation-queue';
 import {
   createRoom,
   deleteRoom,
   getHouseholdRooms,
   getRoom,
   updateRoom,
+  watchHouseholdRooms,
 } from '../services/room-service';
-import { RoomCreateInput, RoomUpdateInput } from '../types/room';
-import { queryKeys } from './query-keys';
+import { Room, RoomCreateInput, RoomUpdateInput } from '../types/room';
+import { mutationKeys, queryKeys } from './query-keys';
+import { useQuerySubscription } from './use-query-subscription';
 
 // ── Queries ──
 
 export function useHouseholdRooms(householdId: string | undefined) {
+  useQuerySubscription(
+    queryKeys.rooms.household(householdId ?? ''),
+    householdId ? (onData, onError) => watchHouseholdRooms(householdId, onData, onError) : null
+  );
+
   return useQuery({
     queryKey: queryKeys.rooms.household(householdId ?? ''),
     queryFn: () => getHouseholdRooms(householdId!),
@@ -32,28 +40,46 @@ export function useRoom(householdId: string | undefined, roomId: string | undefi
   });
 }
 
-// ── Mutations ──
+// ── Mutation defaults ──
 
-export function useCreateRoom() {
-  const queryClient = useQueryClient();
+/** Hook arguments `useUpdateRoom` needs besides its variables (see use-chores) */
+interface RoomMutationMeta {
+  householdId: string;
+  roomId: string;
+}
+
+function roomMeta(meta: MutationMeta | undefined): RoomMutationMeta {
+  return meta as unknown as RoomMutationMeta;
+}
+
+export interface DeleteRoomVariables {
+  householdId: string;
+  roomId: string;
+  requestingUserId: string;
+}
 
-  return useMutation({
+/**
+ * Register how each room mutation runs, so paused mutations restored from
+ * the persisted cache can resume.
+ */
+export function registerRoomMutationDefaults(queryClient: QueryClient) {
+  queryClient.setMutationDefaults(mutationKeys.rooms.create, {
     mutationFn: (input: RoomCreateInput) => createRoom(input),
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({
         queryKey: queryKeys.rooms.household(variables.householdId),
       });
     },
+    scope: MUTATION_QUEUE_SCOPE,
   });
-}
 
-export function useUpdateRoom(householdId: string, roomId: string) {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: (updates: RoomUpdateInput) =>
-      updateRoom(householdId, roomId, updates),
-    onSuccess: () => {
+  queryClient.setMutationDefaults(mutationKeys.rooms.update, {
+    mutationFn: (updates: RoomUpdateInput, { meta }) => {
+      const { householdId, roomId } = roomMeta(meta);
+      return updateRoom(householdId, roomId, updates);
+    },
+    onSuccess: (_data, _updates, _result, { meta }) => {
+      const { householdId, roomId } = roomMeta(meta);
       queryClient.invalidateQueries({
         queryKey: queryKeys.rooms.household(householdId),
       });
@@ -61,22 +87,12 @@ export function useUpdateRoom(householdId: string, roomId: string) {
         queryKey: queryKeys.rooms.detail(householdId, roomId),
       });
     },
+    scope: MUTATION_QUEUE_SCOPE,
   });
-}
 
-export function useDeleteRoom() {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: ({
-      householdId,
-      roomId,
-      requestingUserId,
-    }: {
-      householdId: string;
-      roomId: string;
-      requestingUserId: string;
-    }) => deleteRoom(householdId, roomId, requestingUserId),
+  queryClient.setMutationDefaults(mutationKeys.rooms.delete, {
+    mutationFn: ({ householdId, roomId, requestingUserId }: DeleteRoomVariables) =>
+      deleteRoom(householdId, roomId, requestingUserId),
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({
         queryKey: queryKeys.rooms.household(variables.householdId),
@@ -86,5 +102,27 @@ export function useDeleteRoom() {
         queryKey: queryKeys.chores.household(variables.householdId),
       });
     },
+    scope: MUTATION_QUEUE_SCOPE,
+  });
+}
+
+// ── Mutations ──
+
+export function useCreateRoom() {
+  return useMutation<Room, Error, RoomCreateInput>({
+    mutationKey: mutationKeys.rooms.create,
+  });
+}
+
+export function useUpdateRoom(householdId: string, roomId: string) {
+  return useMutation<void, Error, RoomUpdateInput>({
+    mutationKey: mutationKeys.rooms.update,
+    meta: { householdId, roomId },
+  });
+}
+
+export function useDeleteRoom() {
+  return useMutation<void, Error, DeleteRoomVariables>({
+    mutationKey: mutationKeys.rooms.delete,
   });
 }
@@ -0,0 +1,10 @@
+/**
+ * useSyncStatus hook
+ * Provides pending-write and last-synced state for offline indicators
+ */
+
+import { useSyncContext } from '../contexts/sync-context';
+
+export function useSyncStatus() {
+  return useSyncContext();
+}
@@ -0,0 +1,49 @@
+/**
+ * Offline mutation queue
+ * Chore and room mutations pause while the device is offline. Paused
+ * mutations are saved with the persisted query cache and resumed, in order,
+ * once the app is back online, even after a restart.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { Mutation, onlineManager, UseMutationResult } from '@tanstack/react-query';
+
+/**
+ * Shared by every queueable mutation so queued changes run one at a time, in
+ * the order they were made (e.g. a completion before its undo).
+ */
+export const MUTATION_QUEUE_SCOPE = { id: 'mutation-queue' };
+
+/** A queueable mutation waiting for the network (or for the one ahead of it) */
+export function isQueuedMutation(mutation: Mutation<any, any, any, any>): boolean {
+  return mutation.state.isPaused && mutation.options.scope?.id === MUTATION_QUEUE_SCOPE.id;
+}
+
+/** Drive React Query's online state from NetInfo, which React Native needs */
+export function watchOnlineStatus() {
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => {
+      setOnline((state.isConnected ?? true) && (state.isInternetReachable ?? true));
+    })
+  );
+}
+
+/**
+ * Like `mutateAsync`, but resolves straight away when offline instead of
+ * waiting for the queued mutation to run, so forms can close.
+ */
+export async function mutateOrQueue<TVariables>(
+  mutation: UseMutationResult<any, Error, TVariables, any>,
+  variables: TVariables
+): Promise<void> {
+  if (onlineManager.isOnline()) {
+    await mutation.mutateAsync(variables);
+    return;
+  }
+  mutation.mutate(variables);
+}
+
+/** In flight rather than queued, i.e. worth showing a spinner for */
+export function isMutationRunning(mutation: UseMutationResult<any, any, any, any>): boolean {
+  return mutation.isPending && !mutation.isPaused;
+}
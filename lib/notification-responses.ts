@@ -0,0 +1,76 @@
+/**
+ * Notification responses
+ * Acts on taps and action buttons on chore notifications: "Done" completes
+ * the chore (queued if offline), "Snooze 1h" shows the notification again
+ * later (after quiet hours), and a plain tap opens the chore.
+ */
+
+import { MutationObserver } from '@tanstack/react-query';
+import * as Notifications from 'expo-notifications';
+import { mutationKeys } from './hooks/query-keys';
+import { getCachedNotificationSettings } from './hooks/use-notification-settings';
+import { queryClient } from './query-client';
+import { ChoreConflictError } from './services/chore-service';
+import {
+  cancelChoreNotifications,
+  CHORE_ACTION_COMPLETE,
+  CHORE_ACTION_SNOOZE,
+  getChoreNotificationData,
+  snoozeNotification,
+} from './services/notification-service';
+import { showToast } from './utils/toast';
+
+/**
+ * Complete a chore through the shared mutation queue, so it syncs like a
+ * completion made in the app (and waits for the network if offline).
+ */
+async function completeChoreFromNotification(
+  choreId: string,
+  householdId: string,
+  userId: string
+): Promise<void> {
+  await cancelChoreNotifications(choreId);
+
+  const observer = new MutationObserver<void, Error, string>(queryClient, {
+    mutationKey: mutationKeys.chores.complete,
+    meta: { householdId, userId },
+  });
+  try {
+    await observer.mutate(choreId);
+  } catch (error) {
+    showToast(
+      error instanceof ChoreConflictError ? error.message : "Couldn't complete chore."
+    );
+  }
+}
+
+/**
+ * Handle a response to a chore notification for the signed-in user.
+ * `openChore` navigates to the chore when the notification itself is tapped.
+ */
+export async function handleNotificationResponse(
+  response: Notifications.NotificationResponse,
+  userId: string,
+  openChore: (householdId: string, choreId: string) => void
+): Promise<void> {
+  const chore = getChoreNotificationData(response.notification);
+  if (!chore) return;
+
+  try {
+    switch (response.actionIdentifier) {
+      case CHORE_ACTION_COMPLETE:
+        await completeChoreFromNotification(chore.choreId, chore.householdId, userId);
+        break;
+      case CHORE_ACTION_SNOOZE: {
+        const settings = await getCachedNotificationSettings(userId);
+        await snoozeNotification(response.notification, settings);
+        break;
+      }
+      case Notifications.DEFAULT_ACTION_IDENTIFIER:
+        openChore(chore.householdId, chore.choreId);
+        break;
+    }
+  } catch (error) {
+    console.error('Error handling notification response:', error);
+  }
+}
@@ -3,16 +3,26 @@
  */
 
 import { QueryClient } from '@tanstack/react-query';
+import { registerChoreMutationDefaults } from './hooks/use-chores';
+import { registerRoomMutationDefaults } from './hooks/use-rooms';
+import { watchOnlineStatus } from './mutation-queue';
 
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes
+      // Matches PERSISTED_CACHE_MAX_AGE so idle queries stay in the persisted cache
+      gcTime: 24 * 60 * 60 * 1000, // 24 hours
       retry: false,
+      // Firestore answers from its own cache while offline, so never pause queries
+      networkMode: 'always',
     },
     mutations: {
       retry: false,
     },
   },
 });
+
+watchOnlineStatus();
+registerChoreMutationDefaults(queryClient);
+registerRoomMutationDefaults(queryClient);
@@ -0,0 +1,130 @@
+/**
+ * Persisted React Query cache
+ * Saves the query cache to AsyncStorage so a cold start (even offline) shows
+ * the last known chores, households, rooms and invites straight away while
+ * Firestore catches up. Queued offline mutations are saved alongside it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from '@react-native-firebase/firestore';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import {
+  PersistedClient,
+  persistQueryClient,
+  removeOldestQuery,
+} from '@tanstack/react-query-persist-client';
+import Constants from 'expo-constants';
+import { isQueuedMutation } from './mutation-queue';
+import { queryClient } from './query-client';
+
+const STORAGE_KEY = '@overdue/query-cache';
+
+/** Restored caches older than this are discarded */
+export const PERSISTED_CACHE_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+/** Mark Timestamps and Dates in the serialized cache, which JSON would flatten */
+const TIMESTAMP_TAG = '__timestamp';
+const DATE_TAG = '__date';
+
+interface SerializedTimestamp {
+  [TIMESTAMP_TAG]: [seconds: number, nanoseconds: number];
+}
+
+interface SerializedDate {
+  [DATE_TAG]: number;
+}
+
+function isSerializedTimestamp(value: unknown): value is SerializedTimestamp {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as SerializedTimestamp)[TIMESTAMP_TAG])
+  );
+}
+
+function isSerializedDate(value: unknown): value is SerializedDate {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as SerializedDate)[DATE_TAG] === 'number'
+  );
+}
+
+/**
+ * JSON-encode the cache, keeping Firestore Timestamps (dueAt, createdAt,
+ * lastCompletion, expiresAt, ...) restorable as Timestamps rather than plain
+ * objects the rest of the app can't call `.toDate()` on. Dates (e.g. a
+ * queued snooze's `until`) are kept the same way.
+ */
+export function serializeQueryCache(client: PersistedClient): string {
+  // `this[key]` is the raw value; `value` has already been through toJSON()
+  return JSON.stringify(client, function (this: any, key: string, value: unknown) {
+    const raw = this[key];
+    if (raw instanceof Timestamp) {
+      const tagged: SerializedTimestamp = { [TIMESTAMP_TAG]: [raw.seconds, raw.nanoseconds] };
+      return tagged;
+    }
+    if (raw instanceof Date) {
+      const tagged: SerializedDate = { [DATE_TAG]: raw.getTime() };
+      return tagged;
+    }
+    return value;
+  });
+}
+
+export function deserializeQueryCache(cached: string): PersistedClient {
+  return JSON.parse(cached, (_key, value: unknown) => {
+    if (isSerializedTimestamp(value)) {
+      const [seconds, nanoseconds] = value[TIMESTAMP_TAG];
+      return new Timestamp(seconds, nanoseconds);
+    }
+    if (isSerializedDate(value)) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+}
+
+/**
+ * Restored caches from another app version (the data shapes may have
+ * changed) or another account are thrown away.
+ */
+export function queryCacheBuster(userId: string): string {
+  return `${Constants.expoConfig?.version ?? 'dev'}:${userId}`;
+}
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: STORAGE_KEY,
+  serialize: serializeQueryCache,
+  deserialize: deserializeQueryCache,
+  // Drop the oldest queries if the cache outgrows the storage quota
+  retry: removeOldestQuery,
+});
+
+/**
+ * Restore the signed-in user's cache, resume any mutations that were queued
+ * when the app last closed, and keep saving changes. Returns a function that
+ * stops saving.
+ */
+export function persistQueryCache(userId: string): () => void {
+  const [unsubscribe, restored] = persistQueryClient({
+    queryClient,
+    persister: queryPersister,
+    maxAge: PERSISTED_CACHE_MAX_AGE,
+    buster: queryCacheBuster(userId),
+    dehydrateOptions: { shouldDehydrateMutation: isQueuedMutation },
+  });
+  restored
+    .then(() => queryClient.resumePausedMutations())
+    .catch((error) => {
+      console.error('Error restoring query cache:', error);
+    });
+  return unsubscribe;
+}
+
+/** Forget every cached query and queued mutation, in memory and on disk */
+export async function clearQueryCache(): Promise<void> {
+  queryClient.clear();
+  await queryPersister.removeClient();
+}
@@ -0,0 +1,121 @@
+/**
+ * Realtime query subscriptions
+ * Reference-counted Firestore listeners that push snapshots into the React
+ * Query cache, so every screen reading a query key shares one listener.
+ */
+
+import { hashKey, QueryClient, QueryKey } from '@tanstack/react-query';
+
+export type Unsubscribe = () => void;
+
+/** Write state of the documents behind a listener's latest snapshot */
+export interface SnapshotSyncState {
+  /** IDs of documents with local writes the server hasn't acknowledged yet */
+  pendingIds: string[];
+  /** Whether any of the snapshot came from the local cache */
+  fromCache: boolean;
+}
+
+/**
+ * Listeners that watch snapshot metadata can pass its sync state with each
+ * snapshot; `getSyncState` then reports it for the key.
+ */
+export type SubscribeFn<T> = (
+  onData: (data: T, sync?: SnapshotSyncState) => void,
+  onError: (error: Error) => void
+) => Unsubscribe;
+
+interface Subscription {
+  refCount: number;
+  unsubscribe: Unsubscribe;
+  sync?: SnapshotSyncState;
+}
+
+const subscriptions = new Map<string, Subscription>();
+const syncListeners = new Set<() => void>();
+
+function subscriptionId(queryKey: QueryKey, scope: unknown): string {
+  return hashKey([...queryKey, scope ?? null]);
+}
+
+function notifySyncListeners() {
+  syncListeners.forEach((listener) => listener());
+}
+
+/**
+ * Start (or join) the listener for a query key. `scope` distinguishes
+ * listeners whose inputs aren't part of the key, e.g. the household IDs
+ * behind a per-user query. Returns a release function; the listener stops
+ * when the last holder releases it.
+ */
+export function subscribeQuery<T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  subscribe: SubscribeFn<T>,
+  scope?: unknown
+): Unsubscribe {
+  const id = subscriptionId(queryKey, scope);
+  let subscription = subscriptions.get(id);
+
+  if (!subscription) {
+    const created: Subscription = { refCount: 0, unsubscribe: () => {} };
+    subscriptions.set(id, created);
+    created.unsubscribe = subscribe(
+      (data, sync) => {
+        queryClient.setQueryData(queryKey, data);
+        if (sync) {
+          created.sync = sync;
+          notifySyncListeners();
+        }
+      },
+      () => {
+        // Firestore ends a listener after an error; let the next holder restart it
+        if (subscriptions.get(id) === created) subscriptions.delete(id);
+      }
+    );
+    subscription = created;
+  }
+
+  const held = subscription;
+  held.refCount++;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    held.refCount--;
+    if (held.refCount === 0 && subscriptions.get(id) === held) {
+      subscriptions.delete(id);
+      held.unsubscribe();
+      if (held.sync) notifySyncListeners();
+    }
+  };
+}
+
+/**
+ * Stop every listener, e.g. on sign-out before security rules start
+ * rejecting them. Outstanding release functions become no-ops.
+ */
+export function unsubscribeAll(): void {
+  const active = Array.from(subscriptions.values());
+  subscriptions.clear();
+  active.forEach((subscription) => subscription.unsubscribe());
+  if (active.some((subscription) => subscription.sync)) notifySyncListeners();
+}
+
+/**
+ * Sync state from the latest snapshot of the listener for a key, or
+ * undefined if it isn't running or doesn't report one.
+ */
+export function getSyncState(queryKey: QueryKey, scope?: unknown): SnapshotSyncState | undefined {
+  return subscriptions.get(subscriptionId(queryKey, scope))?.sync;
+}
+
+/** Call `listener` whenever any listener reports a new sync state. */
+export function subscribeSyncStates(listener: () => void): Unsubscribe {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Activity service
+ * Appends to and pages through a household's activity feed
+ * (/households/{householdId}/activity). Entries are written by the chore,
+ * room, membership and invite services and never change afterwards.
+ */
+
+import {
+  collection,
+  doc,
+  documentId,
+  type FirebaseFirestoreTypes,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  Timestamp,
+} from '@react-native-firebase/firestore';
+import { auth, firestore } from '../firebase/config';
+import { activityConverter } from '../firebase/converters';
+import { ActivityEntry, ActivityInput } from '../types/activity';
+import { HouseholdRole } from '../types/household';
+
+export const ACTIVITY_PAGE_SIZE = 25;
+
+/**
+ * Where a page ended: the last entry's exact createdAt, and its ID to tell
+ * apart entries written at the same time
+ */
+export interface ActivityCursor {
+  seconds: number;
+  nanoseconds: number;
+  id: string;
+}
+
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  /** Where to load the page after this one from; null on the last page */
+  nextCursor: ActivityCursor | null;
+}
+
+function activityCollection(householdId: string) {
+  return collection(firestore, 'households', householdId, 'activity');
+}
+
+// ── Writing ──
+
+/** A new entry by `actorId` and the document to write it to */
+function newActivityEntry(householdId: string, input: ActivityInput, actorId: string) {
+  const entryRef = doc(activityCollection(householdId));
+  const data = {
+    ...activityConverter.toFirestore({ ...input, id: entryRef.id, householdId, actorId }),
+    // Stamped by the server (and checked by the rules), so device clocks can't reorder the feed
+    createdAt: serverTimestamp(),
+  };
+  return { entryRef, data };
+}
+
+/**
+ * Record something the signed-in user did in a household. Call it after the
+ * change itself has gone through: failures are logged rather than thrown,
+ * since a missing feed entry shouldn't fail or undo the change.
+ */
+export async function logActivity(householdId: string, input: ActivityInput): Promise<void> {
+  const actorId = auth.currentUser?.uid;
+  if (!actorId) return;
+
+  try {
+    const { entryRef, data } = newActivityEntry(householdId, input, actorId);
+    await setDoc(entryRef, data);
+  } catch (error) {
+    console.error('Error logging activity:', error);
+  }
+}
+
+/**
+ * Record something the signed-in user did as part of `batch`, so the entry
+ * lands only if the change does. For changes that end the user's write
+ * access to the feed, like leaving the household.
+ */
+export function batchActivity(
+  batch: FirebaseFirestoreTypes.WriteBatch,
+  householdId: string,
+  input: ActivityInput
+): void {
+  const actorId = auth.currentUser?.uid;
+  if (!actorId) return;
+
+  const { entryRef, data } = newActivityEntry(householdId, input, actorId);
+  batch.set(entryRef, data);
+}
+
+// ── Reading ──
+
+/**
+ * Load a page of a household's activity, newest first. Pass the previous
+ * page's nextCursor to continue from where it ended.
+ */
+export async function getActivityPage(
+  householdId: string,
+  cursor: ActivityCursor | null = null,
+  pageSize = ACTIVITY_PAGE_SIZE
+): Promise<ActivityPage> {
+  try {
+    const newestFirst = query(
+      activityCollection(householdId),
+      orderBy('createdAt', 'desc'),
+      orderBy(documentId(), 'desc')
+    );
+    const snap = await getDocs(
+      cursor === null
+        ? query(newestFirst, limit(pageSize))
+        : query(
+            newestFirst,
+            startAfter(new Timestamp(cursor.seconds, cursor.nanoseconds), cursor.id),
+            limit(pageSize)
+          ),
+    );
+
+    const entries = snap.docs
+      .map((d: any) => activityConverter.fromSnapshot(d))
+      .filter((e: any): e is ActivityEntry => e !== null);
+    const last = entries[entries.length - 1];
+
+    return {
+      entries,
+      nextCursor:
+        entries.length === pageSize && last
+          ? { seconds: last.createdAt.seconds, nanoseconds: last.createdAt.nanoseconds, id: last.id }
+          : null,
+    };
+  } catch (error) {
+    console.error('Error getting household activity:', error);
+    throw new Error('Failed to load activity');
+  }
+}
+
+// ── Describing ──
+
+/** How chore fields read in "changed the … of" */
+const CHORE_FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  description: 'description',
+  assignedTo: 'assignee',
+  rotation: 'rotation',
+  roomId: 'room',
+  interval: 'schedule',
+  dueAt: 'due date',
+  dueTime: 'due time',
+  reminderOffsets: 'reminders',
+};
+
+/** "a", "a and b", "a, b and c" */
+function joinWithAnd(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function describeRole(role: HouseholdRole | undefined): string {
+  return role === 'admin' ? 'an admin' : 'a member';
+}
+
+/**
+ * One-line description of an activity entry, e.g. `Sam completed "Dishes"`.
+ * `getMemberName` resolves the actor and the member it happened to.
+ */
+export function describeActivity(
+  entry: ActivityEntry,
+  getMemberName: (userId: string) => string
+): string {
+  const actor = getMemberName(entry.actorId);
+  const member = entry.userId ? getMemberName(entry.userId) : 'someone';
+  const chore = `"${entry.choreName ?? 'a chore'}"`;
+  const room = entry.roomName ?? 'a';
+
+  switch (entry.type) {
+    case 'choreCreated':
+      return `${actor} added ${chore}`;
+    case 'choreUpdated': {
+      const fields = (entry.changedFields ?? [])
+        .map((field) => CHORE_FIELD_LABELS[field])
+        .filter(Boolean);
+      return fields.length > 0
+        ? `${actor} changed the ${joinWithAnd(fields)} of ${chore}`
+        : `${actor} edited ${chore}`;
+    }
+    case 'choreDeleted':
+      return `${actor} deleted ${chore}`;
+    case 'choreCompleted':
+      return `${actor} completed ${chore}`;
+    case 'choreSkipped':
+      return `${actor} skipped ${chore}`;
+    case 'completionUndone':
+      return `${actor} undid the completion of ${chore}`;
+    case 'roomCreated':
+      return `${actor} added the ${room} room`;
+    case 'roomRenamed':
+      return `${actor} renamed ${entry.previousName ?? 'a room'} to ${entry.roomName}`;
+    case 'roomDeleted':
+      return `${actor} deleted the ${room} room`;
+    case 'memberJoined':
+      return `${actor} joined the household`;
+    case 'memberLeft':
+      return `${actor} left the household`;
+    case 'memberRemoved':
+      return `${actor} removed ${member}`;
+    case 'memberRoleChanged':
+      return `${actor} made ${member} ${describeRole(entry.role)}`;
+    case 'ownershipTransferred':
+      return `${actor} made ${member} the owner`;
+    case 'inviteSent':
+      return `${actor} invited ${entry.invitedEmail ?? 'someone'} as ${describeRole(entry.role)}`;
+  }
+}
@@ -8,9 +8,12 @@ import { digestStringAsync, CryptoDigestAlgorithm, getRandomBytes } from 'expo-c
 import {
   AppleAuthProvider,
   createUserWithEmailAndPassword,
+  deleteUser,
+  EmailAuthProvider,
   FacebookAuthProvider,
   type FirebaseAuthTypes,
   GoogleAuthProvider,
+  reauthenticateWithCredential,
   sendEmailVerification,
   sendPasswordResetEmail,
   signInWithCredential,
@@ -19,8 +22,19 @@ import {
   updateProfile,
 } from '@react-native-firebase/auth';
 import { auth } from '../firebase/config';
-import { createDefaultHousehold } from './household-service';
-import { createUserProfile, getUserProfile } from './user-service';
+import { clearCachedNotificationSettings } from '../hooks/use-notification-settings';
+import { clearQueryCache } from '../query-persistence';
+import { unassignUserChores } from './chore-service';
+import {
+  createDefaultHousehold,
+  deleteHousehold,
+  getUserHouseholds,
+  removeHouseholdMember,
+  transferOwnership,
+} from './household-service';
+import { deletePendingInvitesSentBy } from './invite-service';
+import { unregisterFromPushNotifications } from './push-service';
+import { createUserProfile, deleteUserProfile, getUserProfile } from './user-service';
 
 const GoogleSignin = require('@react-native-google-signin/google-signin').GoogleSignin;
 
@@ -42,6 +56,16 @@ export interface SignInParams {
   password: string;
 }
 
+export interface DeleteAccountParams {
+  /** Current password; needed to re-authenticate email/password accounts */
+  password?: string;
+  /** New owner per owned household ID. Owned households not listed are deleted. */
+  transferTo?: Record<string, string>;
+}
+
+/** Firebase rejects sensitive operations once the last sign-in is older than this */
+const RECENT_SIGN_IN_MS = 5 * 60 * 1000;
+
 /**
  * Sign up a new user with email, password, and display name
  */
@@ -78,7 +102,12 @@ export async function signIn({ email, password }: SignInParams): Promise<Firebas
  */
 export async function signOut(): Promise<void> {
   try {
+    const userId = auth.currentUser?.uid;
+    // Needs the user still signed in to remove the device token
+    if (userId) await unregisterFromPushNotifications(userId);
     await firebaseSignOut(auth);
+    if (userId) await clearCachedNotificationSettings(userId);
+    await clearQueryCache();
   } catch (error: any) {
     console.error('Sign out error:', error);
     throw new Error('Failed to sign out. Please try again.');
@@ -128,33 +157,11 @@ export async function resendVerificationEmail(): Promise<void> {
  */
 export async function signInWithApple(): Promise<FirebaseAuthTypes.User> {
   try {
-    const rawNonce = generateNonce();
-    const hashedNonce = await digestStringAsync(
-      CryptoDigestAlgorithm.SHA256,
-      rawNonce
-    );
-
-    const appleCredential = await AppleAuthentication.signInAsync({
-      requestedScopes: [
-        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
-        AppleAuthentication.AppleAuthenticationScope.EMAIL,
-      ],
-      nonce: hashedNonce,
-    });
-
-    if (!appleCredential.identityToken) {
-      throw new Error('No identity token received from Apple');
-    }
-
-    const oAuthCredential = AppleAuthProvider.credential(
-      appleCredential.identityToken,
-      rawNonce,
-    );
-
-    const result = await signInWithCredential(auth, oAuthCredential);
+    const { credential, fullName } = await getAppleCredential();
+    const result = await signInWithCredential(auth, credential);
 
-    const displayName = appleCredential.fullName
-      ? [appleCredential.fullName.givenName, appleCredential.fullName.familyName]
+    const displayName = fullName
+      ? [fullName.givenName, fullName.familyName]
           .filter(Boolean)
           .join(' ') || null
       : null;
@@ -190,15 +197,7 @@ export async function signInWithApple(): Promise<FirebaseAuthTypes.User> {
  */
 export async function signInWithGoogle(): Promise<FirebaseAuthTypes.User> {
   try {
-    await GoogleSignin.hasPlayServices();
-    const response = await GoogleSignin.signIn();
-    const idToken = response.data?.idToken;
-
-    if (!idToken) {
-      throw new Error('No ID token received from Google');
-    }
-
-    const credential = GoogleAuthProvider.credential(idToken);
+    const credential = await getGoogleCredential();
     const result = await signInWithCredential(auth, credential);
 
     const existingProfile = await getUserProfile(result.user.uid);
@@ -228,20 +227,7 @@ export async function signInWithGoogle(): Promise<FirebaseAuthTypes.User> {
  */
 export async function signInWithFacebook(): Promise<FirebaseAuthTypes.User> {
   try {
-    const loginResult = await LoginManager.logInWithPermissions(['public_profile', 'email']);
-
-    if (loginResult.isCancelled) {
-      const cancelError: any = new Error('User cancelled Facebook login');
-      cancelError.code = 'ERR_REQUEST_CANCELED';
-      throw cancelError;
-    }
-
-    const tokenData = await AccessToken.getCurrentAccessToken();
-    if (!tokenData?.accessToken) {
-      throw new Error('No access token received from Facebook');
-    }
-
-    const credential = FacebookAuthProvider.credential(tokenData.accessToken);
+    const credential = await getFacebookCredential();
     const result = await signInWithCredential(auth, credential);
 
     const existingProfile = await getUserProfile(result.user.uid);
@@ -265,6 +251,174 @@ export async function signInWithFacebook(): Promise<FirebaseAuthTypes.User> {
   }
 }
 
+/**
+ * Delete the signed-in user's account and everything that only they own
+ *
+ * Re-authenticates first when the last sign-in is stale, so nothing is
+ * removed if Firebase would refuse the final auth deletion. Then:
+ * 1. Owned households are deleted, or handed over per `transferTo`
+ * 2. The user's chores are unassigned and their memberships removed
+ * 3. Pending invites they sent and their `/users/{uid}` profile are deleted
+ * 4. The auth user is deleted, which signs them out
+ */
+export async function deleteAccount({
+  password,
+  transferTo = {},
+}: DeleteAccountParams = {}): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('No user is currently signed in');
+  }
+
+  try {
+    if (needsReauthentication(user)) {
+      await reauthenticate(user, password);
+    }
+
+    const households = await getUserHouseholds(user.uid);
+    for (const household of households) {
+      const newOwnerId = transferTo[household.id];
+      if (household.ownerId === user.uid) {
+        if (!newOwnerId) {
+          await deleteHousehold(household.id, user.uid);
+          continue;
+        }
+        await transferOwnership(household.id, newOwnerId, user.uid);
+      }
+
+      // Chore writes need the membership, so unassign before leaving
+      await unassignUserChores(household.id, user.uid);
+      await removeHouseholdMember(household.id, user.uid, user.uid);
+    }
+
+    await deletePendingInvitesSentBy(user.uid);
+    await deleteUserProfile(user.uid);
+    await deleteUser(user);
+    await clearCachedNotificationSettings(user.uid);
+    await clearQueryCache();
+  } catch (error: any) {
+    if (error.code === 'SIGN_IN_CANCELLED' || error.code === 'ERR_REQUEST_CANCELED') {
+      throw error;
+    }
+    console.error('Delete account error:', error);
+    throw error.code ? new Error(getAuthErrorMessage(error.code)) : error;
+  }
+}
+
+/**
+ * Provider the current account re-authenticates with (e.g. 'password', 'apple.com')
+ */
+export function getReauthenticationProvider(): string | null {
+  const user = auth.currentUser;
+  if (!user) return null;
+  return user.providerData[0]?.providerId ?? null;
+}
+
+function needsReauthentication(user: FirebaseAuthTypes.User): boolean {
+  const lastSignIn = user.metadata.lastSignInTime;
+  if (!lastSignIn) return true;
+  return Date.now() - new Date(lastSignIn).getTime() > RECENT_SIGN_IN_MS;
+}
+
+/**
+ * Re-authenticate with the provider the account signed up with
+ */
+async function reauthenticate(
+  user: FirebaseAuthTypes.User,
+  password?: string
+): Promise<void> {
+  const providerId = user.providerData[0]?.providerId;
+  let credential: FirebaseAuthTypes.AuthCredential;
+
+  switch (providerId) {
+    case 'password':
+      if (!password) {
+        throw new Error('Please enter your password to continue.');
+      }
+      credential = EmailAuthProvider.credential(user.email ?? '', password);
+      break;
+    case 'apple.com':
+      credential = (await getAppleCredential()).credential;
+      break;
+    case 'google.com':
+      credential = await getGoogleCredential();
+      break;
+    case 'facebook.com':
+      credential = await getFacebookCredential();
+      break;
+    default:
+      throw new Error('Please sign out and sign in again before deleting your account.');
+  }
+
+  await reauthenticateWithCredential(user, credential);
+}
+
+/**
+ * Run the native Apple flow and build a Firebase credential from it
+ */
+async function getAppleCredential(): Promise<{
+  credential: FirebaseAuthTypes.AuthCredential;
+  fullName: AppleAuthentication.AppleAuthenticationFullName | null;
+}> {
+  const rawNonce = generateNonce();
+  const hashedNonce = await digestStringAsync(
+    CryptoDigestAlgorithm.SHA256,
+    rawNonce
+  );
+
+  const appleCredential = await AppleAuthentication.signInAsync({
+    requestedScopes: [
+      AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+      AppleAuthentication.AppleAuthenticationScope.EMAIL,
+    ],
+    nonce: hashedNonce,
+  });
+
+  if (!appleCredential.identityToken) {
+    throw new Error('No identity token received from Apple');
+  }
+
+  return {
+    credential: AppleAuthProvider.credential(appleCredential.identityToken, rawNonce),
+    fullName: appleCredential.fullName,
+  };
+}
+
+/**
+ * Run the native Google flow and build a Firebase credential from it
+ */
+async function getGoogleCredential(): Promise<FirebaseAuthTypes.AuthCredential> {
+  await GoogleSignin.hasPlayServices();
+  const response = await GoogleSignin.signIn();
+  const idToken = response.data?.idToken;
+
+  if (!idToken) {
+    throw new Error('No ID token received from Google');
+  }
+
+  return GoogleAuthProvider.credential(idToken);
+}
+
+/**
+ * Run the native Facebook flow and build a Firebase credential from it
+ */
+async function getFacebookCredential(): Promise<FirebaseAuthTypes.AuthCredential> {
+  const loginResult = await LoginManager.logInWithPermissions(['public_profile', 'email']);
+
+  if (loginResult.isCancelled) {
+    const cancelError: any = new Error('User cancelled Facebook login');
+    cancelError.code = 'ERR_REQUEST_CANCELED';
+    throw cancelError;
+  }
+
+  const tokenData = await AccessToken.getCurrentAccessToken();
+  if (!tokenData?.accessToken) {
+    throw new Error('No access token received from Facebook');
+  }
+
+  return FacebookAuthProvider.credential(tokenData.accessToken);
+}
+
 /**
  * Generate a cryptographically secure random nonce string
  */
@@ -303,6 +457,10 @@ function getAuthErrorMessage(errorCode: string): string {
       return 'Network error. Please check your connection and try again.';
     case 'auth/account-exists-with-different-credential':
       return 'An account already exists with this email using a different sign-in method.';
+    case 'auth/requires-recent-login':
+      return 'For your security, please sign in again and retry.';
+    case 'auth/user-mismatch':
+      return 'That sign-in belongs to a different account.';
     default:
       return 'An error occurred. Please try again.';
   }
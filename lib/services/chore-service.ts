@@ -1,6 +1,7 @@
 /**
  * Chore service
- * Handles chore CRUD, completion, undo, and due-date calculation
+ * Handles chore CRUD, completion, undo, skip/snooze, assignee rotation,
+ * and due-date calculation
  */
 
 import {
@@ -10,28 +11,45 @@ import {
   doc,
   getDoc,
   getDocs,
+  limit,
+  onSnapshot,
   orderBy,
   query,
+  runTransaction,
   setDoc,
   Timestamp,
   updateDoc,
   where,
 } from '@react-native-firebase/firestore';
 import { firestore } from '../firebase/config';
-import { choreConverter } from '../firebase/converters';
+import { choreConverter, completionConverter, intervalConverter } from '../firebase/converters';
+import { SnapshotSyncState } from '../query-subscriptions';
 import {
+  AssigneeRotation,
   Chore,
   ChoreCreateInput,
+  ChoreFilter,
   ChoreUpdateInput,
+  Completion,
+  CompletionLogEntry,
   Interval,
 } from '../types/chore';
+import { withTimeOfDay } from '../utils/due-time';
+import { hasRecurrenceRule, nextRuleOccurrence } from '../utils/recurrence';
+import { logActivity } from './activity-service';
+import { getUserProfile } from './user-service';
 
 // ── Due-date helpers ──
 
 /**
  * Calculate the next due date from a base date and an interval.
+ * Intervals with a recurrence rule land on the rule's next matching day.
  */
 export function calculateNextDueDate(from: Date, interval: Interval): Date {
+  if (hasRecurrenceRule(interval)) {
+    return nextRuleOccurrence(from, interval);
+  }
+
   const next = new Date(from);
 
   switch (interval.type) {
@@ -55,13 +73,76 @@ export function calculateNextDueDate(from: Date, interval: Interval): Date {
   return next;
 }
 
+/**
+ * Calculate the due date that follows a completion at `completedAt`.
+ * Floating intervals restart from the completion (or from dueAt when done
+ * early). Fixed intervals stay on the original schedule and skip any
+ * occurrences missed while the chore was overdue, so they never stack.
+ */
+export function calculateNextDueDateAfterCompletion(
+  dueAt: Date,
+  interval: Interval,
+  completedAt: Date
+): Date {
+  if ((interval.anchor ?? 'floating') === 'floating') {
+    const baseDate = completedAt > dueAt ? completedAt : dueAt;
+    return calculateNextDueDate(baseDate, interval);
+  }
+
+  let next = calculateNextDueDate(dueAt, interval);
+  while (next <= completedAt) {
+    next = calculateNextDueDate(next, interval);
+  }
+  return next;
+}
+
+/**
+ * `date` moved to a chore's due time, if it has one, in the device's
+ * timezone. Applied whenever dueAt is set, so dueAt always holds the full
+ * instant the chore is due and readers without a timezone (like the
+ * overdue sweep) can compare it directly.
+ */
+function atDueTime(date: Date, dueTime: string | undefined): Date {
+  return dueTime ? withTimeOfDay(date, dueTime) : date;
+}
+
+/**
+ * The last moment of `date`'s day, for a chore whose due time was removed,
+ * so it stays due for the whole day instead of at the old time.
+ */
+function atEndOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+/**
+ * When a chore is due. dueAt already includes the due time.
+ */
+export function getDueDate(chore: Pick<Chore, 'dueAt'>): Date | null {
+  return chore.dueAt ? chore.dueAt.toDate() : null;
+}
+
 /**
  * Determine whether a chore is overdue right now.
  * Chores with no due date (null) are never overdue.
  */
 export function isChoreOverdue(chore: Chore): boolean {
-  if (!chore.dueAt) return false;
-  return chore.dueAt.toDate() < new Date() && !chore.lastCompletion;
+  const dueDate = getDueDate(chore);
+  if (!dueDate) return false;
+  return dueDate < new Date() && !chore.lastCompletion;
+}
+
+/**
+ * Whether a chore passes the user's chore filter. Without a user there is no
+ * "mine", so everything passes.
+ */
+export function matchesChoreFilter(
+  chore: Pick<Chore, 'assignedTo'>,
+  filter: ChoreFilter,
+  userId?: string
+): boolean {
+  if (filter === 'everyone' || !userId) return true;
+  if (chore.assignedTo === userId) return true;
+  return filter === 'mineAndUnassigned' && !chore.assignedTo;
 }
 
 /**
@@ -82,6 +163,40 @@ export function getUpcomingDueDates(
   return dates;
 }
 
+/**
+ * The due date a chore's schedule continues from: for a snoozed
+ * fixed-schedule chore, the date it was snoozed from, so a snooze never
+ * shifts the schedule; otherwise its dueAt.
+ */
+export function getScheduleAnchor(
+  chore: Pick<Chore, 'interval' | 'dueAt' | 'snoozedFrom'>
+): Timestamp | null {
+  return chore.interval.anchor === 'fixed' && chore.snoozedFrom ? chore.snoozedFrom : chore.dueAt;
+}
+
+/**
+ * Project the occurrences that follow the current one, scheduled at
+ * `dueAt` (the chore's getScheduleAnchor), up to `until`,
+ * assuming the current one is completed now (or on time, if not yet due).
+ * Used by the calendar to show future occurrences of recurring chores.
+ */
+export function getProjectedDueDates(
+  dueAt: Date,
+  interval: Interval,
+  until: Date,
+  now: Date = new Date()
+): Date[] {
+  if (interval.type === 'once') return [];
+
+  const dates: Date[] = [];
+  let next = calculateNextDueDateAfterCompletion(dueAt, interval, now);
+  while (next <= until) {
+    dates.push(next);
+    next = calculateNextDueDate(next, interval);
+  }
+  return dates;
+}
+
 // ── CRUD ──
 
 export async function createChore(input: ChoreCreateInput): Promise<Chore> {
@@ -99,6 +214,7 @@ export async function createChore(input: ChoreCreateInput): Promise<Chore> {
         calculateNextDueDate(now.toDate(), input.interval)
       );
     }
+    if (dueAt) dueAt = Timestamp.fromDate(atDueTime(dueAt.toDate(), input.dueTime));
 
     const chore: Chore = {
       id: choreRef.id,
@@ -106,15 +222,23 @@ export async function createChore(input: ChoreCreateInput): Promise<Chore> {
       name: input.name,
       description: input.description,
       assignedTo: input.assignedTo,
+      rotation: input.rotation,
       createdBy: input.createdBy,
       createdAt: now,
       updatedAt: now,
       interval: input.interval,
       dueAt,
+      dueTime: input.dueTime,
+      reminderOffsets: input.reminderOffsets,
       isOverdue: false,
     };
 
     await setDoc(choreRef, choreConverter.toFirestore(chore));
+    await logActivity(chore.householdId, {
+      type: 'choreCreated',
+      choreId: chore.id,
+      choreName: chore.name,
+    });
 
     return chore;
   } catch (error) {
@@ -137,17 +261,8 @@ export async function getHouseholdChores(
   householdId: string
 ): Promise<Chore[]> {
   try {
-    const snap = await getDocs(
-      query(
-        collection(firestore, 'chores'),
-        where('householdId', '==', householdId),
-        orderBy('dueAt', 'asc'),
-      ),
-    );
-
-    return snap.docs
-      .map((d: any) => choreConverter.fromSnapshot(d))
-      .filter((c: any): c is Chore => c !== null);
+    const snap = await getDocs(householdChoresQuery(householdId));
+    return choresFromSnapshot(snap);
   } catch (error) {
     console.error('Error getting household chores:', error);
     throw new Error('Failed to load chores');
@@ -161,49 +276,71 @@ export async function getChoresForHouseholds(
 
   try {
     const batches: Chore[] = [];
-    for (let i = 0; i < householdIds.length; i += 30) {
-      const batch = householdIds.slice(i, i + 30);
-      const snap = await getDocs(
-        query(
-          collection(firestore, 'chores'),
-          where('householdId', 'in', batch),
-          orderBy('dueAt', 'asc'),
-        ),
-      );
-
-      const chores = snap.docs
-        .map((d: any) => choreConverter.fromSnapshot(d))
-        .filter((c: any): c is Chore => c !== null);
-      batches.push(...chores);
+    for (const batch of chunkHouseholdIds(householdIds)) {
+      const snap = await getDocs(householdsChoresQuery(batch));
+      batches.push(...choresFromSnapshot(snap));
     }
 
-    batches.sort((a, b) => {
-      if (!a.dueAt && !b.dueAt) return 0;
-      if (!a.dueAt) return 1;
-      if (!b.dueAt) return -1;
-      return a.dueAt.toMillis() - b.dueAt.toMillis();
-    });
-    return batches;
+    return sortByDueAt(batches);
   } catch (error) {
     console.error('Error getting chores for households:', error);
     throw new Error('Failed to load chores');
   }
 }
 
+/** Fields an update actually changes; edit forms send every field. */
+function changedChoreFields(chore: Chore, updates: ChoreUpdateInput): string[] {
+  return Object.entries(updates)
+    .filter(([field, value]) => {
+      if (field === 'updatedAt') return false;
+      return JSON.stringify(chore[field as keyof Chore]) !== JSON.stringify(value);
+    })
+    .map(([field]) => field);
+}
+
 export async function updateChore(
   choreId: string,
   updates: ChoreUpdateInput
 ): Promise<void> {
   try {
+    const before = await getChore(choreId);
+
     const sanitized: Record<string, any> = {};
     for (const [key, value] of Object.entries(updates)) {
       sanitized[key] = value === undefined ? deleteField() : value;
     }
+    if (updates.interval) {
+      sanitized.interval = intervalConverter.toFirestore(updates.interval);
+    }
+    // An explicitly edited due date replaces any snoozed schedule anchor
+    if ('dueAt' in updates) {
+      sanitized.snoozedFrom = deleteField();
+    }
+    // Keep dueAt at the due time when either one is edited
+    if ('dueAt' in updates || 'dueTime' in updates) {
+      const dueAt = 'dueAt' in updates ? updates.dueAt : before?.dueAt;
+      const dueTime = 'dueTime' in updates ? updates.dueTime : before?.dueTime;
+      if (dueAt && dueTime) {
+        sanitized.dueAt = Timestamp.fromDate(atDueTime(dueAt.toDate(), dueTime));
+      } else if (dueAt && before?.dueTime) {
+        sanitized.dueAt = Timestamp.fromDate(atEndOfDay(dueAt.toDate()));
+      }
+    }
 
     await updateDoc(doc(firestore, 'chores', choreId), {
       ...sanitized,
       updatedAt: Timestamp.now(),
     });
+
+    const changedFields = before ? changedChoreFields(before, updates) : [];
+    if (before && changedFields.length > 0) {
+      await logActivity(before.householdId, {
+        type: 'choreUpdated',
+        choreId,
+        choreName: updates.name ?? before.name,
+        changedFields,
+      });
+    }
   } catch (error) {
     console.error('Error updating chore:', error);
     throw new Error('Failed to update chore');
@@ -212,76 +349,642 @@ export async function updateChore(
 
 export async function deleteChore(choreId: string): Promise<void> {
   try {
+    const chore = await getChore(choreId);
+    await deleteChoreCompletions(choreId);
     await deleteDoc(doc(firestore, 'chores', choreId));
+    if (chore) {
+      await logActivity(chore.householdId, { type: 'choreDeleted', choreId, choreName: chore.name });
+    }
   } catch (error) {
     console.error('Error deleting chore:', error);
     throw new Error('Failed to delete chore');
   }
 }
 
+// ── Realtime ──
+
+/**
+ * Listen to a single chore; `onChange` receives null once it is deleted
+ */
+export function watchChore(
+  choreId: string,
+  onChange: (chore: Chore | null) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(firestore, 'chores', choreId),
+    (snap) => onChange(choreConverter.fromSnapshot(snap)),
+    (error) => {
+      console.error('Error watching chore:', error);
+      onError(error);
+    }
+  );
+}
+
+export function watchHouseholdChores(
+  householdId: string,
+  onChange: (chores: Chore[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    householdChoresQuery(householdId),
+    (snap) => onChange(choresFromSnapshot(snap)),
+    (error) => {
+      console.error('Error watching household chores:', error);
+      onError(error);
+    }
+  );
+}
+
+/**
+ * Listen to chores across households. `in` queries are capped at 30 values,
+ * so one listener runs per batch and `onChange` fires with the merged list
+ * once every batch has reported. Metadata changes are included, so `onChange`
+ * also fires when local writes reach the server, with the chores still
+ * waiting on one in `sync`.
+ */
+export function watchChoresForHouseholds(
+  householdIds: string[],
+  onChange: (chores: Chore[], sync: SnapshotSyncState) => void,
+  onError: (error: Error) => void
+): () => void {
+  if (householdIds.length === 0) {
+    onChange([], { pendingIds: [], fromCache: false });
+    return () => {};
+  }
+
+  const batches = chunkHouseholdIds(householdIds);
+  const results: ({ chores: Chore[]; sync: SnapshotSyncState } | undefined)[] = batches.map(
+    () => undefined
+  );
+
+  const unsubscribes = batches.map((batch, index) =>
+    onSnapshot(
+      householdsChoresQuery(batch),
+      { includeMetadataChanges: true },
+      (snap) => {
+        results[index] = {
+          chores: choresFromSnapshot(snap),
+          sync: {
+            pendingIds: snap.docs
+              .filter((d: any) => d.metadata.hasPendingWrites)
+              .map((d: any) => d.id as string),
+            fromCache: snap.metadata.fromCache,
+          },
+        };
+        if (results.every((r) => r !== undefined)) {
+          const reported = results.flatMap((r) => (r ? [r] : []));
+          onChange(sortByDueAt(reported.flatMap((r) => r.chores)), {
+            pendingIds: reported.flatMap((r) => r.sync.pendingIds),
+            fromCache: reported.some((r) => r.sync.fromCache),
+          });
+        }
+      },
+      (error) => {
+        console.error('Error watching chores for households:', error);
+        onError(error);
+      }
+    )
+  );
+
+  return () => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+}
+
+function householdChoresQuery(householdId: string) {
+  return query(
+    collection(firestore, 'chores'),
+    where('householdId', '==', householdId),
+    orderBy('dueAt', 'asc'),
+  );
+}
+
+function householdsChoresQuery(householdIds: string[]) {
+  return query(
+    collection(firestore, 'chores'),
+    where('householdId', 'in', householdIds),
+    orderBy('dueAt', 'asc'),
+  );
+}
+
+function chunkHouseholdIds(householdIds: string[]): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < householdIds.length; i += 30) {
+    batches.push(householdIds.slice(i, i + 30));
+  }
+  return batches;
+}
+
+function choresFromSnapshot(snap: { docs: any[] }): Chore[] {
+  return snap.docs
+    .map((d: any) => choreConverter.fromSnapshot(d))
+    .filter((c: any): c is Chore => c !== null);
+}
+
+function sortByDueAt(chores: Chore[]): Chore[] {
+  return chores.sort((a, b) => {
+    if (!a.dueAt && !b.dueAt) return 0;
+    if (!a.dueAt) return 1;
+    if (!b.dueAt) return -1;
+    return a.dueAt.toMillis() - b.dueAt.toMillis();
+  });
+}
+
+// ── Completion log ──
+
+function completionsCollection(choreId: string) {
+  return collection(firestore, 'chores', choreId, 'completions');
+}
+
+/**
+ * Load a chore's completion log, newest first.
+ */
+export async function getChoreCompletions(
+  choreId: string,
+  max = 20
+): Promise<CompletionLogEntry[]> {
+  try {
+    const snap = await getDocs(
+      query(completionsCollection(choreId), orderBy('completedAt', 'desc'), limit(max)),
+    );
+
+    return snap.docs
+      .map((d: any) => completionConverter.fromSnapshot(d))
+      .filter((e: any): e is CompletionLogEntry => e !== null);
+  } catch (error) {
+    console.error('Error getting chore completions:', error);
+    throw new Error('Failed to load completion history');
+  }
+}
+
+/**
+ * Delete every completion log entry for a chore.
+ * Must run before the chore itself is deleted (security rules read the parent chore).
+ */
+export async function deleteChoreCompletions(choreId: string): Promise<void> {
+  const snap = await getDocs(completionsCollection(choreId));
+  for (const entryDoc of snap.docs) {
+    await deleteDoc(entryDoc.ref);
+  }
+}
+
+// ── Assignee rotation ──
+
+/** Upper bound when counting missed periods, so a long-abandoned chore can't spin. */
+const MAX_ROTATION_PERIODS = 366;
+
+/**
+ * The member `steps` turns after `current` in a rotation, skipping anyone not
+ * in `activeMemberIds` (when given). Returns undefined if nobody is eligible.
+ */
+export function getNextRotationAssignee(
+  rotation: AssigneeRotation,
+  current: string | undefined,
+  steps = 1,
+  activeMemberIds?: string[]
+): string | undefined {
+  const { memberIds } = rotation;
+  const isEligible = (userId: string) => !activeMemberIds || activeMemberIds.includes(userId);
+  if (!memberIds.some(isEligible)) return undefined;
+
+  let index = current ? memberIds.indexOf(current) : -1;
+  for (let step = 0; step < steps; step++) {
+    do {
+      index = (index + 1) % memberIds.length;
+    } while (!isEligible(memberIds[index]));
+  }
+  return memberIds[index];
+}
+
+/** Number of due periods from `from` up to `to` (at least one). */
+function countDuePeriods(from: Date, to: Date, interval: Interval): number {
+  let periods = 1;
+  let next = calculateNextDueDate(from, interval);
+  while (next < to && periods < MAX_ROTATION_PERIODS) {
+    next = calculateNextDueDate(next, interval);
+    periods++;
+  }
+  return periods;
+}
+
+async function getActiveMemberIds(householdId: string): Promise<string[]> {
+  const snap = await getDocs(
+    query(collection(firestore, 'householdMembers'), where('householdId', '==', householdId)),
+  );
+  return snap.docs.map((d: any) => d.data().userId as string);
+}
+
+/**
+ * Who the chore passes to when the current occurrence is completed or
+ * skipped, or undefined when the assignee doesn't change. Period rotations
+ * on fixed schedules advance once for every occurrence moved past, so
+ * skipped-over periods still count as turns.
+ */
+async function getRotationHandoff(
+  chore: Chore,
+  nextDueAt: Timestamp | null,
+  event: 'completion' | 'skip'
+): Promise<string | undefined> {
+  const rotation = chore.rotation;
+  if (!rotation || rotation.memberIds.length === 0 || chore.interval.type === 'once') {
+    return undefined;
+  }
+  if (event === 'skip' && rotation.mode === 'completion') return undefined;
+
+  let steps = 1;
+  if (rotation.mode === 'period' && chore.interval.anchor === 'fixed' && chore.dueAt && nextDueAt) {
+    const scheduled = chore.snoozedFrom ?? chore.dueAt;
+    steps = countDuePeriods(scheduled.toDate(), nextDueAt.toDate(), chore.interval);
+  }
+
+  const activeMemberIds = await getActiveMemberIds(chore.householdId);
+  const next = getNextRotationAssignee(rotation, chore.assignedTo, steps, activeMemberIds);
+  return next !== chore.assignedTo ? next : undefined;
+}
+
+/**
+ * Drop a departing member from every rotation in a household. Chores on
+ * their turn pass to the next remaining member; rotations left empty are
+ * removed and the chore is unassigned.
+ */
+export async function removeUserFromRotations(
+  householdId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const chores = await getHouseholdChores(householdId);
+    for (const chore of chores) {
+      const rotation = chore.rotation;
+      if (!rotation || !rotation.memberIds.includes(userId)) continue;
+
+      const memberIds = rotation.memberIds.filter((id) => id !== userId);
+      const updates: Record<string, unknown> = { updatedAt: Timestamp.now() };
+      if (memberIds.length === 0) {
+        updates.rotation = deleteField();
+        if (chore.assignedTo === userId) updates.assignedTo = deleteField();
+      } else {
+        updates.rotation = { ...rotation, memberIds };
+        if (chore.assignedTo === userId) {
+          updates.assignedTo = getNextRotationAssignee(rotation, userId, 1, memberIds);
+        }
+      }
+
+      await updateDoc(doc(firestore, 'chores', chore.id), updates);
+    }
+  } catch (error) {
+    console.error('Error removing user from rotations:', error);
+    throw new Error('Failed to update chore rotations');
+  }
+}
+
+/**
+ * Clear a user's fixed (non-rotating) assignments in a household so their
+ * chores become unassigned. Rotating chores are handled by
+ * `removeUserFromRotations`.
+ */
+export async function unassignUserChores(
+  householdId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const chores = await getHouseholdChores(householdId);
+    for (const chore of chores) {
+      if (chore.assignedTo !== userId) continue;
+      if (chore.rotation?.memberIds.includes(userId)) continue;
+
+      await updateDoc(doc(firestore, 'chores', chore.id), {
+        assignedTo: deleteField(),
+        updatedAt: Timestamp.now(),
+      });
+    }
+  } catch (error) {
+    console.error('Error unassigning user chores:', error);
+    throw new Error('Failed to unassign chores');
+  }
+}
+
 // ── Completion ──
 
+/**
+ * Another member changed the chore first (e.g. completed it at the same
+ * time). The message is safe to show as-is.
+ */
+export class ChoreConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChoreConflictError';
+  }
+}
+
+async function alreadyCompletedMessage(completion: Completion, userId: string): Promise<string> {
+  if (completion.completedBy === userId) return 'You already completed this chore';
+
+  const profile = await getUserProfile(completion.completedBy).catch(() => null);
+  return `Already completed by ${profile?.displayName ?? 'another member'}`;
+}
+
+/**
+ * Due date that follows the current occurrence once it is completed or
+ * skipped at `now`. Snoozed fixed-schedule chores keep anchoring on the date
+ * they were snoozed from, so a snooze never shifts the calendar schedule.
+ */
+function nextDueAtAfter(chore: Chore, now: Timestamp): Timestamp | null {
+  if (chore.interval.type === 'once' || !chore.dueAt) return chore.dueAt;
+
+  const scheduled = getScheduleAnchor(chore) ?? chore.dueAt;
+  const next = calculateNextDueDateAfterCompletion(
+    scheduled.toDate(),
+    chore.interval,
+    now.toDate()
+  );
+  // Floating schedules count from the completion, so restore the due time
+  return Timestamp.fromDate(atDueTime(next, chore.dueTime));
+}
+
+/**
+ * The chore as it will look once completed at `now`, for optimistic updates.
+ * Rotation hand-offs need member lookups, so the assignee is left to the
+ * server write.
+ */
+export function withCompletion(chore: Chore, userId: string, now = Timestamp.now()): Chore {
+  const completed: Chore = {
+    ...chore,
+    lastCompletion: {
+      completedAt: now,
+      completedBy: userId,
+      previousDueAt: chore.dueAt,
+    },
+    dueAt: nextDueAtAfter(chore, now),
+    isOverdue: false,
+    updatedAt: now,
+  };
+  delete completed.snoozedFrom;
+  return completed;
+}
+
+/**
+ * The chore as it will look once its latest completion is undone, for
+ * optimistic updates. Who a completion rotated the chore from is only in
+ * the completion log, so handing the turn back is left to the server write
+ * and the assignee is kept as-is.
+ */
+export function withoutCompletion(chore: Chore): Chore {
+  if (!chore.lastCompletion) return chore;
+
+  const restoredDueAt = chore.lastCompletion.previousDueAt;
+  const restored: Chore = {
+    ...chore,
+    dueAt: restoredDueAt,
+    isOverdue: restoredDueAt ? restoredDueAt.toDate() < new Date() : false,
+    updatedAt: Timestamp.now(),
+  };
+  delete restored.lastCompletion;
+  return restored;
+}
+
+/**
+ * Complete the current occurrence. Runs as a transaction so two members
+ * completing at once can't both advance the chore; the loser gets an
+ * "already completed" error naming who got there first.
+ */
 export async function completeChore(
   choreId: string,
   userId: string
 ): Promise<void> {
   try {
-    const chore = await getChore(choreId);
-    if (!chore) throw new Error('Chore not found');
-
-    const isOneOff = chore.interval.type === 'once';
     const choreRef = doc(firestore, 'chores', choreId);
 
-    if (isOneOff) {
-      await updateDoc(choreRef, {
+    const completed = await runTransaction(firestore, async (transaction) => {
+      const chore = choreConverter.fromSnapshot(await transaction.get(choreRef));
+      if (!chore) throw new Error('Chore not found');
+      if (chore.lastCompletion) {
+        throw new ChoreConflictError(await alreadyCompletedMessage(chore.lastCompletion, userId));
+      }
+
+      const now = Timestamp.now();
+      const nextDueAt = nextDueAtAfter(chore, now);
+      const nextAssignee = await getRotationHandoff(chore, nextDueAt, 'completion');
+
+      const entryRef = doc(completionsCollection(choreId));
+      const entry: CompletionLogEntry = {
+        id: entryRef.id,
+        choreId,
+        householdId: chore.householdId,
+        kind: 'completion',
+        completedAt: now,
+        completedBy: userId,
+        previousDueAt: chore.dueAt,
+        nextDueAt,
+        rotatedFrom: nextAssignee ? chore.assignedTo : undefined,
+      };
+
+      const updates: Record<string, unknown> = {
         lastCompletion: {
-          completedAt: Timestamp.now(),
+          completedAt: now,
           completedBy: userId,
           previousDueAt: chore.dueAt,
         },
+        dueAt: nextDueAt,
         isOverdue: false,
-        updatedAt: Timestamp.now(),
+        snoozedFrom: deleteField(),
+        updatedAt: now,
+      };
+      if (nextAssignee) updates.assignedTo = nextAssignee;
+
+      transaction.set(entryRef, completionConverter.toFirestore(entry));
+      transaction.update(choreRef, updates);
+      return chore;
+    });
+
+    if (completed) {
+      await logActivity(completed.householdId, {
+        type: 'choreCompleted',
+        choreId,
+        choreName: completed.name,
       });
-    } else {
-      const now = new Date();
-      const dueDate = chore.dueAt!.toDate();
-      const baseDate = now > dueDate ? now : dueDate;
-      const nextDue = calculateNextDueDate(baseDate, chore.interval);
+    }
+  } catch (error) {
+    console.error('Error completing chore:', error);
+    throw error;
+  }
+}
 
-      await updateDoc(choreRef, {
-        lastCompletion: {
-          completedAt: Timestamp.now(),
-          completedBy: userId,
-          previousDueAt: chore.dueAt,
-        },
-        dueAt: Timestamp.fromDate(nextDue),
+/**
+ * Skip the current occurrence without completing it. The due date advances
+ * as if it were completed now, but nobody is credited: the skip is logged
+ * separately (with an optional reason) and lastCompletion is left alone.
+ * Runs as a transaction so a concurrent skip or completion of the same
+ * occurrence can't advance the chore twice.
+ */
+export async function skipOccurrence(
+  choreId: string,
+  userId: string,
+  reason?: string
+): Promise<void> {
+  try {
+    // Pins the occurrence being skipped; the transaction re-reads the chore
+    const seen = await getChore(choreId);
+    if (!seen) throw new Error('Chore not found');
+    if (seen.interval.type === 'once') throw new Error('One-off chores cannot be skipped');
+    if (seen.lastCompletion) throw new Error('Chore is already completed');
+
+    const choreRef = doc(firestore, 'chores', choreId);
+
+    const skipped = await runTransaction(firestore, async (transaction) => {
+      const chore = choreConverter.fromSnapshot(await transaction.get(choreRef));
+      if (!chore) throw new Error('Chore not found');
+      if (chore.lastCompletion) {
+        throw new ChoreConflictError(await alreadyCompletedMessage(chore.lastCompletion, userId));
+      }
+      // Someone else skipped or snoozed it since it was read
+      if (chore.dueAt?.toMillis() !== seen.dueAt?.toMillis()) {
+        throw new ChoreConflictError('This chore was just changed by someone else. Please try again.');
+      }
+
+      const now = Timestamp.now();
+      const nextDueAt = nextDueAtAfter(chore, now);
+      const nextAssignee = await getRotationHandoff(chore, nextDueAt, 'skip');
+
+      const entryRef = doc(completionsCollection(choreId));
+      const entry: CompletionLogEntry = {
+        id: entryRef.id,
+        choreId,
+        householdId: chore.householdId,
+        kind: 'skip',
+        completedAt: now,
+        completedBy: userId,
+        previousDueAt: chore.dueAt,
+        nextDueAt,
+        reason: reason?.trim() || undefined,
+        rotatedFrom: nextAssignee ? chore.assignedTo : undefined,
+      };
+
+      const updates: Record<string, unknown> = {
+        dueAt: nextDueAt,
         isOverdue: false,
-        updatedAt: Timestamp.now(),
+        snoozedFrom: deleteField(),
+        updatedAt: now,
+      };
+      if (nextAssignee) updates.assignedTo = nextAssignee;
+
+      transaction.set(entryRef, completionConverter.toFirestore(entry));
+      transaction.update(choreRef, updates);
+      return { chore, entry };
+    });
+
+    if (skipped) {
+      await logActivity(skipped.chore.householdId, {
+        type: 'choreSkipped',
+        choreId,
+        choreName: skipped.chore.name,
+        reason: skipped.entry.reason,
       });
     }
   } catch (error) {
-    console.error('Error completing chore:', error);
+    console.error('Error skipping chore occurrence:', error);
     throw error;
   }
 }
 
-export async function undoCompletion(choreId: string): Promise<void> {
+/**
+ * Push the current occurrence back to `until` without touching the schedule.
+ * `until` must be later than the chore is currently due; a snooze never
+ * brings a chore forward. The originally scheduled date is kept in
+ * snoozedFrom (re-snoozing keeps the first one) so fixed schedules resume
+ * from it after completion.
+ */
+export async function snoozeChore(choreId: string, until: Date): Promise<void> {
   try {
+    if (until <= new Date()) throw new Error('Snooze time must be in the future');
+
     const chore = await getChore(choreId);
     if (!chore) throw new Error('Chore not found');
-    if (!chore.lastCompletion) throw new Error('No completion to undo');
-
-    const restoredDueAt = chore.lastCompletion.previousDueAt;
-    const nowOverdue = restoredDueAt
-      ? restoredDueAt.toDate() < new Date()
-      : false;
+    if (chore.lastCompletion) throw new Error('Chore is already completed');
+    const dueDate = getDueDate(chore);
+    if (dueDate && until <= dueDate) {
+      throw new Error('Snooze time must be later than the current due date');
+    }
 
-    await updateDoc(doc(firestore, 'chores', choreId), {
-      lastCompletion: null,
-      dueAt: restoredDueAt,
-      isOverdue: nowOverdue,
+    const updates: Record<string, unknown> = {
+      dueAt: Timestamp.fromDate(until),
+      isOverdue: false,
       updatedAt: Timestamp.now(),
+    };
+    const snoozedFrom = chore.snoozedFrom ?? chore.dueAt;
+    if (snoozedFrom) updates.snoozedFrom = snoozedFrom;
+
+    await updateDoc(doc(firestore, 'chores', choreId), updates);
+  } catch (error) {
+    console.error('Error snoozing chore:', error);
+    throw error;
+  }
+}
+
+/**
+ * Undo the most recent completion by popping the latest log entry.
+ * Chores completed before the log existed fall back to `lastCompletion`.
+ * The exact pre-completion dueAt is restored in both anchor modes, so undo
+ * never re-anchors a fixed schedule on the current time. Runs as a
+ * transaction so a concurrent undo or re-completion isn't clobbered.
+ */
+export async function undoCompletion(choreId: string): Promise<void> {
+  try {
+    const choreRef = doc(firestore, 'chores', choreId);
+
+    // Queries can't run inside a transaction; the entry is re-read below
+    const latestSnap = await getDocs(
+      query(completionsCollection(choreId), orderBy('completedAt', 'desc'), limit(1)),
+    );
+    const latestRef = latestSnap.docs[0]?.ref;
+
+    const undone = await runTransaction(firestore, async (transaction) => {
+      const chore = choreConverter.fromSnapshot(await transaction.get(choreRef));
+      if (!chore) throw new Error('Chore not found');
+      if (!chore.lastCompletion) {
+        throw new ChoreConflictError('This completion was already undone');
+      }
+
+      const latest = latestRef
+        ? completionConverter.fromSnapshot(await transaction.get(latestRef))
+        : null;
+      // Someone else undid or re-completed the chore since the log was read
+      if (
+        latestRef &&
+        (!latest ||
+          latest.completedAt.toMillis() !== chore.lastCompletion.completedAt.toMillis())
+      ) {
+        throw new ChoreConflictError('This chore was just changed by someone else. Please try again.');
+      }
+
+      const restoredDueAt = latest
+        ? latest.previousDueAt
+        : chore.lastCompletion.previousDueAt;
+      const nowOverdue = restoredDueAt
+        ? restoredDueAt.toDate() < new Date()
+        : false;
+
+      const updates: Record<string, unknown> = {
+        lastCompletion: deleteField(),
+        dueAt: restoredDueAt,
+        isOverdue: nowOverdue,
+        updatedAt: Timestamp.now(),
+      };
+      // Hand the turn back if the completion rotated the assignee
+      if (latest?.rotatedFrom) updates.assignedTo = latest.rotatedFrom;
+
+      if (latestRef) transaction.delete(latestRef);
+      transaction.update(choreRef, updates);
+      return chore;
     });
+
+    if (undone) {
+      await logActivity(undone.householdId, {
+        type: 'completionUndone',
+        choreId,
+        choreName: undone.name,
+      });
+    }
   } catch (error) {
     console.error('Error undoing completion:', error);
     throw error;
@@ -22,6 +22,7 @@ import {
   HouseholdCreateInput,
   HouseholdUpdateInput,
 } from '../types/household';
+import { deleteChoreCompletions } from './chore-service';
 import { createDefaultRooms } from './room-service';
 import {
   createHouseholdMember,
@@ -33,6 +34,9 @@ export {
   getHouseholdMember,
   getHouseholdMembers,
   removeHouseholdMember,
+  transferOwnership,
+  updateMemberRole,
+  watchHouseholdMembers,
 } from './membership-service';
 
 /**
@@ -167,12 +171,19 @@ export async function deleteHousehold(
     for (const inviteDoc of invitesSnap.docs) {
       await deleteDoc(inviteDoc.ref);
     }
+    const joinCodesSnap = await getDocs(
+      query(collection(firestore, 'joinCodes'), where('householdId', '==', householdId)),
+    );
+    for (const joinCodeDoc of joinCodesSnap.docs) {
+      await deleteDoc(joinCodeDoc.ref);
+    }
 
     // Delete chores (while owner's membership still exists for security rules)
     const choresSnap = await getDocs(
       query(collection(firestore, 'chores'), where('householdId', '==', householdId)),
     );
     for (const choreDoc of choresSnap.docs) {
+      await deleteChoreCompletions(choreDoc.id);
       await deleteDoc(choreDoc.ref);
     }
 
@@ -184,6 +195,14 @@ export async function deleteHousehold(
       await deleteDoc(roomDoc.ref);
     }
 
+    // Delete the activity feed (while the household exists for security rules)
+    const activitySnap = await getDocs(
+      collection(firestore, 'households', householdId, 'activity'),
+    );
+    for (const activityDoc of activitySnap.docs) {
+      await deleteDoc(activityDoc.ref);
+    }
+
     // Delete all household members, but delete the owner's membership last
     const members = await getHouseholdMembers(householdId);
     const otherMembers = members.filter((m) => m.userId !== requestingUserId);
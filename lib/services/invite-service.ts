@@ -1,8 +1,11 @@
 /**
  * Invitation service
- * Handles household invitation CRUD operations
+ * Handles household invitation CRUD operations: email invites and
+ * shareable join codes
  */
 
+import { getRandomBytes } from 'expo-crypto';
+import * as Linking from 'expo-linking';
 import {
   collection,
   deleteDoc,
@@ -10,21 +13,28 @@ import {
   getDoc,
   getDocs,
   query,
+  runTransaction,
   setDoc,
   Timestamp,
   updateDoc,
   where,
 } from '@react-native-firebase/firestore';
 import { firestore } from '../firebase/config';
-import { inviteConverter } from '../firebase/converters';
+import { householdMemberConverter, inviteConverter, joinCodeConverter } from '../firebase/converters';
+import { HouseholdMember } from '../types/household';
 import {
   HouseholdInvite,
   InviteCreateInput,
   InviteWithHouseholdInfo,
+  JoinCode,
+  JoinCodeCreateInput,
 } from '../types/invite';
+import { logActivity } from './activity-service';
 import { getHousehold, getHouseholdMember, createHouseholdMember } from './household-service';
 import { getUserProfile } from './user-service';
 
+// ── Email invites ──
+
 /**
  * Create a new household invitation
  * Note: This should only be called when online (per PROJECT_CHARTER)
@@ -74,6 +84,11 @@ export async function createInvite(input: InviteCreateInput): Promise<HouseholdI
     };
 
     await setDoc(inviteRef, inviteConverter.toFirestore(invite));
+    await logActivity(invite.householdId, {
+      type: 'inviteSent',
+      invitedEmail: invite.invitedEmail,
+      role: invite.role,
+    });
 
     return invite;
   } catch (error) {
@@ -178,9 +193,11 @@ export async function acceptInvite(inviteId: string, userId: string): Promise<vo
       householdId: invite.householdId,
       userId: userId,
       role: invite.role,
+      inviteId,
     });
 
     await updateDoc(inviteRef, { status: 'accepted' });
+    await logActivity(invite.householdId, { type: 'memberJoined', userId, role: invite.role });
   } catch (error) {
     console.error('Error accepting invite:', error);
     throw error;
@@ -238,3 +255,215 @@ export async function deleteInvite(inviteId: string, userId: string): Promise<vo
     throw error;
   }
 }
+
+/**
+ * Delete every pending invitation a user has sent
+ * Used during account deletion so invites don't outlive their sender
+ */
+export async function deletePendingInvitesSentBy(userId: string): Promise<void> {
+  try {
+    const snap = await getDocs(
+      query(
+        collection(firestore, 'invites'),
+        where('invitedBy', '==', userId),
+        where('status', '==', 'pending'),
+      ),
+    );
+
+    for (const inviteDoc of snap.docs) {
+      await deleteDoc(inviteDoc.ref);
+    }
+  } catch (error) {
+    console.error('Error deleting sent invites:', error);
+    throw new Error('Failed to delete invitations');
+  }
+}
+
+// ── Join codes ──
+
+/** Unambiguous characters only (no 0/O, 1/I); 32 symbols so bytes map evenly. */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 3;
+
+function generateJoinCode(): string {
+  return Array.from(getRandomBytes(JOIN_CODE_LENGTH))
+    .map((byte) => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length])
+    .join('');
+}
+
+/**
+ * Normalize a typed or pasted code: uppercase, separators and spaces removed.
+ */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Deep link that opens the join screen for a code (app/join/[code].tsx)
+ */
+export function getJoinLink(code: string): string {
+  return Linking.createURL(`join/${code}`);
+}
+
+/**
+ * Why a join code can't be redeemed right now, or null if it can.
+ */
+export function getJoinCodeProblem(joinCode: JoinCode, now: Date = new Date()): string | null {
+  if (joinCode.expiresAt.toMillis() <= now.getTime()) {
+    return 'This code has expired';
+  }
+  if (joinCode.maxUses !== null && joinCode.useCount >= joinCode.maxUses) {
+    return 'This code has already been used';
+  }
+  return null;
+}
+
+/**
+ * Create a shareable join code for a household (admin only)
+ * Note: This should only be called when online (per PROJECT_CHARTER)
+ */
+export async function createJoinCode(input: JoinCodeCreateInput): Promise<JoinCode> {
+  try {
+    const membership = await getHouseholdMember(input.householdId, input.createdBy);
+    if (!membership || membership.role !== 'admin') {
+      throw new Error('Only household admins can create join codes');
+    }
+
+    const household = await getHousehold(input.householdId);
+    if (!household) {
+      throw new Error('Household not found');
+    }
+
+    const now = Timestamp.now();
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const codeRef = doc(firestore, 'joinCodes', generateJoinCode());
+      if (joinCodeConverter.fromSnapshot(await getDoc(codeRef))) continue;
+
+      const joinCode: JoinCode = {
+        code: codeRef.id,
+        householdId: input.householdId,
+        householdName: household.name,
+        createdBy: input.createdBy,
+        role: input.role,
+        useCount: 0,
+        maxUses: input.maxUses,
+        createdAt: now,
+        expiresAt: Timestamp.fromMillis(now.toMillis() + input.expiresInDays * 24 * 60 * 60 * 1000),
+      };
+
+      await setDoc(codeRef, joinCodeConverter.toFirestore(joinCode));
+
+      return joinCode;
+    }
+
+    throw new Error('Failed to create join code');
+  } catch (error) {
+    console.error('Error creating join code:', error);
+    throw error;
+  }
+}
+
+/**
+ * Look up a join code; null if it doesn't exist (or was revoked)
+ */
+export async function getJoinCode(code: string): Promise<JoinCode | null> {
+  try {
+    const snap = await getDoc(doc(firestore, 'joinCodes', normalizeJoinCode(code)));
+    return joinCodeConverter.fromSnapshot(snap);
+  } catch (error) {
+    console.error('Error getting join code:', error);
+    throw new Error('Failed to load join code');
+  }
+}
+
+/**
+ * Get all join codes for a household, including used-up and expired ones
+ */
+export async function getJoinCodesForHousehold(householdId: string): Promise<JoinCode[]> {
+  try {
+    const snap = await getDocs(
+      query(collection(firestore, 'joinCodes'), where('householdId', '==', householdId)),
+    );
+
+    return snap.docs
+      .map((d: any) => joinCodeConverter.fromSnapshot(d))
+      .filter((c: JoinCode | null): c is JoinCode => c !== null);
+  } catch (error) {
+    console.error('Error getting household join codes:', error);
+    throw new Error('Failed to load join codes');
+  }
+}
+
+/**
+ * Redeem a join code: adds the user to the household with the code's role.
+ * The membership and the use count are written in one transaction so
+ * max uses holds under concurrent redemptions. Returns the household ID.
+ * Note: This should only be called when online (per PROJECT_CHARTER)
+ */
+export async function redeemJoinCode(code: string, userId: string): Promise<string> {
+  try {
+    const codeRef = doc(firestore, 'joinCodes', normalizeJoinCode(code));
+
+    const joined = await runTransaction(firestore, async (transaction) => {
+      const joinCode = joinCodeConverter.fromSnapshot(await transaction.get(codeRef));
+      if (!joinCode) {
+        throw new Error('This code is not valid');
+      }
+
+      const problem = getJoinCodeProblem(joinCode);
+      if (problem) {
+        throw new Error(problem);
+      }
+
+      const memberId = `${joinCode.householdId}_${userId}`;
+      const memberRef = doc(firestore, 'householdMembers', memberId);
+      if (householdMemberConverter.fromSnapshot(await transaction.get(memberRef))) {
+        throw new Error('You are already a member of this household');
+      }
+
+      const member: HouseholdMember = {
+        id: memberId,
+        householdId: joinCode.householdId,
+        userId,
+        role: joinCode.role,
+        joinedAt: Timestamp.now(),
+        joinCode: joinCode.code,
+      };
+
+      transaction.set(memberRef, householdMemberConverter.toFirestore(member));
+      transaction.update(codeRef, { useCount: joinCode.useCount + 1 });
+
+      return member;
+    });
+
+    await logActivity(joined.householdId, { type: 'memberJoined', userId, role: joined.role });
+    return joined.householdId;
+  } catch (error) {
+    console.error('Error redeeming join code:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke a join code (admin only); links already shared stop working
+ */
+export async function revokeJoinCode(code: string, userId: string): Promise<void> {
+  try {
+    const joinCode = await getJoinCode(code);
+    if (!joinCode) {
+      throw new Error('Join code not found');
+    }
+
+    const membership = await getHouseholdMember(joinCode.householdId, userId);
+    if (!membership || membership.role !== 'admin') {
+      throw new Error('Only household admins can revoke join codes');
+    }
+
+    await deleteDoc(doc(firestore, 'joinCodes', joinCode.code));
+  } catch (error) {
+    console.error('Error revoking join code:', error);
+    throw error;
+  }
+}
@@ -5,21 +5,26 @@
 
 import {
   collection,
-  deleteDoc,
   doc,
   getDoc,
   getDocs,
+  onSnapshot,
   query,
   setDoc,
   Timestamp,
+  updateDoc,
   where,
+  writeBatch,
 } from '@react-native-firebase/firestore';
 import { firestore } from '../firebase/config';
-import { householdMemberConverter } from '../firebase/converters';
+import { householdConverter, householdMemberConverter } from '../firebase/converters';
 import {
   HouseholdMember,
   HouseholdMemberCreateInput,
+  HouseholdRole,
 } from '../types/household';
+import { batchActivity, logActivity } from './activity-service';
+import { removeUserFromRotations } from './chore-service';
 
 /**
  * Create a household membership
@@ -73,23 +78,46 @@ export async function getHouseholdMember(
  */
 export async function getHouseholdMembers(householdId: string): Promise<HouseholdMember[]> {
   try {
-    const snap = await getDocs(
-      query(collection(firestore, 'householdMembers'), where('householdId', '==', householdId)),
-    );
-
-    return snap.docs.map((d: any) => {
-      const data = d.data();
-      return {
-        id: d.id,
-        ...data,
-      } as HouseholdMember;
-    });
+    const snap = await getDocs(householdMembersQuery(householdId));
+    return membersFromSnapshot(snap);
   } catch (error) {
     console.error('Error getting household members:', error);
     throw new Error('Failed to load household members');
   }
 }
 
+/**
+ * Listen to a household's members
+ */
+export function watchHouseholdMembers(
+  householdId: string,
+  onChange: (members: HouseholdMember[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    householdMembersQuery(householdId),
+    (snap) => onChange(membersFromSnapshot(snap)),
+    (error) => {
+      console.error('Error watching household members:', error);
+      onError(error);
+    }
+  );
+}
+
+function householdMembersQuery(householdId: string) {
+  return query(collection(firestore, 'householdMembers'), where('householdId', '==', householdId));
+}
+
+function membersFromSnapshot(snap: { docs: any[] }): HouseholdMember[] {
+  return snap.docs.map((d: any) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      ...data,
+    } as HouseholdMember;
+  });
+}
+
 /**
  * Remove a member from a household
  */
@@ -122,10 +150,99 @@ export async function removeHouseholdMember(
       }
     }
 
+    // Before the membership goes: a member leaving loses write access to chores
+    await removeUserFromRotations(householdId, userId);
+
+    // Recorded with the deletion, while a member leaving can still write to
+    // the feed, and only if the deletion goes through
     const memberId = `${householdId}_${userId}`;
-    await deleteDoc(doc(firestore, 'householdMembers', memberId));
+    const batch = writeBatch(firestore);
+    batch.delete(doc(firestore, 'householdMembers', memberId));
+    batchActivity(batch, householdId, {
+      type: isSelfRemoval ? 'memberLeft' : 'memberRemoved',
+      userId,
+    });
+    await batch.commit();
   } catch (error) {
     console.error('Error removing household member:', error);
     throw error;
   }
 }
+
+/**
+ * Change a member's role (admins only)
+ * The household owner always stays an admin, so a household never runs out
+ * of admins.
+ */
+export async function updateMemberRole(
+  householdId: string,
+  userId: string,
+  role: HouseholdRole,
+  requestingUserId: string
+): Promise<void> {
+  try {
+    const requestingMember = await getHouseholdMember(householdId, requestingUserId);
+    if (!requestingMember || requestingMember.role !== 'admin') {
+      throw new Error('Only admins can change member roles');
+    }
+
+    const member = await getHouseholdMember(householdId, userId);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    const household = householdConverter.fromSnapshot(
+      await getDoc(doc(firestore, 'households', householdId))
+    );
+    if (role !== 'admin' && household?.ownerId === userId) {
+      throw new Error('The household owner must remain an admin. Transfer ownership first.');
+    }
+
+    await updateDoc(doc(firestore, 'householdMembers', member.id), { role });
+    if (role !== member.role) {
+      await logActivity(householdId, { type: 'memberRoleChanged', userId, role });
+    }
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw error;
+  }
+}
+
+/**
+ * Make another member the household owner (owner only)
+ * The new owner is promoted to admin in the same batch; the previous owner
+ * stays an admin.
+ */
+export async function transferOwnership(
+  householdId: string,
+  newOwnerId: string,
+  requestingUserId: string
+): Promise<void> {
+  try {
+    const householdRef = doc(firestore, 'households', householdId);
+    const household = householdConverter.fromSnapshot(await getDoc(householdRef));
+    if (!household || household.ownerId !== requestingUserId) {
+      throw new Error('Only the household owner can transfer ownership');
+    }
+
+    if (newOwnerId === requestingUserId) {
+      throw new Error('You already own this household');
+    }
+
+    const newOwner = await getHouseholdMember(householdId, newOwnerId);
+    if (!newOwner) {
+      throw new Error('The new owner must be a member of this household');
+    }
+
+    const batch = writeBatch(firestore);
+    batch.update(householdRef, { ownerId: newOwnerId, updatedAt: Timestamp.now() });
+    if (newOwner.role !== 'admin') {
+      batch.update(doc(firestore, 'householdMembers', newOwner.id), { role: 'admin' });
+    }
+    await batch.commit();
+    await logActivity(householdId, { type: 'ownershipTransferred', userId: newOwnerId });
+  } catch (error) {
+    console.error('Error transferring household ownership:', error);
+    throw error;
+  }
+}
@@ -1,33 +1,75 @@
 /**
  * Notification Service
- * Local notification scheduling for daily reminders and chore due date alerts.
- * Uses expo-notifications for all scheduling (no FCM required for v1).
+ * Local notification scheduling for daily digests, chore due date alerts
+ * and overdue follow-ups.
+ * Uses expo-notifications for all scheduling; pushes about other members'
+ * activity come from Cloud Functions (see push-service).
+ * Each sync diffs against what is already scheduled and stays under the iOS
+ * pending notification cap.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { Chore } from '../types/chore';
-
-export interface NotificationSettings {
-  enabled: boolean;
-  dailyReminderEnabled: boolean;
-  dailyReminderTime: string; // "HH:MM" format
-  choreAlertsEnabled: boolean;
-}
+import { HouseholdNotificationSettings, NotificationSettings } from '../types/user';
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  formatOffsetDuration,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  withTimeOfDay,
+} from '../utils/due-time';
+import { matchesChoreFilter } from './chore-service';
 
 export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
   enabled: true,
   dailyReminderEnabled: true,
   dailyReminderTime: '09:00',
   choreAlertsEnabled: true,
+  overdueRemindersEnabled: true,
+  overdueDailyDays: 3,
+  overdueRepeatDays: 3,
+  choreFilter: 'everyone',
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+  householdOverrides: {},
+};
+
+export const DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS: HouseholdNotificationSettings = {
+  enabled: true,
+  onlyAssignedToMe: false,
+  dailyReminderEnabled: true,
+  choreAlertsEnabled: true,
+  overdueRemindersEnabled: true,
 };
 
 /** Maximum number of days in the future to schedule chore notifications. */
 const SCHEDULE_HORIZON_DAYS = 14;
 
-/** Hour at which per-chore due date alerts fire (8:00 AM). */
+/** Hour at which due date alerts fire for chores with no due time (8:00 AM). */
 const CHORE_ALERT_HOUR = 8;
 
+/** Category of chore alerts and overdue follow-ups, which carry the actions below. */
+export const CHORE_NOTIFICATION_CATEGORY = 'chore';
+
+/** Action buttons on chore notifications. */
+export const CHORE_ACTION_COMPLETE = 'complete';
+export const CHORE_ACTION_SNOOZE = 'snooze';
+
+/** How many of the user's own chores the daily reminder names. */
+const DIGEST_CHORE_NAMES = 3;
+
+/** How long "Snooze 1h" puts a chore notification off for. */
+const NOTIFICATION_SNOOZE_SECONDS = 60 * 60;
+
+/** What a chore notification carries, for its actions and deep link. */
+export interface ChoreNotificationData {
+  choreId: string;
+  householdId: string;
+}
+
 // ── Permission Handling ──
 
 /**
@@ -64,103 +106,557 @@ export function configureNotificationHandler() {
   });
 }
 
-// ── Scheduling ──
+// ── Actions ──
 
 /**
- * Master re-sync: cancel all pending notifications, then re-schedule
- * based on current chore data and user settings.
+ * Register the "Done" and "Snooze 1h" buttons on chore notifications. Both
+ * bring the app to the foreground: their responses are handled in the root
+ * layout, and no background task is registered to handle them otherwise.
  */
-export async function scheduleAllNotifications(
-  chores: Chore[],
-  settings: NotificationSettings
-): Promise<void> {
-  await cancelAllNotifications();
+export async function registerNotificationCategories(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(CHORE_NOTIFICATION_CATEGORY, [
+      {
+        identifier: CHORE_ACTION_COMPLETE,
+        buttonTitle: 'Done',
+        options: { opensAppToForeground: true },
+      },
+      {
+        identifier: CHORE_ACTION_SNOOZE,
+        buttonTitle: 'Snooze 1h',
+        options: { opensAppToForeground: true },
+      },
+    ]);
+  } catch (error) {
+    console.error('Error registering notification categories:', error);
+  }
+}
+
+/** The chore a notification is about, if it is a chore alert or follow-up. */
+export function getChoreNotificationData(
+  notification: Notifications.Notification
+): ChoreNotificationData | null {
+  const { choreId, householdId } = notification.request.content.data ?? {};
+  if (typeof choreId !== 'string' || typeof householdId !== 'string') return null;
+  return { choreId, householdId };
+}
+
+/**
+ * Show a notification again in an hour (or once quiet hours end). The
+ * chore's own schedule is left alone.
+ */
+export async function snoozeNotification(
+  notification: Notifications.Notification,
+  settings: QuietHours = DEFAULT_NOTIFICATION_SETTINGS
+): Promise<string> {
+  const { title, body, data, categoryIdentifier } = notification.request.content;
+  const now = Date.now();
+  const until = shiftOutOfQuietHours(new Date(now + NOTIFICATION_SNOOZE_SECONDS * 1000), settings);
+  return Notifications.scheduleNotificationAsync({
+    // Snoozing the same notification again replaces the earlier snooze
+    identifier: `${SNOOZE_ID_PREFIX}${notification.request.identifier}`,
+    content: {
+      title,
+      body,
+      data,
+      categoryIdentifier: categoryIdentifier ?? undefined,
+      sound: 'default',
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+      seconds: Math.round((until.getTime() - now) / 1000),
+      channelId: Platform.OS === 'android' ? 'default' : undefined,
+    },
+  });
+}
+
+// ── Household Overrides ──
+
+type HouseholdAlertType = 'dailyReminderEnabled' | 'choreAlertsEnabled' | 'overdueRemindersEnabled';
+
+/**
+ * The user's settings for one household: its override, or the defaults.
+ */
+export function getHouseholdNotificationSettings(
+  settings: Pick<NotificationSettings, 'householdOverrides'>,
+  householdId: string
+): HouseholdNotificationSettings {
+  return { ...DEFAULT_HOUSEHOLD_NOTIFICATION_SETTINGS, ...settings.householdOverrides[householdId] };
+}
+
+/**
+ * Whether the chore's household override lets this type of notification
+ * through for the user.
+ */
+function householdWants(
+  chore: Chore,
+  type: HouseholdAlertType,
+  settings: NotificationSettings,
+  userId?: string
+): boolean {
+  const household = getHouseholdNotificationSettings(settings, chore.householdId);
+  if (!household.enabled || !household[type]) return false;
+  return !household.onlyAssignedToMe || (!!userId && chore.assignedTo === userId);
+}
+
+// ── Quiet Hours ──
+
+type QuietHours = Pick<NotificationSettings, 'quietHoursEnabled' | 'quietHoursStart' | 'quietHoursEnd'>;
+
+function minutesOfDay(time: string): number {
+  const { hour, minute } = parseTimeOfDay(time);
+  return hour * 60 + minute;
+}
+
+/**
+ * `date`, or the end of quiet hours if it falls inside them. The window
+ * may span midnight (e.g. 22:00–07:00).
+ */
+export function shiftOutOfQuietHours(date: Date, settings: QuietHours): Date {
+  const { quietHoursEnabled, quietHoursStart, quietHoursEnd } = settings;
+  if (!quietHoursEnabled || quietHoursStart === quietHoursEnd) return date;
+
+  const start = minutesOfDay(quietHoursStart);
+  const end = minutesOfDay(quietHoursEnd);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const quiet = start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+  if (!quiet) return date;
+
+  const shifted = withTimeOfDay(date, quietHoursEnd);
+  if (shifted <= date) shifted.setDate(shifted.getDate() + 1);
+  return shifted;
+}
 
-  if (!settings.enabled) return;
+// ── Planning ──
+
+/**
+ * A notification the current chores and settings call for. Identifiers are
+ * derived from what the notification is about (e.g. `chore:{id}:due:0`), so
+ * re-planning yields the same identifier for the same alert.
+ */
+export interface PlannedNotification {
+  identifier: string;
+  /** The chore it's about; absent for daily digests */
+  choreId?: string;
+  /** Assigned to the user, or a digest of their day: kept first under the cap */
+  mine: boolean;
+  date: Date;
+  content: Notifications.NotificationContentInput;
+}
+
+function choreNotificationContent(
+  chore: Chore,
+  title: string,
+  body: string
+): Notifications.NotificationContentInput {
+  return {
+    title,
+    body,
+    sound: 'default',
+    data: { choreId: chore.id, householdId: chore.householdId },
+    categoryIdentifier: CHORE_NOTIFICATION_CATEGORY,
+  };
+}
+
+/**
+ * Every notification the chores and settings call for between now and the
+ * scheduling horizon, soonest first. The chore filter and household
+ * overrides decide which chores count, and quiet hours hold back anything
+ * that would fire during them.
+ */
+export function planNotifications(
+  chores: Chore[],
+  settings: NotificationSettings,
+  userId?: string
+): PlannedNotification[] {
+  if (!settings.enabled) return [];
+  chores = chores.filter((chore) => matchesChoreFilter(chore, settings.choreFilter, userId));
 
-  const promises: Promise<string>[] = [];
+  const now = new Date();
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + SCHEDULE_HORIZON_DAYS);
+  const wants = (chore: Chore, type: HouseholdAlertType) =>
+    householdWants(chore, type, settings, userId);
+  const planned: PlannedNotification[] = [];
 
   if (settings.dailyReminderEnabled) {
-    promises.push(scheduleDailyReminder(settings.dailyReminderTime));
+    const digestChores = chores.filter((chore) => wants(chore, 'dailyReminderEnabled'));
+    planned.push(...planDailyDigests(digestChores, settings.dailyReminderTime, userId));
   }
 
   if (settings.choreAlertsEnabled) {
-    const now = new Date();
-    const horizon = new Date();
-    horizon.setDate(horizon.getDate() + SCHEDULE_HORIZON_DAYS);
-
     for (const chore of chores) {
       // Skip completed chores and chores with no due date
       if (chore.lastCompletion) continue;
       if (!chore.dueAt) continue;
 
-      const dueDate = chore.dueAt.toDate();
-      // Only schedule if due date is in the future and within horizon
-      if (dueDate > now && dueDate <= horizon) {
-        promises.push(scheduleChoreNotification(chore));
+      if (wants(chore, 'choreAlertsEnabled')) {
+        for (const offset of chore.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS) {
+          const alert = planChoreNotification(chore, offset, userId);
+          // Only schedule reminders still ahead and within the horizon
+          if (alert && alert.date > now && alert.date <= horizon) {
+            planned.push(alert);
+          }
+        }
+      }
+
+      if (settings.overdueRemindersEnabled && wants(chore, 'overdueRemindersEnabled')) {
+        for (const followUp of getOverdueFollowUps(chore, settings, horizon)) {
+          if (followUp.date > now) {
+            planned.push(planOverdueNotification(chore, followUp, userId));
+          }
+        }
       }
     }
   }
 
-  await Promise.all(promises);
+  return planned
+    .map((notification) => ({
+      ...notification,
+      date: shiftOutOfQuietHours(notification.date, settings),
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
 }
 
 /**
- * Schedule a repeating daily reminder at the user-chosen time.
+ * The notifications to keep when there are more than `limit`: the user's
+ * own first, then everyone else's, soonest first within each.
  */
-export async function scheduleDailyReminder(time: string): Promise<string> {
-  const [hourStr, minuteStr] = time.split(':');
-  const hour = parseInt(hourStr, 10);
-  const minute = parseInt(minuteStr, 10);
+export function prioritizeNotifications(
+  planned: PlannedNotification[],
+  limit: number
+): PlannedNotification[] {
+  if (planned.length <= limit) return planned;
+  return [...planned]
+    .sort((a, b) => Number(b.mine) - Number(a.mine) || a.date.getTime() - b.date.getTime())
+    .slice(0, limit);
+}
 
-  return Notifications.scheduleNotificationAsync({
-    content: {
-      title: '🏠 Daily Chore Reminder',
-      body: 'Check your chores for today!',
-      sound: 'default',
-    },
-    trigger: {
-      type: Notifications.SchedulableTriggerInputTypes.DAILY,
-      hour,
-      minute,
-      channelId: Platform.OS === 'android' ? 'default' : undefined,
-    },
-  });
+export interface DailyDigest {
+  overdue: number;
+  dueToday: number;
+  /** Names of the overdue and due-today chores assigned to the user, most overdue first */
+  mine: string[];
+}
+
+/**
+ * What the daily reminder on `day` says, judged from the chores as they are
+ * now: open chores due before that day count as overdue, ones due that day as
+ * due today. Returns null when there is nothing to do that day.
+ */
+export function buildDailyDigest(chores: Chore[], day: Date, userId?: string): DailyDigest | null {
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  const todo = chores
+    .filter((chore) => !chore.lastCompletion && chore.dueAt && chore.dueAt.toDate() < dayEnd)
+    .sort((a, b) => a.dueAt!.toMillis() - b.dueAt!.toMillis());
+  if (todo.length === 0) return null;
+
+  const overdue = todo.filter((chore) => chore.dueAt!.toDate() < dayStart).length;
+  return {
+    overdue,
+    dueToday: todo.length - overdue,
+    mine: todo.filter((chore) => userId && chore.assignedTo === userId).map((chore) => chore.name),
+  };
+}
+
+export function formatDailyDigest(digest: DailyDigest): string {
+  const counts = [
+    digest.overdue > 0 && `${digest.overdue} overdue`,
+    digest.dueToday > 0 && `${digest.dueToday} due today`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+  if (digest.mine.length === 0) return counts;
+
+  const names = digest.mine.slice(0, DIGEST_CHORE_NAMES).join(', ');
+  const more = digest.mine.length - DIGEST_CHORE_NAMES;
+  return `${counts}\nYours: ${names}${more > 0 ? ` and ${more} more` : ''}`;
+}
+
+function toDateKey(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
 }
 
 /**
- * Schedule a one-time notification for a chore at 8:00 AM on its due date.
+ * The daily reminder at the user-chosen time on each day of the horizon that
+ * has something to do, summarizing that day's chores.
  */
-export async function scheduleChoreNotification(chore: Chore): Promise<string> {
-  if (!chore.dueAt) return '';
+export function planDailyDigests(
+  chores: Chore[],
+  time: string,
+  userId?: string
+): PlannedNotification[] {
+  const now = new Date();
+  const planned: PlannedNotification[] = [];
+
+  for (let days = 0; days <= SCHEDULE_HORIZON_DAYS; days++) {
+    const date = new Date(now);
+    date.setDate(date.getDate() + days);
+    const triggerDate = withTimeOfDay(date, time);
+    if (triggerDate <= now) continue;
+
+    const digest = buildDailyDigest(chores, triggerDate, userId);
+    if (!digest) continue;
+
+    planned.push({
+      identifier: `digest:${toDateKey(triggerDate)}`,
+      mine: true,
+      date: triggerDate,
+      content: {
+        title: '🏠 Daily Chore Reminder',
+        body: formatDailyDigest(digest),
+        sound: 'default',
+      },
+    });
+  }
+
+  return planned;
+}
+
+/**
+ * When a chore's reminder `offsetMinutes` before it's due fires. Chores
+ * without a due time count back from 8:00 AM on their due date.
+ */
+export function getChoreReminderDate(chore: Chore, offsetMinutes: number): Date | null {
+  if (!chore.dueAt) return null;
   const dueDate = chore.dueAt.toDate();
-  const triggerDate = new Date(
+  const { hour, minute } = chore.dueTime
+    ? parseTimeOfDay(chore.dueTime)
+    : { hour: CHORE_ALERT_HOUR, minute: 0 };
+  return new Date(
     dueDate.getFullYear(),
     dueDate.getMonth(),
     dueDate.getDate(),
-    CHORE_ALERT_HOUR,
-    0,
+    hour,
+    minute - offsetMinutes,
     0
   );
+}
 
-  // If the trigger time has already passed today, skip
-  if (triggerDate <= new Date()) {
-    return '';
+/**
+ * A one-time reminder for a chore, `offsetMinutes` before it's due (by
+ * default, when it's due).
+ */
+export function planChoreNotification(
+  chore: Chore,
+  offsetMinutes = 0,
+  userId?: string
+): PlannedNotification | null {
+  const date = getChoreReminderDate(chore, offsetMinutes);
+  if (!date) return null;
+
+  const dueLabel = chore.dueTime ? `at ${formatTimeOfDay(chore.dueTime)}` : 'today';
+  const content =
+    offsetMinutes === 0
+      ? choreNotificationContent(chore, '📋 Chore Due Today', `"${chore.name}" is due ${dueLabel}`)
+      : choreNotificationContent(
+          chore,
+          '⏰ Chore Coming Up',
+          `"${chore.name}" is due in ${formatOffsetDuration(offsetMinutes)}`
+        );
+
+  return {
+    identifier: `chore:${chore.id}:due:${offsetMinutes}`,
+    choreId: chore.id,
+    mine: !!userId && chore.assignedTo === userId,
+    date,
+    content,
+  };
+}
+
+export interface OverdueFollowUp {
+  date: Date;
+  daysOverdue: number;
+}
+
+/**
+ * Follow-ups for a chore that stays open past its due date, at the same time
+ * of day as its due alert: daily for `overdueDailyDays`, then every
+ * `overdueRepeatDays`, up to `until`.
+ */
+export function getOverdueFollowUps(
+  chore: Chore,
+  settings: Pick<NotificationSettings, 'overdueDailyDays' | 'overdueRepeatDays'>,
+  until: Date
+): OverdueFollowUp[] {
+  const dueAlert = getChoreReminderDate(chore, 0);
+  if (!dueAlert) return [];
+
+  const { overdueDailyDays, overdueRepeatDays } = settings;
+  const nextDay = (days: number) =>
+    days < overdueDailyDays ? days + 1 : overdueRepeatDays > 0 ? days + overdueRepeatDays : null;
+
+  const followUps: OverdueFollowUp[] = [];
+  for (let days = nextDay(0); days !== null; days = nextDay(days)) {
+    const date = new Date(dueAlert);
+    date.setDate(date.getDate() + days);
+    if (date > until) break;
+    followUps.push({ date, daysOverdue: days });
   }
+  return followUps;
+}
 
-  return Notifications.scheduleNotificationAsync({
-    content: {
-      title: '📋 Chore Due Today',
-      body: `"${chore.name}" is due today`,
-      sound: 'default',
-      data: { choreId: chore.id, householdId: chore.householdId },
-    },
-    trigger: {
-      type: Notifications.SchedulableTriggerInputTypes.DATE,
-      date: triggerDate,
-      channelId: Platform.OS === 'android' ? 'default' : undefined,
-    },
-  });
+/**
+ * A one-time follow-up for a chore that is still open after its due date.
+ */
+export function planOverdueNotification(
+  chore: Chore,
+  followUp: OverdueFollowUp,
+  userId?: string
+): PlannedNotification {
+  const { date, daysOverdue } = followUp;
+  return {
+    identifier: `chore:${chore.id}:overdue:${daysOverdue}`,
+    choreId: chore.id,
+    mine: !!userId && chore.assignedTo === userId,
+    date,
+    content: choreNotificationContent(
+      chore,
+      '⚠️ Chore Overdue',
+      `"${chore.name}" is ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`
+    ),
+  };
+}
+
+// ── Scheduling ──
+
+/** iOS keeps at most 64 pending notifications per app; a few are left for snoozes. */
+export const MAX_SCHEDULED_NOTIFICATIONS = 60;
+
+/** Snoozed notifications aren't part of the plan, so re-syncing leaves them alone. */
+const SNOOZE_ID_PREFIX = 'snooze:';
+
+const SCHEDULED_NOTIFICATIONS_KEY = '@scheduled_notifications';
+
+/**
+ * Notifications scheduled by the last sync, by identifier: the chore each is
+ * about and a fingerprint of when it fires and what it says.
+ */
+type ScheduledNotificationIndex = Record<string, { choreId?: string; fingerprint: string }>;
+
+function fingerprint(notification: PlannedNotification): string {
+  const { title, body } = notification.content;
+  return `${notification.date.getTime()}|${title}|${body}`;
+}
+
+async function loadScheduledIndex(): Promise<ScheduledNotificationIndex> {
+  try {
+    const raw = await AsyncStorage.getItem(SCHEDULED_NOTIFICATIONS_KEY);
+    return raw ? (JSON.parse(raw) as ScheduledNotificationIndex) : {};
+  } catch {
+    // Without the index everything pending is rescheduled once
+    return {};
+  }
+}
+
+async function saveScheduledIndex(index: ScheduledNotificationIndex): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SCHEDULED_NOTIFICATIONS_KEY, JSON.stringify(index));
+  } catch {
+    // Silently fail — the next sync reschedules what it can't account for
+  }
+}
+
+/**
+ * Bring pending notifications in line with `planned`: cancel what is no
+ * longer wanted, schedule what is new or changed, and leave the rest.
+ */
+async function syncScheduledNotifications(planned: PlannedNotification[]): Promise<void> {
+  const wanted = prioritizeNotifications(planned, MAX_SCHEDULED_NOTIFICATIONS);
+  const [pending, index] = await Promise.all([
+    Notifications.getAllScheduledNotificationsAsync(),
+    loadScheduledIndex(),
+  ]);
+  const pendingIds = new Set(pending.map((notification) => notification.identifier));
+  const wantedIds = new Set(wanted.map((notification) => notification.identifier));
+
+  // Includes anything scheduled before identifiers were tracked
+  const toCancel = [...pendingIds].filter(
+    (id) => !wantedIds.has(id) && !id.startsWith(SNOOZE_ID_PREFIX)
+  );
+  // Scheduling over a pending identifier replaces it
+  const toSchedule = wanted.filter(
+    (notification) =>
+      !pendingIds.has(notification.identifier) ||
+      index[notification.identifier]?.fingerprint !== fingerprint(notification)
+  );
+
+  await Promise.all(toCancel.map((id) => Notifications.cancelScheduledNotificationAsync(id)));
+  await Promise.all(
+    toSchedule.map((notification) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: notification.identifier,
+        content: notification.content,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: notification.date,
+          channelId: Platform.OS === 'android' ? 'default' : undefined,
+        },
+      })
+    )
+  );
+
+  const next: ScheduledNotificationIndex = {};
+  for (const notification of wanted) {
+    next[notification.identifier] = {
+      choreId: notification.choreId,
+      fingerprint: fingerprint(notification),
+    };
+  }
+  await saveScheduledIndex(next);
+}
+
+/** Syncs run one at a time so overlapping re-syncs don't interleave */
+let syncQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Master re-sync: bring scheduled notifications in line with the current
+ * chore data and user settings, rescheduling only what changed. `userId`
+ * picks out the user's own chores for the daily reminder and for priority
+ * when there are more notifications than iOS will hold.
+ */
+export function scheduleAllNotifications(
+  chores: Chore[],
+  settings: NotificationSettings,
+  userId?: string
+): Promise<void> {
+  const sync = async () => {
+    if (!settings.enabled) {
+      await cancelAllNotifications();
+      return;
+    }
+    await syncScheduledNotifications(planNotifications(chores, settings, userId));
+  };
+  syncQueue = syncQueue.then(sync, sync);
+  return syncQueue;
+}
+
+/**
+ * Cancel everything scheduled for one chore (due alerts and overdue
+ * follow-ups), e.g. as soon as it is completed.
+ */
+export async function cancelChoreNotifications(choreId: string): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((notification) => notification.content.data?.choreId === choreId)
+      .map((notification) =>
+        Notifications.cancelScheduledNotificationAsync(notification.identifier)
+      )
+  );
+
+  const index = await loadScheduledIndex();
+  for (const id of Object.keys(index)) {
+    if (index[id].choreId === choreId) delete index[id];
+  }
+  await saveScheduledIndex(index);
 }
 
 /**
@@ -168,4 +664,5 @@ export async function scheduleChoreNotification(chore: Chore): Promise<string> {
  */
 export async function cancelAllNotifications(): Promise<void> {
   await Notifications.cancelAllScheduledNotificationsAsync();
+  await saveScheduledIndex({});
 }
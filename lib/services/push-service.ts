@@ -0,0 +1,93 @@
+/**
+ * Push service
+ * Registers this device's FCM token in the user's private devices
+ * document, so Cloud Functions can tell the user when someone else assigns
+ * them a chore, completes a shared chore or joins one of their households.
+ * Local reminders stay with notification-service.
+ */
+
+import {
+  getInitialNotification,
+  getToken,
+  onMessage,
+  onNotificationOpenedApp,
+  onTokenRefresh,
+  type RemoteMessage,
+} from '@react-native-firebase/messaging';
+import * as Notifications from 'expo-notifications';
+import { messaging } from '../firebase/config';
+import { ChoreNotificationData } from './notification-service';
+import { addPushToken, removePushToken } from './user-service';
+
+// ── Registration ──
+
+/**
+ * Register this device for the signed-in user and keep the token current.
+ * Returns a function that stops listening for token refreshes.
+ */
+export function registerForPushNotifications(userId: string): () => void {
+  getToken(messaging)
+    .then((token) => addPushToken(userId, token))
+    .catch((error) => console.error('Error registering for push notifications:', error));
+
+  // Stale tokens are pruned by the sending function once FCM rejects them
+  return onTokenRefresh(messaging, (token) => {
+    addPushToken(userId, token).catch(() => {});
+  });
+}
+
+/**
+ * Stop pushes to this device for a user who is signing out
+ */
+export async function unregisterFromPushNotifications(userId: string): Promise<void> {
+  try {
+    const token = await getToken(messaging);
+    await removePushToken(userId, token);
+  } catch (error) {
+    // Not fatal: the token is pruned the next time a push to it fails
+    console.error('Error unregistering from push notifications:', error);
+  }
+}
+
+// ── Receiving ──
+
+/** The chore a push is about, if any. Households joined by a member carry no choreId. */
+function getPushChoreData(message: RemoteMessage): ChoreNotificationData | null {
+  const { choreId, householdId } = message.data ?? {};
+  if (typeof choreId !== 'string' || typeof householdId !== 'string') return null;
+  return { choreId, householdId };
+}
+
+/**
+ * FCM doesn't display pushes while the app is in the foreground, so show
+ * them as local notifications (taps then go through notification responses).
+ */
+export function showForegroundPushes(): () => void {
+  return onMessage(messaging, async (message) => {
+    if (!message.notification) return;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: message.notification.title,
+        body: message.notification.body,
+        data: message.data ?? {},
+      },
+      trigger: null,
+    });
+  });
+}
+
+/**
+ * Call `openChore` when a push about a chore is tapped while the app is in
+ * the background, or launched the app. Returns an unsubscribe function.
+ */
+export function onPushOpened(
+  openChore: (householdId: string, choreId: string) => void
+): () => void {
+  const open = (message: RemoteMessage | null) => {
+    const chore = message && getPushChoreData(message);
+    if (chore) openChore(chore.householdId, chore.choreId);
+  };
+
+  getInitialNotification(messaging).then(open).catch(() => {});
+  return onNotificationOpenedApp(messaging, open);
+}
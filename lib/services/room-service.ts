@@ -9,6 +9,7 @@ import {
   doc,
   getDoc,
   getDocs,
+  onSnapshot,
   query,
   setDoc,
   Timestamp,
@@ -22,6 +23,8 @@ import {
   RoomCreateInput,
   RoomUpdateInput,
 } from '../types/room';
+import { logActivity } from './activity-service';
+import { deleteChoreCompletions } from './chore-service';
 import { getHouseholdMember } from './membership-service';
 
 const DEFAULT_ROOMS = [
@@ -53,6 +56,10 @@ export async function createRoom(input: RoomCreateInput): Promise<Room> {
     };
 
     await setDoc(roomRef, roomConverter.toFirestore(room));
+    // Default rooms come with every new household; only rooms someone adds are news
+    if (!room.isDefault) {
+      await logActivity(room.householdId, { type: 'roomCreated', roomId: room.id, roomName: room.name });
+    }
     return room;
   } catch (error) {
     console.error('Error creating room:', error);
@@ -111,18 +118,39 @@ export async function getHouseholdRooms(householdId: string): Promise<Room[]> {
     const snap = await getDocs(
       collection(firestore, 'households', householdId, 'rooms'),
     );
-
-    const rooms = snap.docs
-      .map((d: any) => roomConverter.fromSnapshot(d))
-      .filter((r: any): r is Room => r !== null);
-
-    return rooms.sort((a: Room, b: Room) => a.sortOrder - b.sortOrder);
+    return roomsFromSnapshot(snap);
   } catch (error) {
     console.error('Error getting household rooms:', error);
     throw new Error('Failed to load rooms');
   }
 }
 
+/**
+ * Listen to a household's rooms, in display order
+ */
+export function watchHouseholdRooms(
+  householdId: string,
+  onChange: (rooms: Room[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    collection(firestore, 'households', householdId, 'rooms'),
+    (snap) => onChange(roomsFromSnapshot(snap)),
+    (error) => {
+      console.error('Error watching household rooms:', error);
+      onError(error);
+    }
+  );
+}
+
+function roomsFromSnapshot(snap: { docs: any[] }): Room[] {
+  const rooms = snap.docs
+    .map((d: any) => roomConverter.fromSnapshot(d))
+    .filter((r: any): r is Room => r !== null);
+
+  return rooms.sort((a: Room, b: Room) => a.sortOrder - b.sortOrder);
+}
+
 /**
  * Update a room
  */
@@ -132,6 +160,8 @@ export async function updateRoom(
   updates: RoomUpdateInput
 ): Promise<void> {
   try {
+    const before = updates.name !== undefined ? await getRoom(householdId, roomId) : null;
+
     await updateDoc(
       doc(firestore, 'households', householdId, 'rooms', roomId),
       {
@@ -139,6 +169,16 @@ export async function updateRoom(
         updatedAt: Timestamp.now(),
       },
     );
+
+    // Reordering isn't worth a feed entry; renames are
+    if (before && updates.name !== undefined && updates.name !== before.name) {
+      await logActivity(householdId, {
+        type: 'roomRenamed',
+        roomId,
+        roomName: updates.name,
+        previousName: before.name,
+      });
+    }
   } catch (error) {
     console.error('Error updating room:', error);
     throw new Error('Failed to update room');
@@ -163,6 +203,7 @@ export async function deleteRoom(
       throw new Error('Only admins can delete rooms');
     }
 
+    const room = await getRoom(householdId, roomId);
     const choresSnap = await getDocs(
       query(
         collection(firestore, 'chores'),
@@ -172,12 +213,14 @@ export async function deleteRoom(
     );
 
     for (const choreDoc of choresSnap.docs) {
+      await deleteChoreCompletions(choreDoc.id);
       await deleteDoc(choreDoc.ref);
     }
 
     await deleteDoc(
       doc(firestore, 'households', householdId, 'rooms', roomId),
     );
+    await logActivity(householdId, { type: 'roomDeleted', roomId, roomName: room?.name });
   } catch (error) {
     console.error('Error deleting room:', error);
     throw error;
@@ -4,16 +4,31 @@
  */
 
 import {
+  arrayRemove,
+  arrayUnion,
+  deleteDoc,
+  deleteField,
   doc,
   getDoc,
   serverTimestamp,
   setDoc,
   Timestamp,
   updateDoc,
+  writeBatch,
 } from '@react-native-firebase/firestore';
 import { firestore } from '../firebase/config';
 import { userConverter } from '../firebase/converters';
-import { User, UserCreateInput, UserUpdateInput } from '../types/user';
+import { NotificationSettings, User, UserCreateInput, UserUpdateInput } from '../types/user';
+
+/**
+ * Owner-only documents under /users/{uid}/private, for what other members
+ * reading the profile shouldn't see: device tokens and notification settings
+ */
+type PrivateDocument = 'devices' | 'notificationSettings';
+
+function privateDoc(uid: string, name: PrivateDocument) {
+  return doc(firestore, 'users', uid, 'private', name);
+}
 
 /**
  * Get user profile by UID
@@ -67,3 +82,93 @@ export async function updateUserProfile(
     throw new Error('Failed to update user profile');
   }
 }
+
+/**
+ * Settings and device tokens used to be kept on the profile, where every
+ * signed-in user can read them. Move the user's own into their private
+ * documents and strip them from the profile. Returns the moved settings.
+ */
+async function moveLegacyProfileFields(uid: string): Promise<NotificationSettings | null> {
+  const profileRef = doc(firestore, 'users', uid);
+  const profile = (await getDoc(profileRef)).data();
+  const settings = profile?.notificationSettings as NotificationSettings | undefined;
+  const tokens = profile?.pushTokens as string[] | undefined;
+  if (!settings && !tokens) return null;
+
+  const batch = writeBatch(firestore);
+  if (settings) batch.set(privateDoc(uid, 'notificationSettings'), settings);
+  if (tokens?.length) {
+    batch.set(privateDoc(uid, 'devices'), { pushTokens: arrayUnion(...tokens) }, { merge: true });
+  }
+  batch.update(profileRef, { notificationSettings: deleteField(), pushTokens: deleteField() });
+  await batch.commit();
+  return settings ?? null;
+}
+
+/**
+ * Get the user's notification settings, or null if they never saved any
+ */
+export async function getNotificationSettings(uid: string): Promise<NotificationSettings | null> {
+  try {
+    const snap = await getDoc(privateDoc(uid, 'notificationSettings'));
+    const saved = snap.data() as NotificationSettings | undefined;
+    return saved ?? (await moveLegacyProfileFields(uid));
+  } catch (error) {
+    console.error('Error getting notification settings:', error);
+    throw new Error('Failed to load notification settings');
+  }
+}
+
+/**
+ * Save the user's notification settings, shared by all their devices
+ */
+export async function saveNotificationSettings(
+  uid: string,
+  settings: NotificationSettings
+): Promise<void> {
+  try {
+    await setDoc(privateDoc(uid, 'notificationSettings'), settings);
+  } catch (error) {
+    console.error('Error saving notification settings:', error);
+    throw new Error('Failed to save notification settings');
+  }
+}
+
+/**
+ * Register a device's FCM token so Cloud Functions can push to it
+ */
+export async function addPushToken(uid: string, token: string): Promise<void> {
+  try {
+    await setDoc(privateDoc(uid, 'devices'), { pushTokens: arrayUnion(token) }, { merge: true });
+  } catch (error) {
+    console.error('Error adding push token:', error);
+    throw new Error('Failed to register for push notifications');
+  }
+}
+
+/**
+ * Unregister a device's FCM token, e.g. when signing out on that device
+ */
+export async function removePushToken(uid: string, token: string): Promise<void> {
+  try {
+    await setDoc(privateDoc(uid, 'devices'), { pushTokens: arrayRemove(token) }, { merge: true });
+  } catch (error) {
+    console.error('Error removing push token:', error);
+    throw new Error('Failed to unregister from push notifications');
+  }
+}
+
+/**
+ * Delete a user profile and its private documents
+ * Called during account deletion, before the auth user is removed
+ */
+export async function deleteUserProfile(uid: string): Promise<void> {
+  try {
+    await deleteDoc(privateDoc(uid, 'devices'));
+    await deleteDoc(privateDoc(uid, 'notificationSettings'));
+    await deleteDoc(doc(firestore, 'users', uid));
+  } catch (error) {
+    console.error('Error deleting user profile:', error);
+    throw new Error('Failed to delete user profile');
+  }
+}
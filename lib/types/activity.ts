@@ -0,0 +1,50 @@
+import { Timestamp } from '@react-native-firebase/firestore';
+import { HouseholdRole } from './household';
+
+/**
+ * Activity feed domain types
+ * An append-only record of who did what in a household
+ */
+
+export type ActivityType =
+  | 'choreCreated'
+  | 'choreUpdated'
+  | 'choreDeleted'
+  | 'choreCompleted'
+  | 'choreSkipped'
+  | 'completionUndone'
+  | 'roomCreated'
+  | 'roomRenamed'
+  | 'roomDeleted'
+  | 'memberJoined'
+  | 'memberLeft'
+  | 'memberRemoved'
+  | 'memberRoleChanged'
+  | 'ownershipTransferred'
+  | 'inviteSent';
+
+/**
+ * A single entry in a household's activity feed
+ * (/households/{householdId}/activity). Names are copied in when the entry
+ * is written, so it still reads right after a rename or deletion.
+ */
+export interface ActivityEntry {
+  id: string;
+  householdId: string;
+  type: ActivityType;
+  actorId: string; // Who did it
+  createdAt: Timestamp;
+  choreId?: string;
+  choreName?: string;
+  changedFields?: string[]; // choreUpdated: which chore fields the edit changed
+  reason?: string; // choreSkipped: optional note
+  roomId?: string;
+  roomName?: string;
+  previousName?: string; // roomRenamed: name before the rename
+  userId?: string; // Member it happened to: joins, removals, role changes, new owners
+  role?: HouseholdRole; // memberJoined / memberRoleChanged / inviteSent: the role given
+  invitedEmail?: string;
+}
+
+/** What a service records; the household, actor and time are filled in on write. */
+export type ActivityInput = Omit<ActivityEntry, 'id' | 'householdId' | 'actorId' | 'createdAt'>;
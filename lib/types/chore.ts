@@ -13,9 +13,41 @@ export type IntervalType =
   | 'custom'
   | 'once';
 
+/**
+ * Whose chores a user sees and is notified about: only those assigned to
+ * them, those plus unassigned ones, or everyone's.
+ */
+export type ChoreFilter = 'mine' | 'mineAndUnassigned' | 'everyone';
+
+/** Day of week, matching Date.getDay() (0 = Sunday). */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Optional calendar rule that pins occurrences to specific days.
+ * - weekly + byWeekday: every N weeks on those weekdays ("Mon and Thu")
+ * - monthly + byMonthDay: every N months on that day (-1 = last day of month)
+ * - monthly + byWeekday + bySetPos: every N months on the nth matching weekday
+ *   (1–4, or -1 for the last one, e.g. "first Saturday")
+ */
+export interface RecurrenceRule {
+  byWeekday?: Weekday[];
+  bySetPos?: number;
+  byMonthDay?: number;
+}
+
+/**
+ * How the next due date is anchored when a chore is completed.
+ * - floating: restarts from the completion ("water plants every 3 days")
+ * - fixed: stays on the calendar schedule ("bins out every Tuesday");
+ *   late completions skip missed occurrences instead of drifting
+ */
+export type IntervalAnchor = 'fixed' | 'floating';
+
 export interface Interval {
   type: IntervalType;
   value: number; // For 'every N months/years' or custom duration in days
+  rule?: RecurrenceRule; // Absent on fixed-length intervals (and all docs written before rules existed)
+  anchor?: IntervalAnchor; // Absent = 'floating'
 }
 
 export interface Completion {
@@ -24,20 +56,59 @@ export interface Completion {
   previousDueAt: Timestamp | null; // For undo: restores dueAt to this value (null for one-off chores with no deadline)
 }
 
+/** When a rotating chore hands off to the next member. */
+export type RotationMode = 'completion' | 'period';
+
+/**
+ * Assignee rotation. `Chore.assignedTo` holds whoever's turn it is and
+ * advances through `memberIds` in order, skipping members who have left.
+ * - completion: hand off after every completion
+ * - period: hand off once per due period, whether it was completed or skipped
+ */
+export interface AssigneeRotation {
+  memberIds: string[];
+  mode: RotationMode;
+}
+
+/** What a log entry records: a real completion, or an occurrence skipped without doing it. */
+export type CompletionLogKind = 'completion' | 'skip';
+
+/**
+ * A single entry in a chore's completion log (/chores/{choreId}/completions).
+ * Entries are append-only; undo removes the most recent completion.
+ * For skips, completedAt/completedBy record when and by whom it was skipped.
+ */
+export interface CompletionLogEntry {
+  id: string;
+  choreId: string;
+  householdId: string;
+  kind: CompletionLogKind;
+  completedAt: Timestamp;
+  completedBy: string;
+  previousDueAt: Timestamp | null; // dueAt before this completion
+  nextDueAt: Timestamp | null; // dueAt after this completion (unchanged for one-off chores)
+  reason?: string; // Optional note on skips ("on vacation")
+  rotatedFrom?: string; // Assignee before a rotation hand-off; undo restores it
+}
+
 export interface Chore {
   id: string;
   householdId: string;
   name: string;
   description?: string;
   assignedTo?: string; // userId or undefined for unassigned
+  rotation?: AssigneeRotation; // When set, assignedTo advances automatically
   roomId?: string; // Optional room assignment for location-based organization
   createdBy: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   interval: Interval;
-  dueAt: Timestamp | null; // null for one-off chores with no deadline
+  dueAt: Timestamp | null; // Includes dueTime when set; null for one-off chores with no deadline
+  dueTime?: string; // "HH:MM" time of day it's due on its due date; absent = any time that day
+  reminderOffsets?: number[]; // Minutes before it's due to remind (0 = when due); absent = DEFAULT_REMINDER_OFFSETS
   isOverdue: boolean;
   lastCompletion?: Completion;
+  snoozedFrom?: Timestamp; // Scheduled dueAt before a snooze; fixed schedules keep anchoring on it
 }
 
 export interface ChoreCreateInput {
@@ -45,19 +116,25 @@ export interface ChoreCreateInput {
   name: string;
   description?: string;
   assignedTo?: string;
+  rotation?: AssigneeRotation;
   roomId?: string;
   createdBy: string;
   interval: Interval;
   dueAt?: Timestamp | null; // Optional override: explicit date, or null for one-off with no deadline
+  dueTime?: string;
+  reminderOffsets?: number[];
 }
 
 export interface ChoreUpdateInput {
   name?: string;
   description?: string;
   assignedTo?: string;
+  rotation?: AssigneeRotation;
   roomId?: string;
   interval?: Interval;
   dueAt?: Timestamp | null;
+  dueTime?: string;
+  reminderOffsets?: number[];
   isOverdue?: boolean;
   lastCompletion?: Completion;
   updatedAt?: Timestamp;
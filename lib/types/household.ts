@@ -31,10 +31,14 @@ export interface HouseholdMember {
   userId: string;
   role: HouseholdRole;
   joinedAt: Timestamp;
+  inviteId?: string; // Email invite the member accepted
+  joinCode?: string; // Join code the member redeemed
 }
 
 export interface HouseholdMemberCreateInput {
   householdId: string;
   userId: string;
   role: HouseholdRole;
+  inviteId?: string;
+  joinCode?: string;
 }
@@ -28,6 +28,30 @@ export interface InviteCreateInput {
   role: HouseholdRole;
 }
 
+/**
+ * Shareable join code (also the document ID): redeemable by any signed-in
+ * user until it expires or runs out of uses, independent of their email.
+ */
+export interface JoinCode {
+  code: string;
+  householdId: string;
+  householdName: string;
+  createdBy: string;
+  role: HouseholdRole;
+  useCount: number;
+  maxUses: number | null; // null = unlimited
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+export interface JoinCodeCreateInput {
+  householdId: string;
+  createdBy: string;
+  role: HouseholdRole;
+  expiresInDays: number;
+  maxUses: number | null;
+}
+
 // Extended interface for invites with household info
 // Currently identical to HouseholdInvite but kept for semantic clarity
 export interface InviteWithHouseholdInfo extends HouseholdInvite {}
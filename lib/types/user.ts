@@ -1,4 +1,5 @@
 import { Timestamp } from '@react-native-firebase/firestore';
+import { ChoreFilter } from './chore';
 
 /**
  * User domain types
@@ -14,6 +15,42 @@ export interface User {
   updatedAt: Timestamp;
 }
 
+/**
+ * Notification preferences, synced across the user's devices through
+ * /users/{uid}/private/notificationSettings
+ */
+export interface NotificationSettings {
+  enabled: boolean;
+  dailyReminderEnabled: boolean;
+  dailyReminderTime: string; // "HH:MM" format
+  choreAlertsEnabled: boolean;
+  overdueRemindersEnabled: boolean;
+  overdueDailyDays: number; // Follow up daily for this many days after a chore is due...
+  overdueRepeatDays: number; // ...then every this many days (0 = stop)
+  /** Whose chores to notify about; also filters the home screen, calendar and household stats */
+  choreFilter: ChoreFilter;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // "HH:MM"; notifications from here...
+  quietHoursEnd: string; // ...until here are held back until it ends
+  /** IANA timezone of the device that last saved these, for quiet hours on pushes */
+  timeZone?: string;
+  /** Per-household overrides, by household ID; households without one use the defaults */
+  householdOverrides: Record<string, HouseholdNotificationSettings>;
+}
+
+/**
+ * What a user hears about from one household, on top of the global settings
+ */
+export interface HouseholdNotificationSettings {
+  enabled: boolean;
+  /** Only chores assigned to the user */
+  onlyAssignedToMe: boolean;
+  /** Counted in the daily reminder */
+  dailyReminderEnabled: boolean;
+  choreAlertsEnabled: boolean;
+  overdueRemindersEnabled: boolean;
+}
+
 export interface UserCreateInput {
   uid: string;
   email: string;
@@ -0,0 +1,54 @@
+/**
+ * Due time helpers
+ * Time-of-day parsing and formatting for chore due times ("HH:MM"), and
+ * labels for per-chore reminder offsets.
+ */
+
+/** Offsets a chore reminds at when it hasn't chosen its own: once, when due. */
+export const DEFAULT_REMINDER_OFFSETS = [0];
+
+/** Reminder offsets offered by the chore forms, in minutes before the due time. */
+export const REMINDER_OFFSET_OPTIONS = [0, 60, 120, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+
+/** Split "HH:MM" into numbers. */
+export function parseTimeOfDay(time: string): { hour: number; minute: number } {
+  const [hourStr, minuteStr] = time.split(':');
+  return { hour: parseInt(hourStr, 10), minute: parseInt(minuteStr, 10) };
+}
+
+/** "HH:MM" for the time of day of `date`. */
+export function toTimeOfDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** `date` with its time of day replaced by `time` ("HH:MM"). */
+export function withTimeOfDay(date: Date, time: string): Date {
+  const { hour, minute } = parseTimeOfDay(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute, 0, 0);
+}
+
+/** Locale display for "HH:MM", e.g. "6:30 PM". */
+export function formatTimeOfDay(time: string): string {
+  return withTimeOfDay(new Date(), time).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** A reminder offset as a duration, e.g. "2 hours" or "1 day". */
+export function formatOffsetDuration(minutes: number): string {
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+  if (minutes % MINUTES_PER_DAY === 0) return plural(minutes / MINUTES_PER_DAY, 'day');
+  if (minutes % MINUTES_PER_HOUR === 0) return plural(minutes / MINUTES_PER_HOUR, 'hour');
+  return plural(minutes, 'minute');
+}
+
+/** Picker label for a reminder offset, e.g. "2 hours before" or "At due time". */
+export function describeReminderOffset(minutes: number): string {
+  if (minutes === 0) return 'At due time';
+  return `${formatOffsetDuration(minutes)} before`;
+}
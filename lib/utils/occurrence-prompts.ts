@@ -0,0 +1,60 @@
+/**
+ * Occurrence prompts
+ * Alert-based choices for skipping or snoozing a chore occurrence, shared by
+ * the chore detail screen and ChoreCard swipe actions.
+ */
+
+import { Alert } from 'react-native';
+
+/** Snooze choices, in days from now (Android alerts fit two plus Cancel). */
+const SNOOZE_OPTIONS: { label: string; days: number }[] = [
+  { label: 'Tomorrow', days: 1 },
+  { label: 'Next week', days: 7 },
+];
+
+/** Date `days` from `from`, keeping the time of day. */
+export function getSnoozeDate(days: number, from: Date = new Date()): Date {
+  const until = new Date(from);
+  until.setDate(until.getDate() + days);
+  return until;
+}
+
+export function promptSkip(choreName: string, onSkip: (reason?: string) => void) {
+  Alert.alert(
+    'Skip this time?',
+    `"${choreName}" moves to its next due date without being marked done.`,
+    [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'On vacation', onPress: () => onSkip('On vacation') },
+      { text: 'Skip', onPress: () => onSkip() },
+    ]
+  );
+}
+
+/**
+ * Offers only the snooze choices that land after `dueDate`, since a snooze
+ * can't bring a chore forward.
+ */
+export function promptSnooze(
+  choreName: string,
+  dueDate: Date | null,
+  onSnooze: (until: Date) => void
+) {
+  const options = SNOOZE_OPTIONS.map((option) => ({
+    label: option.label,
+    until: getSnoozeDate(option.days),
+  })).filter(({ until }) => !dueDate || until > dueDate);
+
+  if (options.length === 0) {
+    Alert.alert('Snooze', `"${choreName}" isn't due until after next week.`);
+    return;
+  }
+
+  Alert.alert('Snooze', `Remind about "${choreName}" later.`, [
+    { text: 'Cancel', style: 'cancel' },
+    ...options.map(({ label, until }) => ({
+      text: label,
+      onPress: () => onSnooze(until),
+    })),
+  ]);
+}
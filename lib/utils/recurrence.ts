@@ -0,0 +1,191 @@
+/**
+ * Recurrence helpers
+ * Occurrence math for structured interval rules (specific weekdays,
+ * nth weekday of the month, fixed day of the month) and human-readable
+ * interval summaries.
+ */
+
+import { Interval, RecurrenceRule, Weekday } from '../types/chore';
+
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+/** Supported bySetPos values, in picker order. */
+export const SET_POS_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+/**
+ * Whether an interval carries a rule its type knows how to apply.
+ * Rules on other interval types are ignored.
+ */
+export function hasRecurrenceRule(interval: Interval): boolean {
+  const rule = interval.rule;
+  if (!rule) return false;
+  if (interval.type === 'weekly') return !!rule.byWeekday?.length;
+  if (interval.type === 'monthly') {
+    return (
+      rule.byMonthDay !== undefined ||
+      (!!rule.byWeekday?.length && rule.bySetPos !== undefined)
+    );
+  }
+  return false;
+}
+
+/** Copy of `base` moved to the given calendar day, keeping its time of day. */
+function onDay(base: Date, year: number, month: number, day: number): Date {
+  const date = new Date(base);
+  date.setFullYear(year, month, day);
+  return date;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * The rule's occurrence within one month, or null when the month has none.
+ * Days past the end of a short month clamp to its last day.
+ */
+function occurrenceInMonth(
+  base: Date,
+  year: number,
+  month: number,
+  rule: RecurrenceRule
+): Date | null {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.byMonthDay !== undefined) {
+    const day =
+      rule.byMonthDay < 0
+        ? Math.max(1, lastDay + rule.byMonthDay + 1)
+        : Math.min(rule.byMonthDay, lastDay);
+    return onDay(base, year, month, day);
+  }
+
+  const weekdays = rule.byWeekday ?? [];
+  const matches: number[] = [];
+  for (let day = 1; day <= lastDay; day++) {
+    if (weekdays.includes(new Date(year, month, day).getDay() as Weekday)) {
+      matches.push(day);
+    }
+  }
+
+  const pos = rule.bySetPos ?? 1;
+  const day = pos > 0 ? matches[pos - 1] : matches[matches.length + pos];
+  return day === undefined ? null : onDay(base, year, month, day);
+}
+
+function nextWeeklyOccurrence(from: Date, weeks: number, weekdays: Weekday[]): Date {
+  const sorted = [...weekdays].sort((a, b) => a - b);
+  const fromDay = from.getDay();
+  const laterThisWeek = sorted.find((day) => day > fromDay);
+  const next = new Date(from);
+
+  if (laterThisWeek !== undefined) {
+    next.setDate(from.getDate() + (laterThisWeek - fromDay));
+  } else {
+    // First rule weekday of the week N weeks after the current one (weeks start Sunday)
+    next.setDate(from.getDate() - fromDay + 7 * weeks + sorted[0]);
+  }
+
+  return next;
+}
+
+function nextMonthlyOccurrence(from: Date, months: number, rule: RecurrenceRule): Date {
+  const thisMonth = occurrenceInMonth(from, from.getFullYear(), from.getMonth(), rule);
+  if (thisMonth && thisMonth > from) return thisMonth;
+
+  // Every month has at least four of each weekday, so this only loops for
+  // malformed rules (e.g. a bySetPos of 5); cap it rather than spin.
+  for (let step = 1; step <= 12; step++) {
+    const target = new Date(from.getFullYear(), from.getMonth() + months * step, 1);
+    const occurrence = occurrenceInMonth(from, target.getFullYear(), target.getMonth(), rule);
+    if (occurrence) return occurrence;
+  }
+
+  const fallback = new Date(from);
+  fallback.setMonth(fallback.getMonth() + months);
+  return fallback;
+}
+
+/**
+ * Next occurrence strictly after `from` for an interval with a rule.
+ * Callers should check hasRecurrenceRule() first.
+ */
+export function nextRuleOccurrence(from: Date, interval: Interval): Date {
+  const rule = interval.rule ?? {};
+  if (interval.type === 'weekly') {
+    return nextWeeklyOccurrence(from, interval.value, rule.byWeekday ?? []);
+  }
+  return nextMonthlyOccurrence(from, interval.value, rule);
+}
+
+function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+function every(value: number, single: string, unit: string): string {
+  return value === 1 ? single : `Every ${value} ${unit}`;
+}
+
+/**
+ * Human-readable summary of an interval, e.g. "Weekly on Mon, Thu" or
+ * "Monthly on the first Saturday".
+ */
+export function describeInterval(interval: Interval): string {
+  const { type, value, rule } = interval;
+  const ruled = hasRecurrenceRule(interval);
+
+  switch (type) {
+    case 'once':
+      return 'One-off';
+    case 'daily':
+    case 'custom':
+      return every(value, 'Daily', 'days');
+    case 'weekly': {
+      const base = every(value, 'Weekly', 'weeks');
+      if (!ruled || !rule?.byWeekday) return base;
+      const days = [...rule.byWeekday].sort((a, b) => a - b);
+      return `${base} on ${days.map((day) => WEEKDAY_SHORT_LABELS[day]).join(', ')}`;
+    }
+    case 'monthly': {
+      const base = every(value, 'Monthly', 'months');
+      if (!ruled || !rule) return base;
+      if (rule.byMonthDay !== undefined) {
+        return rule.byMonthDay < 0
+          ? `${base} on the last day`
+          : `${base} on the ${ordinal(rule.byMonthDay)}`;
+      }
+      const pos = SET_POS_OPTIONS.find((option) => option.value === rule.bySetPos);
+      const days = (rule.byWeekday ?? []).map((day) => WEEKDAY_LABELS[day]).join(' or ');
+      return `${base} on the ${pos ? pos.label.toLowerCase() : ordinal(rule.bySetPos ?? 1)} ${days}`;
+    }
+    case 'yearly':
+      return every(value, 'Yearly', 'years');
+  }
+}
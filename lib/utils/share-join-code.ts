@@ -0,0 +1,16 @@
+/**
+ * Join code sharing
+ * Opens the system share sheet with a household's join link and code
+ */
+
+import { Share } from 'react-native';
+import { getJoinLink } from '../services/invite-service';
+import { JoinCode } from '../types/invite';
+
+export async function shareJoinCode(joinCode: JoinCode): Promise<void> {
+  await Share.share({
+    message:
+      `Join "${joinCode.householdName}" on Overdue: ${getJoinLink(joinCode.code)}\n` +
+      `Or enter the code ${joinCode.code} under Households.`,
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Toast messages
+ * Lightweight app-wide notices (e.g. a rolled-back optimistic update).
+ * Callable from hooks and services; rendered by `ToastHost` in the root layout.
+ */
+
+export interface Toast {
+  id: number;
+  message: string;
+}
+
+type ToastListener = (toast: Toast) => void;
+
+const listeners = new Set<ToastListener>();
+let nextId = 1;
+
+export function showToast(message: string): void {
+  const toast: Toast = { id: nextId++, message };
+  listeners.forEach((listener) => listener(toast));
+}
+
+export function subscribeToToasts(listener: ToastListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -59,6 +59,11 @@ async function deleteHouseholdChores(householdId: string): Promise<number> {
   const snapshot = await getDocs(q);
   
   for (const choreDoc of snapshot.docs) {
+    // Completion log entries must go before the chore (rules read the parent chore)
+    const completionsSnap = await getDocs(collection(firestore, 'chores', choreDoc.id, 'completions'));
+    for (const entryDoc of completionsSnap.docs) {
+      await deleteDoc(entryDoc.ref);
+    }
     await deleteDoc(choreDoc.ref);
   }
   
@@ -0,0 +1,281 @@
+/**
+ * Seed data definitions
+ * Test users, rooms and the chore generator shared by the seed script and
+ * the Cloud Functions emulator tests. SDK-agnostic: dates are plain Dates and
+ * callers convert them to their SDK's Timestamp.
+ */
+
+// Test user configuration
+export const TEST_USERS = [
+  { email: 'test1@test.com', password: 'Password1!', displayName: 'Test User 1' },
+  { email: 'test2@test.com', password: 'Password1!', displayName: 'Test User 2' },
+  { email: 'test3@test.com', password: 'Password1!', displayName: 'Test User 3' },
+];
+
+// Chore name templates for variety, grouped by room
+const CHORE_NAMES_BY_ROOM: Record<string, string[]> = {
+  'Living Room': [
+    'Vacuum living room',
+    'Dust shelves',
+    'Tidy living room',
+    'Clean windows',
+    'Organize bookshelf',
+  ],
+  'Kitchen': [
+    'Wash dishes',
+    'Wipe counters',
+    'Empty dishwasher',
+    'Clean fridge',
+    'Clean oven',
+    'Clean microwave',
+    'Organize pantry',
+    'Scrub sink',
+    'Mop kitchen floor',
+  ],
+  'Bathroom': [
+    'Clean bathroom',
+    'Clean mirrors',
+    'Scrub toilet',
+    'Clean shower',
+    'Refill toiletries',
+  ],
+  'Bedroom': [
+    'Change bed sheets',
+    'Vacuum bedroom',
+    'Organize closet',
+    'Dust bedroom',
+  ],
+  'Garage': [
+    'Sweep garage',
+    'Organize tools',
+    'Take out recycling',
+    'Sort storage bins',
+  ],
+  'Office': [
+    'Organize desk',
+    'Dust electronics',
+    'File papers',
+    'Vacuum office',
+  ],
+  'None': [
+    'Take out trash',
+    'Do laundry',
+    'Water plants',
+    'Sanitize doorknobs',
+    'Replace air filters',
+    'Check smoke detectors',
+  ],
+};
+
+const DESCRIPTIONS = [
+  'Make sure to use the right cleaning products',
+  'Don\'t forget to check under the furniture',
+  'This needs to be done thoroughly',
+  'Pay special attention to corners',
+  null, // Some chores won't have descriptions
+  null,
+  'Use the vacuum with the HEPA filter',
+  null,
+  'Remember to wipe down all surfaces',
+  null,
+];
+
+export interface IntervalType {
+  type: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom' | 'once';
+  value: number;
+}
+
+const INTERVALS: IntervalType[] = [
+  { type: 'daily', value: 1 },
+  { type: 'daily', value: 2 },
+  { type: 'weekly', value: 1 },
+  { type: 'weekly', value: 2 },
+  { type: 'monthly', value: 1 },
+  { type: 'monthly', value: 3 },
+  { type: 'custom', value: 10 }, // Every 10 days
+  { type: 'custom', value: 14 }, // Every 2 weeks
+  { type: 'once', value: 1 },    // One-off chore
+];
+
+// One-off chore names (typically not room-specific)
+const ONE_OFF_CHORE_NAMES = [
+  'Replace front door',
+  'Fix leaky faucet',
+  'Paint bedroom',
+  'Install new shelves',
+  'Fix broken fence',
+  'Replace smoke detector batteries',
+];
+
+// Room configurations
+export const DEFAULT_ROOMS = [
+  { name: 'Living Room', sortOrder: 1, isDefault: true },
+  { name: 'Kitchen', sortOrder: 2, isDefault: true },
+  { name: 'Bathroom', sortOrder: 3, isDefault: true },
+  { name: 'Bedroom', sortOrder: 4, isDefault: true },
+];
+
+export const CUSTOM_ROOMS = [
+  { name: 'Garage', sortOrder: 5, isDefault: false },
+  { name: 'Office', sortOrder: 6, isDefault: false },
+];
+
+/** Chore fields produced by the generator (ids and timestamps are added by the caller) */
+export interface SeedChoreFields {
+  name: string;
+  description?: string;
+  assignedTo?: string;
+  roomId?: string;
+  interval: IntervalType;
+  dueAt: Date | null;
+  isOverdue: boolean;
+}
+
+export interface SeedChore {
+  fields: SeedChoreFields;
+  /** Which due-date bucket the chore was generated in (null = no deadline) */
+  dueBucket: 'overdue' | 'today' | 'future' | null;
+  /** Recurring chore given a manually overridden due date */
+  overridden: boolean;
+}
+
+// Helper to calculate due date
+function calculateDueDate(interval: IntervalType, daysOffset: number, now: Date): Date {
+  const dueDate = new Date(now);
+
+  switch (interval.type) {
+    case 'daily':
+      dueDate.setDate(dueDate.getDate() + (interval.value + daysOffset));
+      break;
+    case 'weekly':
+      dueDate.setDate(dueDate.getDate() + (interval.value * 7 + daysOffset));
+      break;
+    case 'monthly':
+      dueDate.setMonth(dueDate.getMonth() + interval.value);
+      dueDate.setDate(dueDate.getDate() + daysOffset);
+      break;
+    case 'yearly':
+      dueDate.setFullYear(dueDate.getFullYear() + interval.value);
+      dueDate.setDate(dueDate.getDate() + daysOffset);
+      break;
+    case 'custom':
+      dueDate.setDate(dueDate.getDate() + (interval.value + daysOffset));
+      break;
+  }
+
+  return dueDate;
+}
+
+/**
+ * Generate the i-th chore for a household.
+ * Intervals, names and assignees cycle with the index; rooms and due dates
+ * are randomised (~30% overdue, ~20% due "today", the rest in the future).
+ */
+export function buildSeedChore(
+  i: number,
+  userIds: string[],
+  roomIds: Record<string, string>,
+  now: Date = new Date()
+): SeedChore {
+  // Pick random chore attributes
+  const interval = INTERVALS[i % INTERVALS.length];
+  const isOneOff = interval.type === 'once';
+
+  // Pick a room (80% chance of having a room, 20% no room)
+  let roomName: string | null = null;
+  let name: string;
+
+  if (isOneOff) {
+    // One-off chores usually don't have rooms
+    name = ONE_OFF_CHORE_NAMES[i % ONE_OFF_CHORE_NAMES.length];
+    roomName = null;
+  } else {
+    // For recurring chores, pick a room
+    if (Math.random() < 0.8) {
+      // 80% chance: pick a room from available rooms
+      const filteredRoomNames = Object.keys(roomIds).filter(name => name !== 'None');
+      roomName = filteredRoomNames[i % filteredRoomNames.length];
+    } else {
+      // 20% chance: no room
+      roomName = 'None';
+    }
+
+    // Pick a chore name appropriate for this room
+    const choreList = CHORE_NAMES_BY_ROOM[roomName];
+    name = choreList[i % choreList.length];
+  }
+
+  const description = DESCRIPTIONS[i % DESCRIPTIONS.length] || undefined;
+
+  // Assign some chores, leave some unassigned
+  const assignedTo = i % 3 === 0 ? undefined : userIds[i % userIds.length];
+
+  // Get roomId (if room is assigned and not "None")
+  const roomId = roomName && roomName !== 'None' ? roomIds[roomName] : undefined;
+
+  let dueAt: Date | null;
+  let isOverdue: boolean;
+  let dueBucket: SeedChore['dueBucket'];
+  let overridden = false;
+
+  if (isOneOff) {
+    // One-off chores: 50% have a due date, 50% have no deadline
+    if (Math.random() < 0.5) {
+      // One-off with a specific due date (future)
+      const futureDays = Math.floor(Math.random() * 60) + 1;
+      dueAt = new Date(now);
+      dueAt.setDate(dueAt.getDate() + futureDays);
+      isOverdue = false;
+      dueBucket = 'future';
+    } else {
+      // One-off with no deadline
+      dueAt = null;
+      isOverdue = false;
+      dueBucket = null;
+    }
+  } else {
+    // Recurring chores — check if we should override the due date
+    // ~15% of recurring chores get a manually overridden due date
+    if (Math.random() < 0.15) {
+      // Overridden: set a custom future date that doesn't match the interval calculation
+      overridden = true;
+      const overrideDays = Math.floor(Math.random() * 90) + 7; // 7-96 days from now
+      dueAt = new Date(now);
+      dueAt.setDate(dueAt.getDate() + overrideDays);
+      isOverdue = false;
+      dueBucket = 'future';
+    } else {
+      // Normal due date calculation with variety
+      let daysOffset: number;
+      const rand = Math.random();
+
+      if (rand < 0.3) {
+        daysOffset = -Math.floor(Math.random() * 14) - 1;
+        dueBucket = 'overdue';
+      } else if (rand < 0.5) {
+        daysOffset = 0;
+        dueBucket = 'today';
+      } else {
+        daysOffset = Math.floor(Math.random() * 30) + 1;
+        dueBucket = 'future';
+      }
+
+      dueAt = calculateDueDate(interval, daysOffset, now);
+      isOverdue = dueAt < now;
+    }
+  }
+
+  // Only include optional fields if they have values
+  const fields: SeedChoreFields = { name, interval, dueAt, isOverdue };
+  if (description) {
+    fields.description = description;
+  }
+  if (assignedTo) {
+    fields.assignedTo = assignedTo;
+  }
+  if (roomId) {
+    fields.roomId = roomId;
+  }
+
+  return { fields, dueBucket, overridden };
+}
@@ -22,6 +22,7 @@ import {
   Timestamp,
 } from 'firebase/firestore';
 import * as path from 'path';
+import { buildSeedChore, CUSTOM_ROOMS, DEFAULT_ROOMS, TEST_USERS } from './seed-data';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
@@ -41,149 +42,6 @@ const app = initializeApp(firebaseConfig);
 const auth = getAuth(app);
 const firestore = getFirestore(app);
 
-// Test user configuration
-const TEST_USERS = [
-  { email: 'test1@test.com', password: 'Password1!', displayName: 'Test User 1' },
-  { email: 'test2@test.com', password: 'Password1!', displayName: 'Test User 2' },
-  { email: 'test3@test.com', password: 'Password1!', displayName: 'Test User 3' },
-];
-
-// Chore name templates for variety, grouped by room
-const CHORE_NAMES_BY_ROOM: Record<string, string[]> = {
-  'Living Room': [
-    'Vacuum living room',
-    'Dust shelves',
-    'Tidy living room',
-    'Clean windows',
-    'Organize bookshelf',
-  ],
-  'Kitchen': [
-    'Wash dishes',
-    'Wipe counters',
-    'Empty dishwasher',
-    'Clean fridge',
-    'Clean oven',
-    'Clean microwave',
-    'Organize pantry',
-    'Scrub sink',
-    'Mop kitchen floor',
-  ],
-  'Bathroom': [
-    'Clean bathroom',
-    'Clean mirrors',
-    'Scrub toilet',
-    'Clean shower',
-    'Refill toiletries',
-  ],
-  'Bedroom': [
-    'Change bed sheets',
-    'Vacuum bedroom',
-    'Organize closet',
-    'Dust bedroom',
-  ],
-  'Garage': [
-    'Sweep garage',
-    'Organize tools',
-    'Take out recycling',
-    'Sort storage bins',
-  ],
-  'Office': [
-    'Organize desk',
-    'Dust electronics',
-    'File papers',
-    'Vacuum office',
-  ],
-  'None': [
-    'Take out trash',
-    'Do laundry',
-    'Water plants',
-    'Sanitize doorknobs',
-    'Replace air filters',
-    'Check smoke detectors',
-  ],
-};
-
-const DESCRIPTIONS = [
-  'Make sure to use the right cleaning products',
-  'Don\'t forget to check under the furniture',
-  'This needs to be done thoroughly',
-  'Pay special attention to corners',
-  null, // Some chores won't have descriptions
-  null,
-  'Use the vacuum with the HEPA filter',
-  null,
-  'Remember to wipe down all surfaces',
-  null,
-];
-
-interface IntervalType {
-  type: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom' | 'once';
-  value: number;
-}
-
-const INTERVALS: IntervalType[] = [
-  { type: 'daily', value: 1 },
-  { type: 'daily', value: 2 },
-  { type: 'weekly', value: 1 },
-  { type: 'weekly', value: 2 },
-  { type: 'monthly', value: 1 },
-  { type: 'monthly', value: 3 },
-  { type: 'custom', value: 10 }, // Every 10 days
-  { type: 'custom', value: 14 }, // Every 2 weeks
-  { type: 'once', value: 1 },    // One-off chore
-];
-
-// One-off chore names (typically not room-specific)
-const ONE_OFF_CHORE_NAMES = [
-  'Replace front door',
-  'Fix leaky faucet',
-  'Paint bedroom',
-  'Install new shelves',
-  'Fix broken fence',
-  'Replace smoke detector batteries',
-];
-
-// Room configurations
-const DEFAULT_ROOMS = [
-  { name: 'Living Room', sortOrder: 1, isDefault: true },
-  { name: 'Kitchen', sortOrder: 2, isDefault: true },
-  { name: 'Bathroom', sortOrder: 3, isDefault: true },
-  { name: 'Bedroom', sortOrder: 4, isDefault: true },
-];
-
-const CUSTOM_ROOMS = [
-  { name: 'Garage', sortOrder: 5, isDefault: false },
-  { name: 'Office', sortOrder: 6, isDefault: false },
-];
-
-// Helper to calculate due date
-function calculateDueDate(interval: IntervalType, daysOffset: number): Date {
-  const now = new Date();
-  const dueDate = new Date(now);
-  
-  switch (interval.type) {
-    case 'daily':
-      dueDate.setDate(dueDate.getDate() + (interval.value + daysOffset));
-      break;
-    case 'weekly':
-      dueDate.setDate(dueDate.getDate() + (interval.value * 7 + daysOffset));
-      break;
-    case 'monthly':
-      dueDate.setMonth(dueDate.getMonth() + interval.value);
-      dueDate.setDate(dueDate.getDate() + daysOffset);
-      break;
-    case 'yearly':
-      dueDate.setFullYear(dueDate.getFullYear() + interval.value);
-      dueDate.setDate(dueDate.getDate() + daysOffset);
-      break;
-    case 'custom':
-      dueDate.setDate(dueDate.getDate() + (interval.value + daysOffset));
-      break;
-  }
-  
-  return dueDate;
-}
-
 // Helper to get or create a user
 async function getOrCreateUser(email: string, password: string, displayName: string) {
   console.log(`\n📝 Processing user: ${email}`);
@@ -332,130 +190,28 @@ async function createChores(
     throw new Error('No authenticated user for creating chores');
   }
   
-  // Get all available room names for this household
-  const availableRoomNames = Object.keys(roomIds);
-  
   for (let i = 0; i < count; i++) {
     const choreRef = doc(collection(firestore, 'chores'));
     const timestamp = Timestamp.now();
-    
-    // Pick random chore attributes
-    const interval = INTERVALS[i % INTERVALS.length];
-    const isOneOff = interval.type === 'once';
+    const { fields, dueBucket, overridden } = buildSeedChore(i, userIds, roomIds, now);
 
-    // Pick a room (80% chance of having a room, 20% no room)
-    let roomName: string | null = null;
-    let name: string;
-    
-    if (isOneOff) {
-      // One-off chores usually don't have rooms
-      name = ONE_OFF_CHORE_NAMES[i % ONE_OFF_CHORE_NAMES.length];
-      roomName = null;
-    } else {
-      // For recurring chores, pick a room
-      if (Math.random() < 0.8) {
-        // 80% chance: pick a room from available rooms
-        const filteredRoomNames = availableRoomNames.filter(name => name !== 'None');
-        roomName = filteredRoomNames[i % filteredRoomNames.length];
-      } else {
-        // 20% chance: no room
-        roomName = 'None';
-      }
-      
-      // Pick a chore name appropriate for this room
-      const choreList = CHORE_NAMES_BY_ROOM[roomName];
-      name = choreList[i % choreList.length];
-    }
-    
-    const description = DESCRIPTIONS[i % DESCRIPTIONS.length] || undefined;
-    const createdBy = currentUserId;
-    
-    // Assign some chores, leave some unassigned
-    const assignedTo = i % 3 === 0 ? undefined : userIds[i % userIds.length];
-    
-    // Get roomId (if room is assigned and not "None")
-    const roomId = roomName && roomName !== 'None' ? roomIds[roomName] : undefined;
-    if (roomId) withRoomCount++;
-    
-    let dueAt: Timestamp | null;
-    let isOverdueFlag: boolean;
-
-    if (isOneOff) {
-      // One-off chores: 50% have a due date, 50% have no deadline
-      oneOffCount++;
-      if (Math.random() < 0.5) {
-        // One-off with a specific due date (future)
-        const futureDays = Math.floor(Math.random() * 60) + 1;
-        const futureDate = new Date(now);
-        futureDate.setDate(futureDate.getDate() + futureDays);
-        dueAt = Timestamp.fromDate(futureDate);
-        isOverdueFlag = false;
-        futureCount++;
-      } else {
-        // One-off with no deadline
-        dueAt = null;
-        isOverdueFlag = false;
-      }
-    } else {
-      // Recurring chores — check if we should override the due date
-      // ~15% of recurring chores get a manually overridden due date
-      const shouldOverride = Math.random() < 0.15;
-
-      if (shouldOverride) {
-        // Overridden: set a custom future date that doesn't match the interval calculation
-        overriddenCount++;
-        const overrideDays = Math.floor(Math.random() * 90) + 7; // 7-96 days from now
-        const overrideDate = new Date(now);
-        overrideDate.setDate(overrideDate.getDate() + overrideDays);
-        dueAt = Timestamp.fromDate(overrideDate);
-        isOverdueFlag = false;
-        futureCount++;
-      } else {
-        // Normal due date calculation with variety
-        let daysOffset: number;
-        const rand = Math.random();
-
-        if (rand < 0.3) {
-          daysOffset = -Math.floor(Math.random() * 14) - 1;
-          overdueCount++;
-        } else if (rand < 0.5) {
-          daysOffset = 0;
-          todayCount++;
-        } else {
-          daysOffset = Math.floor(Math.random() * 30) + 1;
-          futureCount++;
-        }
+    if (fields.interval.type === 'once') oneOffCount++;
+    if (overridden) overriddenCount++;
+    if (fields.roomId) withRoomCount++;
+    if (dueBucket === 'overdue') overdueCount++;
+    if (dueBucket === 'today') todayCount++;
+    if (dueBucket === 'future') futureCount++;
 
-        const dueDate = calculateDueDate(interval, daysOffset);
-        dueAt = Timestamp.fromDate(dueDate);
-        isOverdueFlag = dueDate < now;
-      }
-    }
-    
-    // Build chore object, only including optional fields if they have values
-    const chore: any = {
+    const chore = {
+      ...fields,
       id: choreRef.id,
       householdId,
-      name,
-      createdBy,
+      createdBy: currentUserId,
       createdAt: timestamp,
       updatedAt: timestamp,
-      interval,
-      dueAt,
-      isOverdue: isOverdueFlag,
+      dueAt: fields.dueAt ? Timestamp.fromDate(fields.dueAt) : null,
     };
-    
-    // Only add optional fields if they have values
-    if (description) {
-      chore.description = description;
-    }
-    if (assignedTo) {
-      chore.assignedTo = assignedTo;
-    }
-    if (roomId) {
-      chore.roomId = roomId;
-    }
-    
+
     await setDoc(choreRef, chore);
   }
   